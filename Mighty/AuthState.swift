@@ -56,14 +56,14 @@ final class AuthState {
 
     // MARK: - Family Sharing
 
-    /// Whether the user can edit data (admin or viewing own family)
+    /// Whether the user can edit data (admin/editor or viewing own family)
     var canEdit: Bool {
         // Can always edit if viewing own family (no viewingFamilyId set)
         if viewingFamilyId == nil {
             return true
         }
-        // Can edit if role is admin
-        return viewingFamilyRole == .admin
+        // Can edit if role is admin or editor
+        return viewingFamilyRole == .admin || viewingFamilyRole == .editor
     }
 
     /// Whether currently viewing a shared family (not own family)
@@ -228,7 +228,7 @@ struct InvitationRow: View {
                 }
 
             VStack(alignment: .leading, spacing: 2) {
-                Text(invitation.email)
+                Text(invitation.email ?? "Shareable link")
                     .font(.body)
 
                 Text("Pending \(invitation.familyRole.displayName)")
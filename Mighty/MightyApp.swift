@@ -57,13 +57,18 @@ struct MightyApp: App {
     private func handleIncomingURL(_ url: URL) {
         syncLogger.info("Received URL: \(url.absoluteString)")
 
-        // Handle mighty://invite/{token} or https://mighty-app.com/invite/{token}
+        // Handle mightyapp://invite/{token} or https://mighty-app.com/invite/{token}
         guard let components = URLComponents(url: url, resolvingAgainstBaseURL: false) else {
             syncLogger.error("Failed to parse URL components")
             return
         }
 
-        let pathComponents = components.path.split(separator: "/").map(String.init)
+        var pathComponents = components.path.split(separator: "/").map(String.init)
+
+        // In mightyapp://invite/{token}, "invite" is the host rather than part of the path
+        if url.scheme == "mightyapp", let host = components.host {
+            pathComponents.insert(host, at: 0)
+        }
 
         // Check for invite path
         if let inviteIndex = pathComponents.firstIndex(of: "invite"),
@@ -344,11 +344,13 @@ extension Date {
 
 enum FamilyRole: String, Codable, CaseIterable {
     case admin = "admin"
+    case editor = "editor"
     case viewer = "viewer"
 
     var displayName: String {
         switch self {
         case .admin: return "Admin"
+        case .editor: return "Editor"
         case .viewer: return "Viewer"
         }
     }
@@ -356,6 +358,7 @@ enum FamilyRole: String, Codable, CaseIterable {
     var description: String {
         switch self {
         case .admin: return "Can view and edit all data"
+        case .editor: return "Can view and edit activities"
         case .viewer: return "Can view all data (read-only)"
         }
     }
@@ -363,6 +366,7 @@ enum FamilyRole: String, Codable, CaseIterable {
     var icon: String {
         switch self {
         case .admin: return "person.badge.key"
+        case .editor: return "pencil"
         case .viewer: return "eye"
         }
     }
@@ -391,8 +395,9 @@ struct FamilyMember: Codable, Identifiable {
 
 struct FamilyInvitation: Codable, Identifiable {
     let id: String
-    let email: String
+    let email: String?
     let role: String
+    let mode: String?
     let status: String
     let expiresAt: String
     let createdAt: String
@@ -421,6 +426,7 @@ struct FamilyInvitation: Codable, Identifiable {
 struct FamilyMembersResponse: Codable {
     let members: [FamilyMember]
     let isOwner: Bool
+    let role: String?
     let familyId: String?
 }
 
@@ -439,4 +445,5 @@ struct AcceptInviteResponse: Codable {
     let success: Bool
     let familyId: String?
     let role: String?
+    let mode: String?
 }
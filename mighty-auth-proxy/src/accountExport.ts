@@ -0,0 +1,270 @@
+/**
+ * Account data export
+ *
+ * - POST /account/export - Download everything stored for the user's account
+ *
+ * The archive covers the account, the user's kid profiles with their sections,
+ * entries and media entries, and the families they own or belong to. Kids
+ * shared with the user by another parent, and other members' details, belong
+ * to someone else and are left out.
+ *
+ * `format: "json"` (the default) returns one versioned JSON document.
+ * `format: "csv"` returns a ZIP for keeping records in a spreadsheet: CSV
+ * files listing the kid profiles, sections, media entries and families, one
+ * CSV per section with its entries (`sections/<kid>-<section>.csv`), and the
+ * JSON document.
+ */
+
+import { getUserFamilies } from "./family";
+import { HttpError } from "./http";
+import { queryInstantDB } from "./instantdb";
+import { AppHandler, Env, UserInfo } from "./types";
+import { createZip, ZipFile } from "./zip";
+
+// Bump when the archive's shape changes, so importers can tell versions apart
+export const EXPORT_VERSION = 1;
+
+const EXPORT_FORMATS = ["json", "csv"] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// Attributes exported for each entity, in CSV column order
+const KID_PROFILE_FIELDS = [
+  "id", "localId", "name", "emoji", "enabledTemplates", "tabOrder",
+  "hasCompletedOnboarding", "yearlyBookGoal", "yearlyMovieGoal", "updatedAt",
+] as const;
+
+const SECTION_FIELDS = [
+  "id", "localId", "name", "icon", "sortOrder", "notificationsEnabled", "suggestedActivities", "updatedAt",
+] as const;
+
+const CUSTOM_ENTRY_FIELDS = [
+  "id", "localId", "title", "date", "endDate", "startTime", "endTime", "notes", "rating", "notifyBefore",
+  "isRecurrenceTemplate", "recurrenceGroupId", "recurrencePatternRaw", "recurrenceWeekdays",
+  "recurrenceEndDate", "recurrenceOccurrenceCount", "rrule", "exdates", "updatedAt",
+] as const;
+
+const MEDIA_ENTRY_FIELDS = [
+  "id", "localId", "title", "mediaTypeRaw", "videoTypeRaw", "date", "endDate", "rating", "notes", "imageURL", "updatedAt",
+] as const;
+
+type Exported<F extends readonly string[]> = Record<F[number], unknown>;
+
+export interface ExportedSection extends Exported<typeof SECTION_FIELDS> {
+  entries: Exported<typeof CUSTOM_ENTRY_FIELDS>[];
+}
+
+export interface ExportedKidProfile extends Exported<typeof KID_PROFILE_FIELDS> {
+  sections: ExportedSection[];
+  mediaEntries: Exported<typeof MEDIA_ENTRY_FIELDS>[];
+}
+
+export interface ExportedFamily {
+  id: string;
+  name: string | null;
+  role: string;
+  isOwner: boolean;
+  joinedAt: string | null;
+}
+
+export interface AccountExport {
+  version: number;
+  exportedAt: string;
+  account: { id: string; email: string; imageURL: string | null };
+  kidProfiles: ExportedKidProfile[];
+  families: ExportedFamily[];
+}
+
+/**
+ * Copy the listed attributes of a record, with null for missing ones
+ */
+function pick<F extends readonly string[]>(record: any, fields: F): Exported<F> {
+  const picked = {} as Exported<F>;
+  for (const field of fields) {
+    picked[field as F[number]] = record[field] ?? null;
+  }
+  return picked;
+}
+
+function byString(key: string) {
+  return (a: any, b: any) => String(a[key] ?? "").localeCompare(String(b[key] ?? ""));
+}
+
+/**
+ * Collect the user's data into an archive
+ */
+export async function buildAccountExport(user: UserInfo, env: Env, now = new Date()): Promise<AccountExport> {
+  const [userQuery, memberships] = await Promise.all([
+    queryInstantDB({
+      $users: {
+        $: { where: { id: user.id } },
+        kidProfiles: {
+          customSections: {
+            customEntries: {}
+          },
+          mediaEntries: {}
+        }
+      }
+    }, env),
+    getUserFamilies(user, env),
+  ]);
+
+  const account = userQuery.$users?.[0];
+  if (!account) {
+    throw new HttpError(404, "Account not found");
+  }
+
+  const kidProfiles: ExportedKidProfile[] = [...(account.kidProfiles || [])]
+    .sort(byString("name"))
+    .map((kid: any) => ({
+      ...pick(kid, KID_PROFILE_FIELDS),
+      sections: [...(kid.customSections || [])]
+        .sort((a: any, b: any) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+        .map((section: any) => ({
+          ...pick(section, SECTION_FIELDS),
+          entries: [...(section.customEntries || [])]
+            .sort(byString("date"))
+            .map((entry: any) => pick(entry, CUSTOM_ENTRY_FIELDS)),
+        })),
+      mediaEntries: [...(kid.mediaEntries || [])]
+        .sort(byString("date"))
+        .map((entry: any) => pick(entry, MEDIA_ENTRY_FIELDS)),
+    }));
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    account: {
+      id: account.id,
+      email: account.email ?? user.email,
+      imageURL: account.imageURL ?? null,
+    },
+    kidProfiles,
+    families: memberships.map((m) => ({
+      id: m.family.id,
+      name: m.family.name ?? null,
+      role: m.isOwner ? "owner" : m.role,
+      isOwner: m.isOwner,
+      joinedAt: m.joinedAt ?? null,
+    })),
+  };
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Format one CSV cell (RFC 4180). Arrays and objects become JSON, and text
+ * that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(columns: readonly string[], rows: any[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// Longest file name part taken from a kid or section name
+const MAX_NAME_PART_LENGTH = 40;
+
+/**
+ * Turn a user-given name into a file name part: lowercase letters and digits
+ * separated by hyphens, so no name can add directories or odd characters
+ */
+function fileNamePart(name: unknown, fallback: string): string {
+  const part = String(name ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .slice(0, MAX_NAME_PART_LENGTH)
+    .replace(/^-+|-+$/g, "");
+  return part || fallback;
+}
+
+/**
+ * CSV files for the archive: lists of kid profiles, sections, media entries
+ * and families, and one file per section with its entries. Rows in the lists
+ * carry their kid's ID and name so each file can be read on its own, and
+ * sections.csv names each section's file.
+ */
+function exportCsvFiles(archive: AccountExport): ZipFile[] {
+  const sections: Record<string, unknown>[] = [];
+  const mediaEntries: Record<string, unknown>[] = [];
+  const sectionFiles: ZipFile[] = [];
+  const usedNames = new Set<string>();
+
+  for (const kid of archive.kidProfiles) {
+    const kidColumns = { kidProfileId: kid.id, kidName: kid.name };
+    for (const section of kid.sections) {
+      // Kids and sections can share names, so number repeats
+      const base = `sections/${fileNamePart(kid.name, "kid")}-${fileNamePart(section.name, "section")}`;
+      let file = `${base}.csv`;
+      for (let n = 2; usedNames.has(file); n++) {
+        file = `${base}-${n}.csv`;
+      }
+      usedNames.add(file);
+
+      sections.push({ ...kidColumns, ...section, file });
+      sectionFiles.push({ name: file, content: toCsv(CUSTOM_ENTRY_FIELDS, section.entries) });
+    }
+    for (const entry of kid.mediaEntries) {
+      mediaEntries.push({ ...kidColumns, ...entry });
+    }
+  }
+
+  return [
+    { name: "kid-profiles.csv", content: toCsv(KID_PROFILE_FIELDS, archive.kidProfiles) },
+    { name: "sections.csv", content: toCsv(["kidProfileId", "kidName", ...SECTION_FIELDS, "file"], sections) },
+    ...sectionFiles,
+    { name: "media-entries.csv", content: toCsv(["kidProfileId", "kidName", ...MEDIA_ENTRY_FIELDS], mediaEntries) },
+    { name: "families.csv", content: toCsv(["id", "name", "role", "isOwner", "joinedAt"], archive.families) },
+  ];
+}
+
+export const exportBody = { format: "string?" } as const;
+
+/**
+ * Handle POST /account/export
+ * Returns the archive as a download
+ */
+export const handleAccountExport: AppHandler<typeof exportBody> = async ({ env, user, body }) => {
+  const format = body.format ?? "json";
+  if (!isExportFormat(format)) {
+    throw new HttpError(400, `format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const now = new Date();
+  const archive = await buildAccountExport(user, env, now);
+  const json = JSON.stringify(archive, null, 2);
+  const baseName = `mighty-export-${archive.exportedAt.slice(0, 10)}`;
+
+  const download = (content: BodyInit, contentType: string, extension: string) => new Response(content, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${baseName}.${extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+
+  if (format === "csv") {
+    const zip = createZip([...exportCsvFiles(archive), { name: `${baseName}.json`, content: json }], now);
+    return download(zip, "application/zip", "zip");
+  }
+
+  return download(json, "application/json", "json");
+};
@@ -0,0 +1,243 @@
+/**
+ * Authentication endpoints and request authentication
+ *
+ * - POST /auth/send-code  - Send magic code email (rate limited)
+ * - POST /auth/verify     - Verify magic code and get tokens (rate limited)
+ * - POST /auth/session    - Exchange a refresh token for a short-lived access token
+ */
+
+import { CacheApiTokenCacheStore, KVTokenCacheStore, TokenVerificationCache } from "../../shared/tokenCache";
+import { HttpError, json } from "./http";
+import { INSTANTDB_BASE_URL } from "./instantdb";
+import { DurableObjectRateLimiter, Limiter, RateLimitRule } from "./rateLimit";
+import { ACCESS_TOKEN_TTL_SECONDS, getBearerToken, signAccessToken, verifyAccessToken } from "./session";
+import { AppHandler, Env, UserInfo } from "./types";
+
+// Rate limits for the magic code endpoints
+const RATE_LIMITS = {
+  sendCodePerEmail: { name: "send-code-email", limit: 3, windowMs: 15 * 60 * 1000 },
+  sendCodePerIp: { name: "send-code-ip", limit: 20, windowMs: 60 * 60 * 1000 },
+  verifyPerEmail: { name: "verify-email", limit: 10, windowMs: 15 * 60 * 1000 },
+  verifyPerIp: { name: "verify-ip", limit: 30, windowMs: 15 * 60 * 1000 },
+  // Failed verifies before an email is locked out
+  verifyFailures: { name: "verify-failures", limit: 5, windowMs: 15 * 60 * 1000 },
+} satisfies Record<string, RateLimitRule>;
+
+const VERIFY_LOCKOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Get the rate limiter. Without the Durable Object binding, the magic code
+ * endpoints refuse requests rather than run unlimited.
+ */
+function getRateLimiter(env: Env): Limiter {
+  if (!env.RATE_LIMITER) {
+    console.error("RATE_LIMITER Durable Object binding is missing; refusing magic code requests");
+    throw new HttpError(503, "Sign-in is temporarily unavailable");
+  }
+  return new DurableObjectRateLimiter(env.RATE_LIMITER);
+}
+
+function getClientIp(request: Request): string {
+  return request.headers.get("CF-Connecting-IP") || "unknown";
+}
+
+function rateLimited(error: string, retryAfterSeconds: number): HttpError {
+  return new HttpError(429, error, { retryAfter: retryAfterSeconds }, { "Retry-After": String(retryAfterSeconds) });
+}
+
+// Created on first use so hit/miss metrics accumulate for the isolate's lifetime
+let tokenCache: TokenVerificationCache | null = null;
+
+export function getTokenCache(env: Env): TokenVerificationCache {
+  if (!tokenCache) {
+    tokenCache = new TokenVerificationCache(
+      env.TOKEN_CACHE_KV ? new KVTokenCacheStore(env.TOKEN_CACHE_KV) : new CacheApiTokenCacheStore(caches.default)
+    );
+  }
+  return tokenCache;
+}
+
+/**
+ * Verify refresh token and get user info
+ * Successful verifications are cached briefly (see shared/tokenCache.ts)
+ */
+export async function verifyTokenAndGetUser(refreshToken: string, env: Env): Promise<UserInfo | null> {
+  return getTokenCache(env).getOrVerify(refreshToken, (token) => verifyRefreshTokenUpstream(token, env));
+}
+
+/**
+ * Verify refresh token with InstantDB, skipping the cache. A rejected token
+ * is dropped from the cache so later requests carrying it fail too.
+ */
+async function verifyTokenFresh(refreshToken: string, env: Env): Promise<UserInfo | null> {
+  return getTokenCache(env).verifyFresh(refreshToken, (token) => verifyRefreshTokenUpstream(token, env));
+}
+
+/**
+ * Verify refresh token with InstantDB
+ */
+async function verifyRefreshTokenUpstream(refreshToken: string, env: Env): Promise<UserInfo | null> {
+  const response = await fetch(`${INSTANTDB_BASE_URL}/runtime/auth/verify_refresh_token`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      "app-id": env.INSTANTDB_APP_ID,
+      "refresh-token": refreshToken,
+    }),
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.json() as { user: UserInfo };
+  return data.user;
+}
+
+/**
+ * Authenticate a request: prefers a bearer access token, falling back to
+ * a refresh_token in the body (verified upstream) for older clients
+ */
+export async function authenticateRequest(
+  request: Request,
+  body: Record<string, unknown>,
+  env: Env
+): Promise<UserInfo | null> {
+  const accessToken = getBearerToken(request);
+  if (accessToken) {
+    const claims = await verifyAccessToken(accessToken, env.SESSION_SECRET);
+    return claims ? { id: claims.sub, email: claims.email } : null;
+  }
+
+  if (typeof body.refresh_token === "string" && body.refresh_token) {
+    return verifyTokenAndGetUser(body.refresh_token, env);
+  }
+
+  return null;
+}
+
+export const sendCodeBody = { email: "string" } as const;
+
+/**
+ * Handle POST /auth/send-code
+ * Proxies to InstantDB admin/send_magic_code endpoint
+ */
+export const handleSendCode: AppHandler<typeof sendCodeBody, false> = async ({ request, env, body }) => {
+  const email = body.email.toLowerCase().trim();
+  const limit = await getRateLimiter(env).hitAll([
+    [RATE_LIMITS.sendCodePerIp, getClientIp(request)],
+    [RATE_LIMITS.sendCodePerEmail, email],
+  ]);
+  if (!limit.allowed) {
+    throw rateLimited("Too many code requests. Please try again later.", limit.retryAfterSeconds);
+  }
+
+  const instantDBResponse = await fetch(
+    `${INSTANTDB_BASE_URL}/admin/send_magic_code`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
+        "App-Id": env.INSTANTDB_APP_ID,
+      },
+      body: JSON.stringify({
+        email: body.email,
+      }),
+    }
+  );
+
+  if (!instantDBResponse.ok) {
+    const errorText = await instantDBResponse.text();
+    console.error("InstantDB error:", errorText);
+    return json(
+      { error: "Failed to send magic code", details: errorText, status: instantDBResponse.status },
+      instantDBResponse.status
+    );
+  }
+
+  return json({ success: true });
+};
+
+export const verifyBody = { email: "string", code: "string" } as const;
+
+/**
+ * Handle POST /auth/verify
+ * Proxies to InstantDB admin/verify_magic_code endpoint
+ */
+export const handleVerify: AppHandler<typeof verifyBody, false> = async ({ request, env, body }) => {
+  const email = body.email.toLowerCase().trim();
+  const limiter = getRateLimiter(env);
+
+  // Locked out after repeated failed verifies
+  const lockedFor = await limiter.lockoutRemaining(email);
+  if (lockedFor > 0) {
+    throw rateLimited("Too many failed attempts. Please try again later.", lockedFor);
+  }
+
+  const limit = await limiter.hitAll([
+    [RATE_LIMITS.verifyPerIp, getClientIp(request)],
+    [RATE_LIMITS.verifyPerEmail, email],
+  ]);
+  if (!limit.allowed) {
+    throw rateLimited("Too many attempts. Please try again later.", limit.retryAfterSeconds);
+  }
+
+  const instantDBResponse = await fetch(
+    `${INSTANTDB_BASE_URL}/admin/verify_magic_code`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
+        "App-Id": env.INSTANTDB_APP_ID,
+      },
+      body: JSON.stringify({
+        email: body.email,
+        code: body.code,
+      }),
+    }
+  );
+
+  if (!instantDBResponse.ok) {
+    const errorText = await instantDBResponse.text();
+    console.error("InstantDB verify error:", errorText);
+
+    const lockoutSeconds = await limiter.recordFailure(RATE_LIMITS.verifyFailures, email, VERIFY_LOCKOUT_MS);
+    if (lockoutSeconds > 0) {
+      throw rateLimited("Too many failed attempts. Please try again later.", lockoutSeconds);
+    }
+
+    throw new HttpError(401, "Invalid code");
+  }
+
+  await limiter.clearFailures(RATE_LIMITS.verifyFailures, email);
+
+  return json(await instantDBResponse.json());
+};
+
+export const sessionBody = { refresh_token: "string" } as const;
+
+/**
+ * Handle POST /auth/session
+ * Exchanges a refresh token for a short-lived signed access token. The token
+ * is always checked with InstantDB, since the access token outlives a cached
+ * verification.
+ */
+export const handleSession: AppHandler<typeof sessionBody, false> = async ({ env, body }) => {
+  const user = await verifyTokenFresh(body.refresh_token, env);
+  if (!user) {
+    throw new HttpError(401, "Invalid or expired token");
+  }
+
+  const accessToken = await signAccessToken(user, env.SESSION_SECRET);
+
+  return json({
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    user: { id: user.id, email: user.email },
+  });
+};
@@ -0,0 +1,235 @@
+/**
+ * Calendar feed endpoints
+ *
+ * - POST /family/calendar-feeds       - List the user's calendar feeds
+ * - POST /family/create-calendar-feed - Create a feed for a kid or a family
+ * - POST /family/rotate-calendar-feed - Replace a feed's secret URL
+ * - POST /family/revoke-calendar-feed - Delete a feed
+ *
+ * Feeds are served by the DB proxy at /calendar/{secret}.ics. Only a SHA-256
+ * hash of the secret is stored, so the URL is returned when a feed is created
+ * or rotated and can't be looked up again; rotating gives a new one.
+ */
+
+import { hashToken } from "../../shared/tokenCache";
+import { getManagedFamilies, getUserFamilies } from "./family";
+import { HttpError, json } from "./http";
+import { firstLinked, queryInstantDB, transactInstantDB } from "./instantdb";
+import { AppHandler, Env, UserInfo } from "./types";
+
+// Most feeds a user can have at once
+const MAX_FEEDS_PER_USER = 20;
+
+/**
+ * Generate a secure random feed secret
+ */
+function generateFeedSecret(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The DB proxy's URL, which feeds are served from. Without it a new secret
+ * couldn't be handed out, so feeds aren't created or rotated.
+ */
+function feedBaseUrl(env: Env): string {
+  if (!env.CALENDAR_FEED_BASE_URL) {
+    console.error("CALENDAR_FEED_BASE_URL is not set; refusing to create or rotate calendar feeds");
+    throw new HttpError(503, "Calendar feeds are temporarily unavailable");
+  }
+  return env.CALENDAR_FEED_BASE_URL.replace(/\/+$/, "");
+}
+
+/**
+ * The https and webcal URLs of a feed on the DB proxy
+ */
+function feedUrls(secret: string, baseUrl: string): { url: string; webcalUrl: string } {
+  const url = `${baseUrl}/calendar/${secret}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, "webcal:") };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * A feed as returned to the app (never includes the secret hash)
+ */
+function describeFeed(feed: any) {
+  return {
+    id: feed.id,
+    kidProfileId: feed.kidProfileId ?? null,
+    familyId: feed.familyId ?? null,
+    name: feed.name ?? null,
+    timeZone: feed.timeZone,
+    createdAt: feed.createdAt,
+    rotatedAt: feed.rotatedAt ?? null,
+  };
+}
+
+/**
+ * Find a feed the user may rotate or revoke: one they created, or a family
+ * feed for a family they own or administer
+ */
+async function getManageableFeed(feedId: string, user: UserInfo, env: Env): Promise<any> {
+  const feedQuery = await queryInstantDB({
+    calendarFeeds: {
+      $: { where: { id: feedId } }
+    }
+  }, env);
+
+  const feed = feedQuery.calendarFeeds?.[0];
+  if (!feed) {
+    throw new HttpError(404, "Calendar feed not found");
+  }
+
+  if (feed.ownerId !== user.id) {
+    const managedFamilies = feed.familyId ? await getManagedFamilies(user, env) : [];
+    if (!managedFamilies.some((f) => f.id === feed.familyId)) {
+      throw new HttpError(403, "You can't manage this calendar feed");
+    }
+  }
+
+  return feed;
+}
+
+/**
+ * Handle POST /family/calendar-feeds
+ * Returns the feeds the user has created
+ */
+export const handleListCalendarFeeds: AppHandler = async ({ env, user }) => {
+  const feedQuery = await queryInstantDB({
+    calendarFeeds: {
+      $: { where: { ownerId: user.id } }
+    }
+  }, env);
+
+  const feeds = (feedQuery.calendarFeeds || []).map(describeFeed);
+
+  return json({ feeds });
+};
+
+export const createCalendarFeedBody = {
+  kidProfileId: "string?",
+  familyId: "string?",
+  timeZone: "string?",
+  name: "string?",
+} as const;
+
+/**
+ * Handle POST /family/create-calendar-feed
+ * Creates a feed of one kid's activities (any kid the user can see) or of
+ * every kid in a family the user belongs to
+ */
+export const handleCreateCalendarFeed: AppHandler<typeof createCalendarFeedBody> = async ({ env, user, body }) => {
+  const baseUrl = feedBaseUrl(env);
+  if (!body.kidProfileId === !body.familyId) {
+    throw new HttpError(400, "Give either kidProfileId or familyId");
+  }
+
+  const timeZone = body.timeZone ?? "UTC";
+  if (!isValidTimeZone(timeZone)) {
+    throw new HttpError(400, "timeZone must be an IANA time zone such as \"America/New_York\"");
+  }
+
+  const memberships = await getUserFamilies(user, env);
+
+  if (body.kidProfileId) {
+    // The user must be the kid's parent or belong to the family the kid is shared with
+    const kidQuery = await queryInstantDB({
+      kidProfiles: {
+        $: { where: { id: body.kidProfileId } },
+        parent: {},
+        family: {}
+      }
+    }, env);
+
+    const kid = kidQuery.kidProfiles?.[0];
+    const parent = firstLinked(kid?.parent);
+    const family = firstLinked(kid?.family);
+    const canSee = parent?.id === user.id || (family && memberships.some((m) => m.family.id === family.id));
+    if (!kid || !canSee) {
+      throw new HttpError(404, "Kid profile not found");
+    }
+  } else if (!memberships.some((m) => m.family.id === body.familyId)) {
+    throw new HttpError(403, "You are not a member of this family");
+  }
+
+  const existingQuery = await queryInstantDB({
+    calendarFeeds: {
+      $: { where: { ownerId: user.id } }
+    }
+  }, env);
+  if ((existingQuery.calendarFeeds || []).length >= MAX_FEEDS_PER_USER) {
+    throw new HttpError(400, `You can have at most ${MAX_FEEDS_PER_USER} calendar feeds; revoke one first`);
+  }
+
+  const secret = generateFeedSecret();
+  const feedId = crypto.randomUUID();
+  const feed = {
+    tokenHash: await hashToken(secret),
+    ownerId: user.id,
+    kidProfileId: body.kidProfileId ?? null,
+    familyId: body.familyId ?? null,
+    name: body.name ?? null,
+    timeZone,
+    createdAt: new Date().toISOString(),
+  };
+
+  await transactInstantDB([
+    ["update", "calendarFeeds", feedId, feed]
+  ], env);
+
+  return json({
+    success: true,
+    feed: describeFeed({ id: feedId, ...feed }),
+    ...feedUrls(secret, baseUrl)
+  });
+};
+
+export const calendarFeedBody = { feedId: "string" } as const;
+
+/**
+ * Handle POST /family/rotate-calendar-feed
+ * Replaces the feed's secret; subscriptions to the old URL stop updating
+ */
+export const handleRotateCalendarFeed: AppHandler<typeof calendarFeedBody> = async ({ env, user, body }) => {
+  const baseUrl = feedBaseUrl(env);
+  const feed = await getManageableFeed(body.feedId, user, env);
+
+  const secret = generateFeedSecret();
+  const rotatedAt = new Date().toISOString();
+
+  await transactInstantDB([
+    ["update", "calendarFeeds", feed.id, {
+      tokenHash: await hashToken(secret),
+      rotatedAt,
+    }]
+  ], env);
+
+  return json({
+    success: true,
+    feed: describeFeed({ ...feed, rotatedAt }),
+    ...feedUrls(secret, baseUrl)
+  });
+};
+
+/**
+ * Handle POST /family/revoke-calendar-feed
+ * Deletes the feed; its URL returns 404 from then on
+ */
+export const handleRevokeCalendarFeed: AppHandler<typeof calendarFeedBody> = async ({ env, user, body }) => {
+  const feed = await getManageableFeed(body.feedId, user, env);
+
+  await transactInstantDB([
+    ["delete", "calendarFeeds", feed.id]
+  ], env);
+
+  return json({ success: true });
+};
@@ -0,0 +1,300 @@
+/**
+ * Transactional email templates
+ *
+ * Each template turns its parameters into a subject, a heading, paragraphs,
+ * an optional button and footnotes, written once per locale as plain text.
+ * The shared layout renders that content as HTML (escaping every value, so
+ * an inviter's email can't inject markup) and as a plain-text alternative.
+ */
+
+import type { FamilyRole } from "./family";
+
+export const LOCALES = ["en", "es", "fr"] as const;
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the first supported locale from the candidates, each a language tag
+ * ("es-MX") or an Accept-Language header ("fr-CA,fr;q=0.9,en;q=0.8")
+ */
+export function resolveLocale(...candidates: Array<string | null | undefined>): Locale {
+  for (const candidate of candidates) {
+    for (const tag of (candidate || "").split(",")) {
+      const language = tag.split(";")[0].trim().split(/[-_]/)[0].toLowerCase();
+      if (isLocale(language)) {
+        return language;
+      }
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Whole days from now until an ISO 8601 instant, at least 1
+ */
+export function daysUntil(instant: string, now = Date.now()): number {
+  return Math.max(1, Math.ceil((Date.parse(instant) - now) / (24 * 60 * 60 * 1000)));
+}
+
+export interface TemplateParams {
+  /** Sent to the invitee when an invitation is created */
+  invitation: { inviterEmail: string; role: FamilyRole; link: string; expiresInDays: number };
+  /** Reminds the invitee shortly before a pending invitation expires */
+  invitationExpiring: { inviterEmail: string; role: FamilyRole; link: string; expiresInDays: number };
+  /** Tells the inviter that their invitation was accepted */
+  invitationAccepted: { memberEmail: string; familyName: string | null; role: FamilyRole };
+  /** Tells a member they were removed from a family */
+  memberRemoved: { familyName: string | null; removedByEmail: string };
+  /** Tells a member their role changed */
+  roleChanged: { familyName: string | null; role: FamilyRole; changedByEmail: string };
+  /** Asks a member to confirm taking over a family */
+  ownershipTransferRequested: { ownerEmail: string; familyName: string | null; expiresInDays: number };
+}
+
+export type TemplateName = keyof TemplateParams;
+
+/** What a template says, before it is laid out */
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnotes: string[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type Templates = { [T in TemplateName]: (params: TemplateParams[T]) => EmailContent };
+
+// ============================================
+// STRINGS
+// ============================================
+
+const en: Templates = (() => {
+  const days = (n: number) => n === 1 ? "1 day" : `${n} days`;
+  const family = (name: string | null) => name || "the family";
+  const verbs: Record<FamilyRole, string> = { viewer: "view", editor: "help manage", admin: "help manage" };
+  const roles: Record<FamilyRole, string> = { viewer: "a viewer", editor: "an editor", admin: "an admin" };
+  const details: Record<FamilyRole, string> = {
+    viewer: "As a viewer, you'll be able to see all scheduled activities, but you won't be able to make changes.",
+    editor: "As an editor, you'll be able to see and edit scheduled activities.",
+    admin: "As an admin, you'll be able to edit all activities and kid profiles, and invite or remove family members.",
+  };
+  const download = "If you don't have the Mighty app, download it from the App Store first.";
+
+  return {
+    invitation: (p) => ({
+      subject: `${p.inviterEmail} invited you to ${verbs[p.role]} their family on Mighty`,
+      heading: "You're invited to Mighty!",
+      paragraphs: [`${p.inviterEmail} has invited you to ${verbs[p.role]} their family's activities on Mighty.`, details[p.role]],
+      action: { label: "Accept Invitation", url: p.link },
+      footnotes: [`This invitation expires in ${days(p.expiresInDays)}.`, download],
+    }),
+    invitationExpiring: (p) => ({
+      subject: `Your invitation from ${p.inviterEmail} expires soon`,
+      heading: "Your invitation expires soon",
+      paragraphs: [`${p.inviterEmail} invited you to ${verbs[p.role]} their family's activities on Mighty. The invitation expires in ${days(p.expiresInDays)}.`],
+      action: { label: "Accept Invitation", url: p.link },
+      footnotes: [download],
+    }),
+    invitationAccepted: (p) => ({
+      subject: `${p.memberEmail} joined ${family(p.familyName)} on Mighty`,
+      heading: "Your invitation was accepted",
+      paragraphs: [`${p.memberEmail} accepted your invitation and joined ${family(p.familyName)} as ${roles[p.role]}.`],
+      footnotes: ["You can change their role or remove them in the app's family settings."],
+    }),
+    memberRemoved: (p) => ({
+      subject: `You've been removed from ${family(p.familyName)} on Mighty`,
+      heading: "You've been removed from a family",
+      paragraphs: [`${p.removedByEmail} removed you from ${family(p.familyName)}. You no longer have access to its kids' activities.`],
+      footnotes: ["If you think this was a mistake, ask a family admin to invite you again."],
+    }),
+    roleChanged: (p) => ({
+      subject: `Your role in ${family(p.familyName)} has changed`,
+      heading: "Your role has changed",
+      paragraphs: [`${p.changedByEmail} made you ${roles[p.role]} in ${family(p.familyName)}.`, details[p.role]],
+      footnotes: [],
+    }),
+    ownershipTransferRequested: (p) => ({
+      subject: `${p.ownerEmail} wants to make you the owner of ${family(p.familyName)}`,
+      heading: "You've been asked to take over a family",
+      paragraphs: [`${p.ownerEmail} asked to transfer ownership of ${family(p.familyName)} on Mighty to you. As the owner, you'll manage its members and invitations, and you can rename or delete it.`],
+      footnotes: [`Open the Mighty app to accept or decline. The request expires in ${days(p.expiresInDays)}.`],
+    }),
+  };
+})();
+
+const es: Templates = (() => {
+  const days = (n: number) => n === 1 ? "1 día" : `${n} días`;
+  const family = (name: string | null) => name || "la familia";
+  const verbs: Record<FamilyRole, string> = { viewer: "ver", editor: "ayudar a gestionar", admin: "ayudar a gestionar" };
+  const roles: Record<FamilyRole, string> = { viewer: "lector", editor: "editor", admin: "administrador" };
+  const details: Record<FamilyRole, string> = {
+    viewer: "Como lector, podrás ver todas las actividades programadas, pero no podrás hacer cambios.",
+    editor: "Como editor, podrás ver y editar las actividades programadas.",
+    admin: "Como administrador, podrás editar todas las actividades y los perfiles de los niños, e invitar o eliminar a miembros de la familia.",
+  };
+  const download = "Si no tienes la app Mighty, descárgala primero desde el App Store.";
+
+  return {
+    invitation: (p) => ({
+      subject: `${p.inviterEmail} te invitó a ${verbs[p.role]} su familia en Mighty`,
+      heading: "¡Te han invitado a Mighty!",
+      paragraphs: [`${p.inviterEmail} te ha invitado a ${verbs[p.role]} las actividades de su familia en Mighty.`, details[p.role]],
+      action: { label: "Aceptar invitación", url: p.link },
+      footnotes: [`Esta invitación caduca en ${days(p.expiresInDays)}.`, download],
+    }),
+    invitationExpiring: (p) => ({
+      subject: `Tu invitación de ${p.inviterEmail} caduca pronto`,
+      heading: "Tu invitación caduca pronto",
+      paragraphs: [`${p.inviterEmail} te invitó a ${verbs[p.role]} las actividades de su familia en Mighty. La invitación caduca en ${days(p.expiresInDays)}.`],
+      action: { label: "Aceptar invitación", url: p.link },
+      footnotes: [download],
+    }),
+    invitationAccepted: (p) => ({
+      subject: `${p.memberEmail} se unió a ${family(p.familyName)} en Mighty`,
+      heading: "Han aceptado tu invitación",
+      paragraphs: [`${p.memberEmail} aceptó tu invitación y se unió a ${family(p.familyName)} como ${roles[p.role]}.`],
+      footnotes: ["Puedes cambiar su rol o eliminarlo desde los ajustes de familia de la app."],
+    }),
+    memberRemoved: (p) => ({
+      subject: `Ya no formas parte de ${family(p.familyName)} en Mighty`,
+      heading: "Ya no formas parte de una familia",
+      paragraphs: [`${p.removedByEmail} te eliminó de ${family(p.familyName)}. Ya no tienes acceso a las actividades de sus niños.`],
+      footnotes: ["Si crees que es un error, pide a un administrador de la familia que te vuelva a invitar."],
+    }),
+    roleChanged: (p) => ({
+      subject: `Tu rol en ${family(p.familyName)} ha cambiado`,
+      heading: "Tu rol ha cambiado",
+      paragraphs: [`${p.changedByEmail} te asignó el rol de ${roles[p.role]} en ${family(p.familyName)}.`, details[p.role]],
+      footnotes: [],
+    }),
+    ownershipTransferRequested: (p) => ({
+      subject: `${p.ownerEmail} quiere que seas el propietario de ${family(p.familyName)}`,
+      heading: "Te han pedido que te encargues de una familia",
+      paragraphs: [`${p.ownerEmail} pidió transferirte la propiedad de ${family(p.familyName)} en Mighty. Como propietario, gestionarás sus miembros e invitaciones, y podrás cambiarle el nombre o eliminarla.`],
+      footnotes: [`Abre la app Mighty para aceptar o rechazar. La solicitud caduca en ${days(p.expiresInDays)}.`],
+    }),
+  };
+})();
+
+const fr: Templates = (() => {
+  const days = (n: number) => n === 1 ? "1 jour" : `${n} jours`;
+  const family = (name: string | null) => name || "la famille";
+  const verbs: Record<FamilyRole, string> = { viewer: "suivre", editor: "aider à gérer", admin: "aider à gérer" };
+  const roles: Record<FamilyRole, string> = { viewer: "lecteur", editor: "éditeur", admin: "administrateur" };
+  const asRole: Record<FamilyRole, string> = { viewer: "en tant que lecteur", editor: "en tant qu'éditeur", admin: "en tant qu'administrateur" };
+  const details: Record<FamilyRole, string> = {
+    viewer: "En tant que lecteur, vous pourrez voir toutes les activités prévues, mais pas les modifier.",
+    editor: "En tant qu'éditeur, vous pourrez voir et modifier les activités prévues.",
+    admin: "En tant qu'administrateur, vous pourrez modifier toutes les activités et les profils des enfants, et inviter ou retirer des membres de la famille.",
+  };
+  const download = "Si vous n'avez pas l'app Mighty, téléchargez-la d'abord sur l'App Store.";
+
+  return {
+    invitation: (p) => ({
+      subject: `${p.inviterEmail} vous invite à ${verbs[p.role]} sa famille sur Mighty`,
+      heading: "Vous êtes invité sur Mighty !",
+      paragraphs: [`${p.inviterEmail} vous invite à ${verbs[p.role]} les activités de sa famille sur Mighty.`, details[p.role]],
+      action: { label: "Accepter l'invitation", url: p.link },
+      footnotes: [`Cette invitation expire dans ${days(p.expiresInDays)}.`, download],
+    }),
+    invitationExpiring: (p) => ({
+      subject: `Votre invitation de ${p.inviterEmail} expire bientôt`,
+      heading: "Votre invitation expire bientôt",
+      paragraphs: [`${p.inviterEmail} vous a invité à ${verbs[p.role]} les activités de sa famille sur Mighty. L'invitation expire dans ${days(p.expiresInDays)}.`],
+      action: { label: "Accepter l'invitation", url: p.link },
+      footnotes: [download],
+    }),
+    invitationAccepted: (p) => ({
+      subject: `${p.memberEmail} a rejoint ${family(p.familyName)} sur Mighty`,
+      heading: "Votre invitation a été acceptée",
+      paragraphs: [`${p.memberEmail} a accepté votre invitation et a rejoint ${family(p.familyName)} ${asRole[p.role]}.`],
+      footnotes: ["Vous pouvez modifier son rôle ou le retirer dans les réglages de la famille de l'app."],
+    }),
+    memberRemoved: (p) => ({
+      subject: `Vous ne faites plus partie de ${family(p.familyName)} sur Mighty`,
+      heading: "Vous ne faites plus partie d'une famille",
+      paragraphs: [`${p.removedByEmail} vous a retiré de ${family(p.familyName)}. Vous n'avez plus accès aux activités de ses enfants.`],
+      footnotes: ["Si vous pensez qu'il s'agit d'une erreur, demandez à un administrateur de la famille de vous inviter à nouveau."],
+    }),
+    roleChanged: (p) => ({
+      subject: `Votre rôle dans ${family(p.familyName)} a changé`,
+      heading: "Votre rôle a changé",
+      paragraphs: [`${p.changedByEmail} vous a nommé ${roles[p.role]} dans ${family(p.familyName)}.`, details[p.role]],
+      footnotes: [],
+    }),
+    ownershipTransferRequested: (p) => ({
+      subject: `${p.ownerEmail} souhaite vous confier ${family(p.familyName)}`,
+      heading: "On vous propose de reprendre une famille",
+      paragraphs: [`${p.ownerEmail} souhaite vous transférer la propriété de ${family(p.familyName)} sur Mighty. En tant que propriétaire, vous gérerez ses membres et ses invitations, et pourrez la renommer ou la supprimer.`],
+      footnotes: [`Ouvrez l'app Mighty pour accepter ou refuser. La demande expire dans ${days(p.expiresInDays)}.`],
+    }),
+  };
+})();
+
+const TEMPLATES: Record<Locale, Templates> = { en, es, fr };
+
+// ============================================
+// LAYOUT
+// ============================================
+
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", "\"": "&quot;", "'": "&#39;" };
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ESCAPES[c]);
+}
+
+function renderHtml(content: EmailContent, locale: Locale): string {
+  const action = content.action
+    ? `
+    <p style="margin: 30px 0;">
+      <a href="${escapeHtml(content.action.url)}" style="background-color: #7C3AED; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block;">${escapeHtml(content.action.label)}</a>
+    </p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<body>
+  <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h2 style="color: #7C3AED;">${escapeHtml(content.heading)}</h2>
+${content.paragraphs.map((p) => `    <p>${escapeHtml(p)}</p>`).join("\n")}${action}
+${content.footnotes.map((p) => `    <p style="color: #666; font-size: 14px;">${escapeHtml(p)}</p>`).join("\n")}
+  </div>
+</body>
+</html>
+`;
+}
+
+function renderText(content: EmailContent): string {
+  const blocks = [
+    content.heading,
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...content.footnotes,
+  ];
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Render a template in a locale as a subject with HTML and plain-text bodies
+ */
+export function renderEmail<T extends TemplateName>(name: T, locale: Locale, params: TemplateParams[T]): RenderedEmail {
+  const template = TEMPLATES[locale][name] as (params: TemplateParams[T]) => EmailContent;
+  const content = template(params);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content, locale),
+    text: renderText(content),
+  };
+}
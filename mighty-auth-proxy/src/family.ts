@@ -0,0 +1,906 @@
+/**
+ * Family sharing endpoints
+ *
+ * - POST /family/invite        - Create and send family invitation
+ * - POST /family/accept-invite - Accept invitation with token
+ * - POST /family/members       - List family members
+ * - POST /family/list          - List all families the user belongs to
+ * - POST /family/leave         - Leave a family the user is a member of
+ * - POST /family/invitations   - List pending invitations and invitation history
+ * - POST /family/resend-invite - Email a pending or expired invitation again
+ * - POST /family/revoke-invite - Revoke pending invitation
+ * - POST /family/remove-member - Remove a family member
+ * - POST /family/update-role   - Change a family member's role
+ */
+
+import { daysUntil, resolveLocale, TemplateName, TemplateParams } from "./emailTemplates";
+import { HttpError, json } from "./http";
+import { firstLinked, queryInstantDB, transactInstantDB } from "./instantdb";
+import { getMailer, sendTemplate } from "./mailer";
+import { AppHandler, Env, UserInfo } from "./types";
+
+// Family roles, from least to most privileged:
+// - viewer: read-only access to the family's kids
+// - editor: can also edit sections and entries
+// - admin:  can also edit kid profiles, invite and remove members
+export const FAMILY_ROLES = ["viewer", "editor", "admin"] as const;
+export type FamilyRole = typeof FAMILY_ROLES[number];
+
+export function isFamilyRole(value: unknown): value is FamilyRole {
+  return typeof value === "string" && (FAMILY_ROLES as readonly string[]).includes(value);
+}
+
+// How long an invitation can be accepted for
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How long to wait before an invitation can be emailed again
+const RESEND_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Invitation modes:
+// - email-bound: only the invited email address can accept (default)
+// - open-link:   anyone with the link can accept, up to maxUses times
+export const INVITATION_MODES = ["email-bound", "open-link"] as const;
+export type InvitationMode = typeof INVITATION_MODES[number];
+
+export function isInvitationMode(value: unknown): value is InvitationMode {
+  return typeof value === "string" && (INVITATION_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Generate a secure random invitation token
+ */
+function generateInviteToken(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The link to an invitation: opens the app when it is installed, otherwise
+ * the landing page served at /invite/:token
+ */
+export function invitationLink(token: string, env: Env): string {
+  return `${env.INVITE_BASE_URL.replace(/\/+$/, "")}/invite/${token}`;
+}
+
+/**
+ * Get the families a user can manage: the one they own plus any
+ * where they are an admin member
+ */
+export async function getManagedFamilies(user: UserInfo, env: Env): Promise<any[]> {
+  const [ownedQuery, adminQuery] = await Promise.all([
+    queryInstantDB({
+      families: {
+        $: { where: { ownerId: user.id } }
+      }
+    }, env),
+    queryInstantDB({
+      familyMembers: {
+        $: { where: { userId: user.id, role: "admin" } },
+        family: {}
+      }
+    }, env),
+  ]);
+
+  const families = [...(ownedQuery.families || [])];
+  for (const member of adminQuery.familyMembers || []) {
+    const family = firstLinked(member.family);
+    if (family && !families.some((f) => f.id === family.id)) {
+      families.push(family);
+    }
+  }
+
+  return families;
+}
+
+/**
+ * A family the user belongs to, either as owner or as a member
+ */
+export interface FamilyMembership {
+  family: any;
+  role: FamilyRole;
+  isOwner: boolean;
+  memberId: string | null;
+  joinedAt: string;
+}
+
+/**
+ * Get every family the user belongs to: the one they own first,
+ * followed by the families they have joined as a member
+ */
+export async function getUserFamilies(user: UserInfo, env: Env): Promise<FamilyMembership[]> {
+  const [ownedQuery, memberQuery] = await Promise.all([
+    queryInstantDB({
+      families: {
+        $: { where: { ownerId: user.id } }
+      }
+    }, env),
+    queryInstantDB({
+      familyMembers: {
+        $: { where: { userId: user.id } },
+        family: {}
+      }
+    }, env),
+  ]);
+
+  const memberships: FamilyMembership[] = (ownedQuery.families || []).map((family: any) => ({
+    family,
+    role: "admin",
+    isOwner: true,
+    memberId: null,
+    joinedAt: family.createdAt,
+  }));
+
+  for (const member of memberQuery.familyMembers || []) {
+    const family = firstLinked(member.family);
+    if (!family || memberships.some((m) => m.family.id === family.id)) {
+      continue;
+    }
+    memberships.push({
+      family,
+      role: isFamilyRole(member.role) ? member.role : "viewer",
+      isOwner: false,
+      memberId: member.id,
+      joinedAt: member.joinedAt,
+    });
+  }
+
+  return memberships;
+}
+
+/**
+ * Link all of the owner's kid profiles to their family so that family
+ * members can read them (see worker/instant.perms.ts). The profiles are
+ * stamped like any proxy write so members' /db/changes picks them up.
+ */
+export async function shareKidProfilesWithFamily(ownerId: string, familyId: string, env: Env): Promise<void> {
+  const kidsQuery = await queryInstantDB({
+    kidProfiles: {
+      $: { where: { "parent.id": ownerId } }
+    }
+  }, env);
+
+  const kids = kidsQuery.kidProfiles || [];
+  if (kids.length === 0) {
+    return;
+  }
+
+  const serverUpdatedAt = new Date().toISOString();
+  await transactInstantDB(
+    kids.flatMap((kid: any) => [
+      ["link", "kidProfiles", kid.id, { family: familyId }],
+      ["update", "kidProfiles", kid.id, { serverUpdatedAt }],
+    ]),
+    env
+  );
+}
+
+/**
+ * Send a notification email once the response has gone out.
+ * Failures are logged, since the change it reports has already been made.
+ */
+export function notify<T extends TemplateName>(
+  ctx: ExecutionContext,
+  env: Env,
+  to: string | null | undefined,
+  name: T,
+  locale: string | null | undefined,
+  params: TemplateParams[T]
+): void {
+  if (!to) {
+    return;
+  }
+  ctx.waitUntil(
+    sendTemplate(getMailer(env), to, name, resolveLocale(locale), params)
+      .catch((error) => console.error(`Failed to send ${name} email:`, error))
+  );
+}
+
+/**
+ * Get the family owned by the user, creating it on first use
+ */
+async function getOrCreateOwnedFamily(user: UserInfo, env: Env): Promise<string> {
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { ownerId: user.id } }
+    }
+  }, env);
+
+  if (familyQuery.families && familyQuery.families.length > 0) {
+    return familyQuery.families[0].id;
+  }
+
+  // Create new family
+  const familyId = crypto.randomUUID();
+  await transactInstantDB([
+    ["update", "families", familyId, {
+      ownerId: user.id,
+      name: `${user.email}'s Family`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }]
+  ], env);
+  await shareKidProfilesWithFamily(user.id, familyId, env);
+
+  return familyId;
+}
+
+export const inviteBody = {
+  email: "string?",
+  role: "string?",
+  familyId: "string?",
+  mode: "string?",
+  maxUses: "number?",
+  locale: "string?",
+} as const;
+
+/**
+ * Handle POST /family/invite
+ * Creates invitation and sends email
+ *
+ * Invitations are email-bound by default: only the invited email can accept.
+ * The family owner can instead create an open-link invitation that anyone
+ * with the link can accept, optionally limited to maxUses acceptances.
+ *
+ * The email is written in body.locale, falling back to the inviter's
+ * Accept-Language, and later emails about the invitation use the same locale.
+ */
+export const handleFamilyInvite: AppHandler<typeof inviteBody> = async ({ request, env, user, body }) => {
+  const mode = body.mode ?? "email-bound";
+  if (!isInvitationMode(mode)) {
+    throw new HttpError(400, `mode must be one of: ${INVITATION_MODES.join(", ")}`);
+  }
+
+  if (mode === "email-bound" && !body.email) {
+    throw new HttpError(400, "email is required");
+  }
+
+  if (body.maxUses !== undefined && (mode !== "open-link" || !Number.isInteger(body.maxUses) || body.maxUses < 1)) {
+    throw new HttpError(400, "maxUses must be a positive integer and requires open-link mode");
+  }
+
+  const role = body.role ?? "viewer";
+  if (!isFamilyRole(role)) {
+    throw new HttpError(400, `role must be one of: ${FAMILY_ROLES.join(", ")}`);
+  }
+
+  // Normalize email
+  const inviteeEmail = body.email ? body.email.toLowerCase().trim() : null;
+
+  // Check if inviting self
+  if (inviteeEmail === user.email.toLowerCase()) {
+    throw new HttpError(400, "You cannot invite yourself");
+  }
+
+  let familyId: string;
+
+  if (body.familyId) {
+    // Inviting into a specific family requires owning or administering it
+    const managedFamilies = await getManagedFamilies(user, env);
+    const family = managedFamilies.find((f) => f.id === body.familyId);
+    if (!family) {
+      throw new HttpError(403, "Only family owners and admins can invite members");
+    }
+    if (mode === "open-link" && family.ownerId !== user.id) {
+      throw new HttpError(403, "Only the family owner can create open-link invitations");
+    }
+    familyId = body.familyId;
+  } else {
+    // Get or create family for this user
+    familyId = await getOrCreateOwnedFamily(user, env);
+  }
+
+  let staleInvitationId: string | undefined;
+
+  if (inviteeEmail) {
+    // Check if already a member
+    const membersQuery = await queryInstantDB({
+      familyMembers: {
+        $: { where: { family: familyId, email: inviteeEmail } }
+      }
+    }, env);
+
+    if (membersQuery.familyMembers && membersQuery.familyMembers.length > 0) {
+      throw new HttpError(400, "This person is already a family member");
+    }
+
+    // A live invitation is resent with /family/resend-invite rather than replaced
+    const existingInviteQuery = await queryInstantDB({
+      familyInvitations: {
+        $: { where: { family: familyId, email: inviteeEmail, status: "pending" } }
+      }
+    }, env);
+    const existing = existingInviteQuery.familyInvitations?.[0];
+    if (existing && new Date(existing.expiresAt) >= new Date()) {
+      throw new HttpError(409, "This email already has a pending invitation; resend it instead", {
+        invitationId: existing.id,
+      });
+    }
+    staleInvitationId = existing?.id;
+  }
+
+  // Generate token and expiry
+  const token = generateInviteToken();
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+  const locale = resolveLocale(body.locale, request.headers.get("Accept-Language"));
+
+  // Create the invitation, marking a lapsed one for the same email as expired
+  const invitationId = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await transactInstantDB([
+    ...(staleInvitationId
+      ? [["update", "familyInvitations", staleInvitationId, { status: "expired", expiredAt: now }]]
+      : []),
+    ["update", "familyInvitations", invitationId, {
+      token: token,
+      email: inviteeEmail,
+      role,
+      mode,
+      maxUses: body.maxUses ?? null,
+      locale,
+      useCount: 0,
+      status: "pending",
+      expiresAt: expiresAt,
+      createdAt: now,
+      lastSentAt: inviteeEmail ? now : null,
+      sendCount: inviteeEmail ? 1 : 0,
+      inviterId: user.id,
+      familyId: familyId,
+    }],
+    ["link", "familyInvitations", invitationId, { family: familyId }],
+  ], env);
+
+  // Send email
+  const emailSent = inviteeEmail
+    ? await sendTemplate(getMailer(env), inviteeEmail, "invitation", locale, {
+      inviterEmail: user.email,
+      role,
+      link: invitationLink(token, env),
+      expiresInDays: daysUntil(expiresAt),
+    })
+    : false;
+
+  return json({
+    success: true,
+    invitationId,
+    mode,
+    emailSent,
+    shareLink: invitationLink(token, env)
+  });
+};
+
+export const acceptInviteBody = { token: "string" } as const;
+
+/**
+ * Order members by when they joined, then by id, so every request ranks
+ * those admitted by an open link the same way
+ */
+function byJoinOrder(a: any, b: any): number {
+  return (a.joinedAt || "").localeCompare(b.joinedAt || "") || String(a.id).localeCompare(String(b.id));
+}
+
+/**
+ * Handle POST /family/accept-invite
+ * Accepts invitation and adds user as family member, and tells the inviter
+ */
+export const handleAcceptInvite: AppHandler<typeof acceptInviteBody> = async ({ request, env, ctx, user, body }) => {
+  // Find invitation by token
+  const inviteQuery = await queryInstantDB({
+    familyInvitations: {
+      $: { where: { token: body.token } }
+    }
+  }, env);
+
+  if (!inviteQuery.familyInvitations || inviteQuery.familyInvitations.length === 0) {
+    throw new HttpError(404, "Invitation not found");
+  }
+
+  const invitation = inviteQuery.familyInvitations[0];
+  // Invitations created before modes existed were always sent to one email
+  const mode: InvitationMode = isInvitationMode(invitation.mode) ? invitation.mode : "email-bound";
+
+  // Check invitation status
+  if (invitation.status !== "pending") {
+    throw new HttpError(400, "This invitation has already been used or revoked");
+  }
+
+  // Check expiry
+  if (new Date(invitation.expiresAt) < new Date()) {
+    await transactInstantDB([
+      ["update", "familyInvitations", invitation.id, { status: "expired", expiredAt: new Date().toISOString() }]
+    ], env);
+    throw new HttpError(400, "This invitation has expired");
+  }
+
+  // Email-bound invitations can only be accepted by the invited email
+  if (mode === "email-bound" && user.email.toLowerCase() !== (invitation.email || "").toLowerCase()) {
+    throw new HttpError(403, "This invitation was sent to a different email address", { mode });
+  }
+
+  // Open-link invitations can be limited to a number of uses
+  const useCount = invitation.useCount || 0;
+  if (mode === "open-link" && invitation.maxUses && useCount >= invitation.maxUses) {
+    throw new HttpError(403, "This invitation link has reached its maximum number of uses", { mode });
+  }
+
+  const familyId = invitation.familyId;
+  const limited = mode === "open-link" && Boolean(invitation.maxUses);
+
+  // Make sure the user isn't already part of the family
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { id: familyId } }
+    },
+    familyMembers: {
+      $: { where: { family: familyId, userId: user.id } }
+    },
+    $users: {
+      $: { where: { id: invitation.inviterId ?? "" } }
+    }
+  }, env);
+  const family = familyQuery.families?.[0];
+  const ownerId = family?.ownerId;
+
+  if (ownerId === user.id || (familyQuery.familyMembers && familyQuery.familyMembers.length > 0)) {
+    throw new HttpError(400, "You are already a member of this family");
+  }
+
+  // Make sure kids the owner added since the family was created are shared
+  if (ownerId) {
+    await shareKidProfilesWithFamily(ownerId, familyId, env);
+  }
+
+  // Create family member record
+  const memberId = crypto.randomUUID();
+  const role: FamilyRole = isFamilyRole(invitation.role) ? invitation.role : "viewer";
+
+  const memberSteps = [
+    ["update", "familyMembers", memberId, {
+      userId: user.id,
+      email: user.email,
+      role,
+      invitationId: invitation.id,
+      locale: resolveLocale(request.headers.get("Accept-Language")),
+      joinedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }],
+    ["link", "familyMembers", memberId, { family: familyId }],
+  ];
+
+  if (!limited) {
+    // Open links without a limit stay pending; email-bound invitations are used up
+    await transactInstantDB([
+      ...memberSteps,
+      ["update", "familyInvitations", invitation.id, {
+        status: mode === "email-bound" ? "accepted" : "pending",
+        useCount: useCount + 1,
+        acceptedAt: new Date().toISOString(),
+      }],
+    ], env);
+  } else {
+    // Concurrent acceptances both read the same useCount, so once ours is
+    // written the link's members decide: the first maxUses of them in join
+    // order are admitted, which every request works out the same way
+    await transactInstantDB(memberSteps, env);
+
+    const admittedQuery = await queryInstantDB({
+      familyMembers: {
+        $: { where: { invitationId: invitation.id } }
+      }
+    }, env);
+    const position = [...(admittedQuery.familyMembers || [])]
+      .sort(byJoinOrder)
+      .findIndex((member: any) => member.id === memberId) + 1;
+
+    if (position > invitation.maxUses) {
+      await transactInstantDB([["delete", "familyMembers", memberId]], env);
+      throw new HttpError(403, "This invitation link has reached its maximum number of uses", { mode });
+    }
+
+    // Members who have left since still count as uses
+    const uses = Math.max(position, useCount + 1);
+    await transactInstantDB([
+      ["update", "familyInvitations", invitation.id, {
+        status: uses >= invitation.maxUses ? "accepted" : "pending",
+        useCount: uses,
+        acceptedAt: new Date().toISOString(),
+      }],
+    ], env);
+  }
+
+  // The inviter chose the invitation's locale, so it suits them too
+  notify(ctx, env, familyQuery.$users?.[0]?.email, "invitationAccepted", invitation.locale, {
+    memberEmail: user.email,
+    familyName: family?.name ?? null,
+    role,
+  });
+
+  return json({
+    success: true,
+    familyId,
+    mode,
+    role
+  });
+};
+
+export const membersBody = { familyId: "string?" } as const;
+
+/**
+ * Handle POST /family/members
+ * Returns the members of one of the user's families. Uses body.familyId when
+ * given, otherwise the family the user owns, otherwise the first one they joined.
+ */
+export const handleGetMembers: AppHandler<typeof membersBody> = async ({ env, user, body }) => {
+  const memberships = await getUserFamilies(user, env);
+  const membership = body.familyId
+    ? memberships.find((m) => m.family.id === body.familyId)
+    : memberships[0];
+
+  if (body.familyId && !membership) {
+    throw new HttpError(403, "You are not a member of this family");
+  }
+
+  if (!membership) {
+    return json({
+      members: [],
+      isOwner: true,
+      role: "admin",
+      familyId: null
+    });
+  }
+
+  const family = membership.family;
+
+  // Load the members and the owner's email
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { id: family.id } },
+      members: {}
+    },
+    $users: {
+      $: { where: { id: family.ownerId } }
+    }
+  }, env);
+
+  const members = familyQuery.families?.[0]?.members || [];
+  const ownerEmail = membership.isOwner ? user.email : familyQuery.$users?.[0]?.email;
+
+  // Add owner as first member
+  const allMembers = [
+    {
+      id: "owner",
+      userId: family.ownerId,
+      email: ownerEmail,
+      role: "admin",
+      joinedAt: family.createdAt,
+      isOwner: true,
+    },
+    ...members.map((m: any) => ({ ...m, isOwner: false }))
+  ];
+
+  return json({
+    members: allMembers,
+    isOwner: membership.isOwner,
+    role: membership.role,
+    familyId: family.id
+  });
+};
+
+/**
+ * Handle POST /family/list
+ * Returns every family the user owns or has joined
+ */
+export const handleListFamilies: AppHandler = async ({ env, user }) => {
+  const memberships = await getUserFamilies(user, env);
+
+  const families = memberships.map((m) => ({
+    id: m.family.id,
+    name: m.family.name,
+    ownerId: m.family.ownerId,
+    role: m.role,
+    isOwner: m.isOwner,
+    memberId: m.memberId,
+    joinedAt: m.joinedAt,
+    pendingOwnerId: m.family.pendingOwnerId ?? null,
+  }));
+
+  return json({ families });
+};
+
+export const leaveBody = { familyId: "string" } as const;
+
+/**
+ * Handle POST /family/leave
+ * Removes the caller's own membership from a family
+ */
+export const handleLeaveFamily: AppHandler<typeof leaveBody> = async ({ env, user, body }) => {
+  const memberships = await getUserFamilies(user, env);
+  const membership = memberships.find((m) => m.family.id === body.familyId);
+
+  if (!membership) {
+    throw new HttpError(404, "You are not a member of this family");
+  }
+
+  if (membership.isOwner || !membership.memberId) {
+    throw new HttpError(400, "Owners cannot leave their own family");
+  }
+
+  await transactInstantDB([
+    ["delete", "familyMembers", membership.memberId]
+  ], env);
+
+  return json({ success: true, familyId: body.familyId });
+};
+
+/**
+ * Find an invitation in a family the user owns or administers
+ */
+async function getManageableInvitation(invitationId: string, user: UserInfo, env: Env): Promise<any> {
+  // Find the invitation and the family it belongs to
+  const inviteQuery = await queryInstantDB({
+    familyInvitations: {
+      $: { where: { id: invitationId } },
+      family: {}
+    }
+  }, env);
+
+  const invitation = inviteQuery.familyInvitations?.[0];
+  const inviteFamily = firstLinked(invitation?.family);
+
+  if (!invitation || !inviteFamily) {
+    throw new HttpError(404, "Invitation not found");
+  }
+
+  // Verify user owns or administers that family
+  const managedFamilies = await getManagedFamilies(user, env);
+  if (!managedFamilies.some((f) => f.id === inviteFamily.id)) {
+    throw new HttpError(403, "You can't manage this family's invitations");
+  }
+
+  return invitation;
+}
+
+export const invitationsBody = { familyId: "string?" } as const;
+
+/**
+ * Handle POST /family/invitations
+ * Returns the pending invitations of every family the user owns or
+ * administers (or only of body.familyId, which must be one of them), plus
+ * the accepted, expired and revoked ones as history, newest first
+ */
+export const handleGetInvitations: AppHandler<typeof invitationsBody> = async ({ env, user, body }) => {
+  const managedFamilies = await getManagedFamilies(user, env);
+  if (body.familyId && !managedFamilies.some((f) => f.id === body.familyId)) {
+    throw new HttpError(403, "You can't manage this family's invitations");
+  }
+
+  const familyIds = body.familyId ? [body.familyId] : managedFamilies.map((f) => f.id);
+  if (familyIds.length === 0) {
+    return json({ invitations: [], history: [] });
+  }
+
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { id: { $in: familyIds } } },
+      invitations: {}
+    }
+  }, env);
+
+  // Invitations past their expiry count as expired before the cron job marks them
+  const now = new Date();
+  const all = (familyQuery.families || []).flatMap((family: any) => family.invitations || []).map((invitation: any) =>
+    invitation.status === "pending" && new Date(invitation.expiresAt) < now
+      ? { ...invitation, status: "expired" }
+      : invitation
+  );
+
+  const invitations = all.filter((invitation: any) => invitation.status === "pending");
+  const history = all
+    .filter((invitation: any) => invitation.status !== "pending")
+    .map(({ token, ...invitation }: any) => invitation)
+    .sort((a: any, b: any) => (b.createdAt || "").localeCompare(a.createdAt || ""));
+
+  return json({ invitations, history });
+};
+
+export const resendInviteBody = { invitationId: "string" } as const;
+
+/**
+ * Handle POST /family/resend-invite
+ * Emails a pending or expired email-bound invitation again, with the same
+ * link, and extends it for another 7 days. Each invitation can be resent
+ * once every 10 minutes.
+ */
+export const handleResendInvite: AppHandler<typeof resendInviteBody> = async ({ env, user, body }) => {
+  const invitation = await getManageableInvitation(body.invitationId, user, env);
+
+  if (invitation.mode === "open-link" || !invitation.email) {
+    throw new HttpError(400, "Only invitations sent to an email address can be resent");
+  }
+
+  if (invitation.status !== "pending" && invitation.status !== "expired") {
+    throw new HttpError(400, "Only pending or expired invitations can be resent");
+  }
+
+  const lastSentAt = Date.parse(invitation.lastSentAt || invitation.createdAt || "") || 0;
+  const waitMs = lastSentAt + RESEND_COOLDOWN_MS - Date.now();
+  if (waitMs > 0) {
+    const retryAfter = Math.ceil(waitMs / 1000);
+    throw new HttpError(429, "This invitation was sent recently. Please try again later.", { retryAfter }, {
+      "Retry-After": String(retryAfter),
+    });
+  }
+
+  // The invitee may have joined through another invitation since
+  const membersQuery = await queryInstantDB({
+    familyMembers: {
+      $: { where: { family: invitation.familyId, email: invitation.email } }
+    }
+  }, env);
+  if (membersQuery.familyMembers && membersQuery.familyMembers.length > 0) {
+    throw new HttpError(400, "This person is already a family member");
+  }
+
+  const now = new Date().toISOString();
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+  const role: FamilyRole = isFamilyRole(invitation.role) ? invitation.role : "viewer";
+
+  await transactInstantDB([
+    ["update", "familyInvitations", invitation.id, {
+      status: "pending",
+      expiresAt,
+      lastSentAt: now,
+      sendCount: (invitation.sendCount || 1) + 1,
+      reminderSentAt: null,
+      expiredAt: null,
+    }]
+  ], env);
+
+  const emailSent = await sendTemplate(getMailer(env), invitation.email, "invitation", resolveLocale(invitation.locale), {
+    inviterEmail: user.email,
+    role,
+    link: invitationLink(invitation.token, env),
+    expiresInDays: daysUntil(expiresAt),
+  });
+
+  return json({
+    success: true,
+    invitationId: invitation.id,
+    emailSent,
+    expiresAt
+  });
+};
+
+export const revokeInviteBody = { invitationId: "string" } as const;
+
+/**
+ * Handle POST /family/revoke-invite
+ * Revokes a pending invitation in a family the user owns or administers
+ */
+export const handleRevokeInvite: AppHandler<typeof revokeInviteBody> = async ({ env, user, body }) => {
+  const invitation = await getManageableInvitation(body.invitationId, user, env);
+
+  if (invitation.status !== "pending") {
+    throw new HttpError(400, "Only pending invitations can be revoked");
+  }
+
+  // Update invitation status
+  await transactInstantDB([
+    ["update", "familyInvitations", invitation.id, { status: "revoked", revokedAt: new Date().toISOString() }]
+  ], env);
+
+  return json({ success: true });
+};
+
+export const removeMemberBody = { memberId: "string" } as const;
+
+/**
+ * Handle POST /family/remove-member
+ * Removes a member from a family the user owns or administers, and tells them
+ */
+export const handleRemoveMember: AppHandler<typeof removeMemberBody> = async ({ env, ctx, user, body }) => {
+  // Find the member and the family they belong to
+  const memberQuery = await queryInstantDB({
+    familyMembers: {
+      $: { where: { id: body.memberId } },
+      family: {}
+    }
+  }, env);
+
+  const member = memberQuery.familyMembers?.[0];
+  const memberFamily = firstLinked(member?.family);
+
+  if (!member || !memberFamily) {
+    throw new HttpError(404, "Member not found");
+  }
+
+  // Verify user owns or administers that family
+  const managedFamilies = await getManagedFamilies(user, env);
+  if (!managedFamilies.some((f) => f.id === memberFamily.id)) {
+    throw new HttpError(403, "You can't manage this family's members");
+  }
+
+  // Only the owner can remove another admin
+  if (member.role === "admin" && memberFamily.ownerId !== user.id && member.userId !== user.id) {
+    throw new HttpError(403, "Only the family owner can remove an admin");
+  }
+
+  // Delete family member
+  await transactInstantDB([
+    ["delete", "familyMembers", member.id]
+  ], env);
+
+  if (member.userId !== user.id) {
+    notify(ctx, env, member.email, "memberRemoved", member.locale, {
+      familyName: memberFamily.name ?? null,
+      removedByEmail: user.email,
+    });
+  }
+
+  return json({ success: true });
+};
+
+export const updateRoleBody = { memberId: "string", role: "string" } as const;
+
+/**
+ * Handle POST /family/update-role
+ * Changes a family member's role (owner or admin only), and tells them
+ */
+export const handleUpdateRole: AppHandler<typeof updateRoleBody> = async ({ env, ctx, user, body }) => {
+  const role = body.role;
+  if (!isFamilyRole(role)) {
+    throw new HttpError(400, `role must be one of: ${FAMILY_ROLES.join(", ")}`);
+  }
+
+  // Find the member and the family they belong to
+  const memberQuery = await queryInstantDB({
+    familyMembers: {
+      $: { where: { id: body.memberId } },
+      family: {}
+    }
+  }, env);
+
+  const member = memberQuery.familyMembers?.[0];
+  const memberFamily = firstLinked(member?.family);
+
+  if (!member || !memberFamily) {
+    throw new HttpError(404, "Member not found");
+  }
+
+  // Verify user owns or administers that family
+  const managedFamilies = await getManagedFamilies(user, env);
+  if (!managedFamilies.some((f) => f.id === memberFamily.id)) {
+    throw new HttpError(403, "Only family owners and admins can change roles");
+  }
+
+  if (member.userId === user.id) {
+    throw new HttpError(400, "You cannot change your own role");
+  }
+
+  // Only the owner can demote another admin
+  if (member.role === "admin" && role !== "admin" && memberFamily.ownerId !== user.id) {
+    throw new HttpError(403, "Only the family owner can change an admin's role");
+  }
+
+  await transactInstantDB([
+    ["update", "familyMembers", member.id, {
+      role,
+      updatedAt: new Date().toISOString(),
+    }]
+  ], env);
+
+  if (member.role !== role) {
+    notify(ctx, env, member.email, "roleChanged", member.locale, {
+      familyName: memberFamily.name ?? null,
+      role,
+      changedByEmail: user.email,
+    });
+  }
+
+  return json({
+    success: true,
+    memberId: member.id,
+    role
+  });
+};
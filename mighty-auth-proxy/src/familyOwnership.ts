@@ -0,0 +1,274 @@
+/**
+ * Family settings and ownership endpoints
+ *
+ * - POST /family/rename             - Rename a family
+ * - POST /family/transfer-ownership - Ask a member to take over a family (or cancel the request)
+ * - POST /family/confirm-transfer   - Accept or decline taking over a family
+ * - POST /family/delete             - Delete a family with its members and invitations
+ *
+ * Ownership moves in two steps: the owner names an existing member, who then
+ * confirms. The previous owner stays on as an admin. A user owns at most one
+ * family, since invitations and new kid profiles go to "the family they own".
+ */
+
+import { daysUntil } from "./emailTemplates";
+import { getManagedFamilies, notify, shareKidProfilesWithFamily } from "./family";
+import { HttpError, json } from "./http";
+import { firstLinked, queryInstantDB, transactInstantDB } from "./instantdb";
+import { AppHandler, Env, UserInfo } from "./types";
+
+// Longest family name
+const MAX_FAMILY_NAME_LENGTH = 100;
+
+// How long the new owner has to confirm a transfer
+const TRANSFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get a family the user owns, or throw
+ */
+async function getOwnedFamily(familyId: string, user: UserInfo, env: Env, action: string): Promise<any> {
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { id: familyId } }
+    }
+  }, env);
+
+  const family = familyQuery.families?.[0];
+  if (!family) {
+    throw new HttpError(404, "Family not found");
+  }
+  if (family.ownerId !== user.id) {
+    throw new HttpError(403, `Only the family owner can ${action}`);
+  }
+
+  return family;
+}
+
+function transferExpiresAt(family: any): string | null {
+  const requestedAt = Date.parse(family.transferRequestedAt || "");
+  return Number.isNaN(requestedAt) ? null : new Date(requestedAt + TRANSFER_TTL_MS).toISOString();
+}
+
+export const renameFamilyBody = { familyId: "string", name: "string" } as const;
+
+/**
+ * Handle POST /family/rename
+ * Renames a family the user owns or administers
+ */
+export const handleRenameFamily: AppHandler<typeof renameFamilyBody> = async ({ env, user, body }) => {
+  const name = body.name.trim();
+  if (!name || name.length > MAX_FAMILY_NAME_LENGTH) {
+    throw new HttpError(400, `name must be 1 to ${MAX_FAMILY_NAME_LENGTH} characters`);
+  }
+
+  const managedFamilies = await getManagedFamilies(user, env);
+  if (!managedFamilies.some((f) => f.id === body.familyId)) {
+    throw new HttpError(403, "Only family owners and admins can rename a family");
+  }
+
+  await transactInstantDB([
+    ["update", "families", body.familyId, {
+      name,
+      updatedAt: new Date().toISOString(),
+    }]
+  ], env);
+
+  return json({ success: true, familyId: body.familyId, name });
+};
+
+export const transferOwnershipBody = { familyId: "string", memberId: "string?", cancel: "boolean?" } as const;
+
+/**
+ * Handle POST /family/transfer-ownership
+ * Asks a member of the user's family to become its owner, replacing any
+ * earlier request. With cancel: true, withdraws the pending request instead.
+ */
+export const handleTransferOwnership: AppHandler<typeof transferOwnershipBody> = async ({ env, ctx, user, body }) => {
+  const family = await getOwnedFamily(body.familyId, user, env, "transfer ownership");
+
+  if (body.cancel) {
+    await transactInstantDB([
+      ["update", "families", family.id, { pendingOwnerId: null, transferRequestedAt: null }]
+    ], env);
+    return json({ success: true, familyId: family.id, pendingOwnerId: null });
+  }
+
+  if (!body.memberId) {
+    throw new HttpError(400, "memberId is required");
+  }
+
+  // Only an existing member can take over
+  const memberQuery = await queryInstantDB({
+    familyMembers: {
+      $: { where: { id: body.memberId } },
+      family: {}
+    }
+  }, env);
+
+  const member = memberQuery.familyMembers?.[0];
+  if (!member || firstLinked(member.family)?.id !== family.id) {
+    throw new HttpError(404, "Member not found");
+  }
+
+  const ownedQuery = await queryInstantDB({
+    families: {
+      $: { where: { ownerId: member.userId } }
+    }
+  }, env);
+  if (ownedQuery.families && ownedQuery.families.length > 0) {
+    throw new HttpError(400, "This member already owns a family");
+  }
+
+  const transferRequestedAt = new Date().toISOString();
+  await transactInstantDB([
+    ["update", "families", family.id, { pendingOwnerId: member.userId, transferRequestedAt }]
+  ], env);
+
+  const expiresAt = transferExpiresAt({ transferRequestedAt })!;
+  notify(ctx, env, member.email, "ownershipTransferRequested", member.locale, {
+    ownerEmail: user.email,
+    familyName: family.name ?? null,
+    expiresInDays: daysUntil(expiresAt),
+  });
+
+  return json({
+    success: true,
+    familyId: family.id,
+    pendingOwnerId: member.userId,
+    expiresAt
+  });
+};
+
+export const confirmTransferBody = { familyId: "string", accept: "boolean?" } as const;
+
+/**
+ * Handle POST /family/confirm-transfer
+ * The member asked to take over a family accepts (the default) or declines.
+ * On accepting, they become the owner, their own kid profiles are shared with
+ * the family, and the previous owner becomes an admin member.
+ */
+export const handleConfirmTransfer: AppHandler<typeof confirmTransferBody> = async ({ env, user, body }) => {
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { id: body.familyId } }
+    },
+    familyMembers: {
+      $: { where: { family: body.familyId, userId: user.id } }
+    }
+  }, env);
+
+  const family = familyQuery.families?.[0];
+  if (!family || family.pendingOwnerId !== user.id) {
+    throw new HttpError(404, "No ownership transfer is waiting for you in this family");
+  }
+
+  const clearRequest = ["update", "families", family.id, { pendingOwnerId: null, transferRequestedAt: null }];
+
+  if (body.accept === false) {
+    await transactInstantDB([clearRequest], env);
+    return json({ success: true, familyId: family.id, accepted: false });
+  }
+
+  const expiresAt = transferExpiresAt(family);
+  if (!expiresAt || new Date(expiresAt) < new Date()) {
+    await transactInstantDB([clearRequest], env);
+    throw new HttpError(400, "This ownership transfer has expired");
+  }
+
+  // The request is void if the member has left or been removed since
+  const member = familyQuery.familyMembers?.[0];
+  if (!member) {
+    await transactInstantDB([clearRequest], env);
+    throw new HttpError(400, "You are no longer a member of this family");
+  }
+
+  // Checked when the transfer was requested, but the member may have created
+  // a family of their own since, and a user owns at most one
+  const ownedQuery = await queryInstantDB({
+    families: {
+      $: { where: { ownerId: user.id } }
+    }
+  }, env);
+  if (ownedQuery.families && ownedQuery.families.length > 0) {
+    throw new HttpError(400, "You already own a family");
+  }
+
+  const previousOwnerQuery = await queryInstantDB({
+    $users: {
+      $: { where: { id: family.ownerId } }
+    }
+  }, env);
+  const previousOwner = previousOwnerQuery.$users?.[0];
+
+  const now = new Date().toISOString();
+  const previousOwnerMemberId = crypto.randomUUID();
+
+  await transactInstantDB([
+    ["update", "families", family.id, {
+      ownerId: user.id,
+      pendingOwnerId: null,
+      transferRequestedAt: null,
+      updatedAt: now,
+    }],
+    ["delete", "familyMembers", member.id],
+    ...(previousOwner
+      ? [
+        ["update", "familyMembers", previousOwnerMemberId, {
+          userId: previousOwner.id,
+          email: previousOwner.email,
+          role: "admin",
+          joinedAt: family.createdAt ?? now,
+          updatedAt: now,
+        }],
+        ["link", "familyMembers", previousOwnerMemberId, { family: family.id }],
+      ]
+      : []),
+  ], env);
+
+  // Kids the new owner adds from now on are shared automatically, so share the existing ones too
+  await shareKidProfilesWithFamily(user.id, family.id, env);
+
+  return json({ success: true, familyId: family.id, accepted: true });
+};
+
+export const deleteFamilyBody = { familyId: "string" } as const;
+
+/**
+ * Handle POST /family/delete
+ * Deletes a family the user owns, together with its members, invitations and
+ * calendar feeds, in one transaction. Kid profiles stay with their parents;
+ * only their link to the family goes away.
+ */
+export const handleDeleteFamily: AppHandler<typeof deleteFamilyBody> = async ({ env, user, body }) => {
+  await getOwnedFamily(body.familyId, user, env, "delete the family");
+
+  const familyQuery = await queryInstantDB({
+    families: {
+      $: { where: { id: body.familyId } },
+      members: {},
+      invitations: {}
+    },
+    calendarFeeds: {
+      $: { where: { familyId: body.familyId } }
+    }
+  }, env);
+
+  const family = familyQuery.families?.[0];
+  const members: any[] = family?.members || [];
+  const invitations: any[] = family?.invitations || [];
+  const feeds: any[] = familyQuery.calendarFeeds || [];
+
+  await transactInstantDB([
+    ...members.map((m) => ["delete", "familyMembers", m.id]),
+    ...invitations.map((i) => ["delete", "familyInvitations", i.id]),
+    ...feeds.map((f) => ["delete", "calendarFeeds", f.id]),
+    ["delete", "families", body.familyId],
+  ], env);
+
+  return json({
+    success: true,
+    familyId: body.familyId,
+    removedMembers: members.length,
+    removedInvitations: invitations.length
+  });
+};
@@ -0,0 +1,92 @@
+/**
+ * Response helpers and global middleware for the auth proxy
+ */
+
+/**
+ * An error that maps directly to an HTTP response.
+ * Throw from a handler to return `{ error: message, ...details }` with `status`.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: Record<string, unknown>,
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Create a JSON response
+ */
+export function json(data: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+// CORS headers for iOS app
+// Restricted to specific origins for security
+// iOS native apps don't require CORS, but this protects against web-based attacks
+export function getCorsHeaders(request: Request | null = null): Record<string, string> {
+  const origin = request?.headers?.get('Origin') || '';
+
+  // Allow specific origins only
+  const allowedOrigins = [
+    'https://mighty-app.com',
+    'https://www.mighty-app.com',
+    // Allow localhost for development
+    'http://localhost:3000',
+    'http://localhost:8080',
+  ];
+
+  // For iOS native requests, Origin header is typically not sent
+  // We allow requests without Origin (native apps) but restrict web origins
+  const allowOrigin = origin === '' || allowedOrigins.includes(origin)
+    ? (origin || 'https://mighty-app.com')
+    : 'https://mighty-app.com';
+
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Max-Age": "86400", // Cache preflight for 24 hours
+  };
+}
+
+/**
+ * Middleware: answer CORS preflight requests and add CORS headers to every response
+ */
+export async function cors(request: Request, _env: unknown, next: () => Promise<Response>): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { headers: getCorsHeaders(request) });
+  }
+
+  const response = await next();
+
+  // Copy so headers are mutable even for responses passed through from fetch()
+  const withCors = new Response(response.body, response);
+  for (const [name, value] of Object.entries(getCorsHeaders(request))) {
+    withCors.headers.set(name, value);
+  }
+  return withCors;
+}
+
+/**
+ * Middleware: map thrown errors to JSON responses.
+ * HttpErrors keep their status; anything else is logged and becomes a 500.
+ */
+export async function errors(_request: Request, _env: unknown, next: () => Promise<Response>): Promise<Response> {
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return json({ error: error.message, ...error.details }, error.status, error.headers);
+    }
+    console.error("Error:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
@@ -5,792 +5,163 @@
  * adding the admin token securely on the server side.
  *
  * Endpoints:
- * - POST /auth/send-code  - Send magic code email
- * - POST /auth/verify     - Verify magic code and get tokens
+ * - POST /auth/send-code  - Send magic code email (rate limited)
+ * - POST /auth/verify     - Verify magic code and get tokens (rate limited)
+ * - POST /auth/session    - Exchange a refresh token for a short-lived access token
  * - POST /family/invite   - Create and send family invitation
  * - POST /family/accept-invite - Accept invitation with token
  * - POST /family/members  - List family members
- * - POST /family/invitations - List pending invitations
+ * - POST /family/list     - List all families the user belongs to
+ * - POST /family/leave    - Leave a family the user is a member of
+ * - POST /family/invitations - List pending invitations and invitation history
+ * - POST /family/resend-invite - Email a pending or expired invitation again
  * - POST /family/revoke-invite - Revoke pending invitation
  * - POST /family/remove-member - Remove a family member
+ * - POST /family/update-role - Change a family member's role
+ * - POST /family/rename   - Rename a family
+ * - POST /family/transfer-ownership - Ask a member to take over a family
+ * - POST /family/confirm-transfer - Accept or decline taking over a family
+ * - POST /family/delete   - Delete a family with its members and invitations
+ * - POST /family/calendar-feeds - List the user's calendar feeds
+ * - POST /family/create-calendar-feed - Create a calendar feed for a kid or a family
+ * - POST /family/rotate-calendar-feed - Replace a calendar feed's secret URL
+ * - POST /family/revoke-calendar-feed - Delete a calendar feed
+ * - POST /account/export - Download the user's data as JSON or a ZIP of CSV files
+ * - GET  /invite/:token.json   - Public details of an invitation
+ * - GET  /invite/:token        - Invitation landing page
+ * - GET  /.well-known/apple-app-site-association - Universal link configuration
+ * - GET  /health         - Health check with token cache metrics
+ *
+ * A cron trigger runs the invitation lifecycle (expiry and reminders) hourly.
+ *
+ * Authenticated endpoints take an access token from /auth/session in an
+ * `Authorization: Bearer` header. A `refresh_token` in the JSON body is still
+ * accepted for older app versions.
  */
 
-interface Env {
-  INSTANTDB_ADMIN_TOKEN: string;
-  INSTANTDB_APP_ID: string;
-  RESEND_API_KEY: string;
-}
-
-interface UserInfo {
-  id: string;
-  email: string;
-}
-
-const INSTANTDB_BASE_URL = "https://api.instantdb.com";
-
-// CORS headers for iOS app
-// Restricted to specific origins for security
-// iOS native apps don't require CORS, but this protects against web-based attacks
-function getCorsHeaders(request: Request | null = null): Record<string, string> {
-  const origin = request?.headers?.get('Origin') || '';
-
-  // Allow specific origins only
-  const allowedOrigins = [
-    'https://mighty-app.com',
-    'https://www.mighty-app.com',
-    // Allow localhost for development
-    'http://localhost:3000',
-    'http://localhost:8080',
-  ];
-
-  // For iOS native requests, Origin header is typically not sent
-  // We allow requests without Origin (native apps) but restrict web origins
-  const allowOrigin = origin === '' || allowedOrigins.includes(origin)
-    ? (origin || 'https://mighty-app.com')
-    : 'https://mighty-app.com';
-
-  return {
-    "Access-Control-Allow-Origin": allowOrigin,
-    "Access-Control-Allow-Methods": "POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
-    "Access-Control-Max-Age": "86400", // Cache preflight for 24 hours
-  };
-}
+import { exportBody, handleAccountExport } from "./accountExport";
+import {
+  authenticateRequest,
+  getTokenCache,
+  handleSendCode,
+  handleSession,
+  handleVerify,
+  sendCodeBody,
+  sessionBody,
+  verifyBody,
+} from "./auth";
+import {
+  calendarFeedBody,
+  createCalendarFeedBody,
+  handleCreateCalendarFeed,
+  handleListCalendarFeeds,
+  handleRevokeCalendarFeed,
+  handleRotateCalendarFeed,
+} from "./calendarFeeds";
+import {
+  acceptInviteBody,
+  handleAcceptInvite,
+  handleFamilyInvite,
+  handleGetInvitations,
+  handleGetMembers,
+  handleLeaveFamily,
+  handleListFamilies,
+  handleRemoveMember,
+  handleResendInvite,
+  handleRevokeInvite,
+  handleUpdateRole,
+  invitationsBody,
+  inviteBody,
+  leaveBody,
+  membersBody,
+  removeMemberBody,
+  resendInviteBody,
+  revokeInviteBody,
+  updateRoleBody,
+} from "./family";
+import {
+  confirmTransferBody,
+  deleteFamilyBody,
+  handleConfirmTransfer,
+  handleDeleteFamily,
+  handleRenameFamily,
+  handleTransferOwnership,
+  renameFamilyBody,
+  transferOwnershipBody,
+} from "./familyOwnership";
+import { cors, errors, json } from "./http";
+import { runInvitationLifecycle } from "./invitationLifecycle";
+import { handleAppSiteAssociation, handleInvitationDetails, handleInvitePage } from "./invitePage";
+import { Router } from "./router";
+import { Env, UserInfo } from "./types";
+
+const router = new Router<Env, UserInfo>(authenticateRequest)
+  .use(cors)
+  .use(errors);
+
+// Auth endpoints
+router
+  .post("/auth/send-code", { body: sendCodeBody }, handleSendCode)
+  .post("/auth/verify", { body: verifyBody }, handleVerify)
+  .post("/auth/session", { body: sessionBody }, handleSession);
+
+// Health check
+router.get("/health", {}, async ({ env }) => json({
+  status: "ok",
+  service: "auth-proxy",
+  tokenCache: getTokenCache(env).metrics,
+}));
+
+// Family sharing endpoints
+router
+  .post("/family/invite", { auth: true, body: inviteBody, errorMessage: "Failed to create invitation" }, handleFamilyInvite)
+  .post("/family/accept-invite", { auth: true, body: acceptInviteBody, errorMessage: "Failed to accept invitation" }, handleAcceptInvite)
+  .post("/family/members", { auth: true, body: membersBody, errorMessage: "Failed to get family members" }, handleGetMembers)
+  .post("/family/list", { auth: true, errorMessage: "Failed to list families" }, handleListFamilies)
+  .post("/family/leave", { auth: true, body: leaveBody, errorMessage: "Failed to leave family" }, handleLeaveFamily)
+  .post("/family/invitations", { auth: true, body: invitationsBody, errorMessage: "Failed to get invitations" }, handleGetInvitations)
+  .post("/family/resend-invite", { auth: true, body: resendInviteBody, errorMessage: "Failed to resend invitation" }, handleResendInvite)
+  .post("/family/revoke-invite", { auth: true, body: revokeInviteBody, errorMessage: "Failed to revoke invitation" }, handleRevokeInvite)
+  .post("/family/remove-member", { auth: true, body: removeMemberBody, errorMessage: "Failed to remove member" }, handleRemoveMember)
+  .post("/family/update-role", { auth: true, body: updateRoleBody, errorMessage: "Failed to update role" }, handleUpdateRole);
+
+// Family settings and ownership
+router
+  .post("/family/rename", { auth: true, body: renameFamilyBody, errorMessage: "Failed to rename family" }, handleRenameFamily)
+  .post("/family/transfer-ownership", { auth: true, body: transferOwnershipBody, errorMessage: "Failed to transfer ownership" }, handleTransferOwnership)
+  .post("/family/confirm-transfer", { auth: true, body: confirmTransferBody, errorMessage: "Failed to confirm ownership transfer" }, handleConfirmTransfer)
+  .post("/family/delete", { auth: true, body: deleteFamilyBody, errorMessage: "Failed to delete family" }, handleDeleteFamily);
+
+// Calendar feed endpoints (the feeds themselves are served by the DB proxy)
+router
+  .post("/family/calendar-feeds", { auth: true, errorMessage: "Failed to list calendar feeds" }, handleListCalendarFeeds)
+  .post("/family/create-calendar-feed", { auth: true, body: createCalendarFeedBody, errorMessage: "Failed to create calendar feed" }, handleCreateCalendarFeed)
+  .post("/family/rotate-calendar-feed", { auth: true, body: calendarFeedBody, errorMessage: "Failed to rotate calendar feed" }, handleRotateCalendarFeed)
+  .post("/family/revoke-calendar-feed", { auth: true, body: calendarFeedBody, errorMessage: "Failed to revoke calendar feed" }, handleRevokeCalendarFeed);
+
+// Account data
+router.post("/account/export", { auth: true, body: exportBody, errorMessage: "Failed to export account data" }, handleAccountExport);
+
+// Invitation links (no auth; the token is the credential)
+router
+  .get("/invite/:token.json", {}, handleInvitationDetails)
+  .get("/invite/:token", {}, handleInvitePage)
+  .get("/.well-known/apple-app-site-association", {}, handleAppSiteAssociation)
+  .get("/apple-app-site-association", {}, handleAppSiteAssociation);
+
+// Durable Object classes must be exported from the main module
+export { RateLimiterObject } from "./rateLimit";
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    // Handle CORS preflight
-    if (request.method === "OPTIONS") {
-      return new Response(null, { headers: getCorsHeaders(request) });
-    }
-
-    const url = new URL(request.url);
-    const path = url.pathname;
-
-    try {
-      // Auth endpoints
-      if (path === "/auth/send-code" && request.method === "POST") {
-        return await handleSendCode(request, env);
-      }
-
-      if (path === "/auth/verify" && request.method === "POST") {
-        return await handleVerify(request, env);
-      }
-
-      // Family sharing endpoints
-      if (path === "/family/invite" && request.method === "POST") {
-        return await handleFamilyInvite(request, env);
-      }
-
-      if (path === "/family/accept-invite" && request.method === "POST") {
-        return await handleAcceptInvite(request, env);
-      }
-
-      if (path === "/family/members" && request.method === "POST") {
-        return await handleGetMembers(request, env);
-      }
-
-      if (path === "/family/invitations" && request.method === "POST") {
-        return await handleGetInvitations(request, env);
-      }
-
-      if (path === "/family/revoke-invite" && request.method === "POST") {
-        return await handleRevokeInvite(request, env);
-      }
-
-      if (path === "/family/remove-member" && request.method === "POST") {
-        return await handleRemoveMember(request, env);
-      }
-
-      return new Response(JSON.stringify({ error: "Not found" }), {
-        status: 404,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    } catch (error) {
-      console.error("Error:", error);
-      return new Response(
-        JSON.stringify({ error: "Internal server error" }),
-        {
-          status: 500,
-          headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-        }
-      );
-    }
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return router.handle(request, env, ctx);
   },
-};
-
-/**
- * Handle POST /auth/send-code
- * Proxies to InstantDB admin/send_magic_code endpoint
- */
-async function handleSendCode(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { email: string };
-
-  if (!body.email) {
-    return new Response(JSON.stringify({ error: "Email is required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  const instantDBResponse = await fetch(
-    `${INSTANTDB_BASE_URL}/admin/send_magic_code`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
-        "App-Id": env.INSTANTDB_APP_ID,
-      },
-      body: JSON.stringify({
-        email: body.email,
-      }),
-    }
-  );
-
-  if (!instantDBResponse.ok) {
-    const errorText = await instantDBResponse.text();
-    console.error("InstantDB error:", errorText);
-    return new Response(
-      JSON.stringify({ error: "Failed to send magic code", details: errorText, status: instantDBResponse.status }),
-      {
-        status: instantDBResponse.status,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      }
-    );
-  }
-
-  return new Response(JSON.stringify({ success: true }), {
-    status: 200,
-    headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-  });
-}
-
-/**
- * Handle POST /auth/verify
- * Proxies to InstantDB admin/verify_magic_code endpoint
- */
-async function handleVerify(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { email: string; code: string };
 
-  if (!body.email || !body.code) {
-    return new Response(
-      JSON.stringify({ error: "Email and code are required" }),
-      {
-        status: 400,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      }
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      runInvitationLifecycle(env, controller.scheduledTime)
+        .then(({ expired, reminded }) => console.log(`Invitation lifecycle: ${expired} expired, ${reminded} reminded`))
+        .catch((error) => console.error("Invitation lifecycle failed:", error))
     );
-  }
-
-  const instantDBResponse = await fetch(
-    `${INSTANTDB_BASE_URL}/admin/verify_magic_code`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
-        "App-Id": env.INSTANTDB_APP_ID,
-      },
-      body: JSON.stringify({
-        email: body.email,
-        code: body.code,
-      }),
-    }
-  );
-
-  if (!instantDBResponse.ok) {
-    const errorText = await instantDBResponse.text();
-    console.error("InstantDB verify error:", errorText);
-    return new Response(JSON.stringify({ error: "Invalid code" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  const data = await instantDBResponse.json();
-
-  return new Response(JSON.stringify(data), {
-    status: 200,
-    headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-  });
-}
-
-// ============================================
-// FAMILY SHARING ENDPOINTS
-// ============================================
-
-/**
- * Verify refresh token and get user info
- */
-async function verifyTokenAndGetUser(refreshToken: string, env: Env): Promise<UserInfo | null> {
-  const response = await fetch(`${INSTANTDB_BASE_URL}/runtime/auth/verify_refresh_token`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      "app-id": env.INSTANTDB_APP_ID,
-      "refresh-token": refreshToken,
-    }),
-  });
-
-  if (!response.ok) {
-    return null;
-  }
-
-  const data = await response.json() as { user: UserInfo };
-  return data.user;
-}
-
-/**
- * Generate a secure random invitation token
- */
-function generateInviteToken(): string {
-  const array = new Uint8Array(32);
-  crypto.getRandomValues(array);
-  return Array.from(array, b => b.toString(16).padStart(2, '0')).join('');
-}
-
-/**
- * Query InstantDB using admin API
- */
-async function queryInstantDB(query: object, env: Env): Promise<any> {
-  const response = await fetch(`${INSTANTDB_BASE_URL}/admin/query`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
-      "App-Id": env.INSTANTDB_APP_ID,
-    },
-    body: JSON.stringify({ query }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`InstantDB query failed: ${errorText}`);
-  }
-
-  return await response.json();
-}
-
-/**
- * Execute InstantDB transaction using admin API
- */
-async function transactInstantDB(steps: any[], env: Env): Promise<any> {
-  const response = await fetch(`${INSTANTDB_BASE_URL}/admin/transact`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
-      "App-Id": env.INSTANTDB_APP_ID,
-    },
-    body: JSON.stringify({ steps }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`InstantDB transact failed: ${errorText}`);
-  }
-
-  return await response.json();
-}
-
-/**
- * Send invitation email via Resend
- */
-async function sendInvitationEmail(
-  env: Env,
-  toEmail: string,
-  inviterEmail: string,
-  token: string
-): Promise<boolean> {
-  const inviteLink = `mightyapp://invite/${token}`;
-
-  const response = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${env.RESEND_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      from: "Mighty <noreply@mighty-app.com>",
-      to: toEmail,
-      subject: `${inviterEmail} invited you to view their family on Mighty`,
-      html: `
-        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h2 style="color: #7C3AED;">You're invited to Mighty!</h2>
-          <p>${inviterEmail} has invited you to view their family's activities on Mighty.</p>
-          <p>As a viewer, you'll be able to see all scheduled activities, but you won't be able to make changes.</p>
-          <p style="margin: 30px 0;">
-            <a href="${inviteLink}" style="background-color: #7C3AED; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block;">Accept Invitation</a>
-          </p>
-          <p style="color: #666; font-size: 14px;">This invitation expires in 7 days.</p>
-          <p style="color: #666; font-size: 14px;">If you don't have the Mighty app, download it from the App Store first.</p>
-        </div>
-      `,
-    }),
-  });
-
-  return response.ok;
-}
-
-/**
- * Handle POST /family/invite
- * Creates invitation and sends email
- */
-async function handleFamilyInvite(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { refresh_token: string; email: string };
-
-  if (!body.refresh_token || !body.email) {
-    return new Response(JSON.stringify({ error: "refresh_token and email are required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  // Verify user
-  const user = await verifyTokenAndGetUser(body.refresh_token, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  // Normalize email
-  const inviteeEmail = body.email.toLowerCase().trim();
-
-  // Check if inviting self
-  if (inviteeEmail === user.email.toLowerCase()) {
-    return new Response(JSON.stringify({ error: "You cannot invite yourself" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  try {
-    // Get or create family for this user
-    const familyQuery = await queryInstantDB({
-      families: {
-        $: { where: { ownerId: user.id } }
-      }
-    }, env);
-
-    let familyId: string;
-
-    if (familyQuery.families && familyQuery.families.length > 0) {
-      familyId = familyQuery.families[0].id;
-    } else {
-      // Create new family
-      familyId = crypto.randomUUID();
-      await transactInstantDB([
-        ["update", "families", familyId, {
-          ownerId: user.id,
-          name: `${user.email}'s Family`,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        }]
-      ], env);
-    }
-
-    // Check if already a member
-    const membersQuery = await queryInstantDB({
-      familyMembers: {
-        $: { where: { family: familyId, email: inviteeEmail } }
-      }
-    }, env);
-
-    if (membersQuery.familyMembers && membersQuery.familyMembers.length > 0) {
-      return new Response(JSON.stringify({ error: "This person is already a family member" }), {
-        status: 400,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    // Check for existing pending invitation
-    const existingInviteQuery = await queryInstantDB({
-      familyInvitations: {
-        $: { where: { family: familyId, email: inviteeEmail, status: "pending" } }
-      }
-    }, env);
-
-    // Generate token and expiry
-    const token = generateInviteToken();
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days
-
-    // Create or update invitation
-    const invitationId = existingInviteQuery.familyInvitations?.[0]?.id || crypto.randomUUID();
-
-    await transactInstantDB([
-      ["update", "familyInvitations", invitationId, {
-        token: token,
-        email: inviteeEmail,
-        role: "viewer",
-        status: "pending",
-        expiresAt: expiresAt,
-        createdAt: new Date().toISOString(),
-        inviterId: user.id,
-        familyId: familyId,
-      }],
-      ["link", "familyInvitations", invitationId, { family: familyId }],
-    ], env);
-
-    // Send email
-    const emailSent = await sendInvitationEmail(env, inviteeEmail, user.email, token);
-
-    return new Response(JSON.stringify({
-      success: true,
-      invitationId,
-      emailSent,
-      shareLink: `mightyapp://invite/${token}`
-    }), {
-      status: 200,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Family invite error:", error);
-    return new Response(JSON.stringify({ error: "Failed to create invitation" }), {
-      status: 500,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-}
-
-/**
- * Handle POST /family/accept-invite
- * Accepts invitation and adds user as family member
- */
-async function handleAcceptInvite(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { refresh_token: string; token: string };
-
-  if (!body.refresh_token || !body.token) {
-    return new Response(JSON.stringify({ error: "refresh_token and invitation token are required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  // Verify user
-  const user = await verifyTokenAndGetUser(body.refresh_token, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  try {
-    // Find invitation by token
-    const inviteQuery = await queryInstantDB({
-      familyInvitations: {
-        $: { where: { token: body.token } }
-      }
-    }, env);
-
-    if (!inviteQuery.familyInvitations || inviteQuery.familyInvitations.length === 0) {
-      return new Response(JSON.stringify({ error: "Invitation not found" }), {
-        status: 404,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    const invitation = inviteQuery.familyInvitations[0];
-
-    // Check invitation status
-    if (invitation.status !== "pending") {
-      return new Response(JSON.stringify({ error: "This invitation has already been used or revoked" }), {
-        status: 400,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    // Check expiry
-    if (new Date(invitation.expiresAt) < new Date()) {
-      await transactInstantDB([
-        ["update", "familyInvitations", invitation.id, { status: "expired" }]
-      ], env);
-      return new Response(JSON.stringify({ error: "This invitation has expired" }), {
-        status: 400,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    // Skip email check - allow anyone with the link to accept
-    // (The link itself is the authorization)
-
-    // Create family member record
-    const memberId = crypto.randomUUID();
-    const familyId = invitation.familyId;
-
-    await transactInstantDB([
-      ["update", "familyMembers", memberId, {
-        userId: user.id,
-        email: user.email,
-        role: invitation.role || "viewer",
-        joinedAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      }],
-      ["link", "familyMembers", memberId, { family: familyId }],
-      ["update", "familyInvitations", invitation.id, {
-        status: "accepted",
-        acceptedAt: new Date().toISOString(),
-      }],
-    ], env);
-
-    return new Response(JSON.stringify({
-      success: true,
-      familyId,
-      role: invitation.role || "viewer"
-    }), {
-      status: 200,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Accept invite error:", error);
-    return new Response(JSON.stringify({ error: "Failed to accept invitation" }), {
-      status: 500,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-}
-
-/**
- * Handle POST /family/members
- * Returns family members for the user's family
- */
-async function handleGetMembers(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { refresh_token: string };
-
-  if (!body.refresh_token) {
-    return new Response(JSON.stringify({ error: "refresh_token is required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  const user = await verifyTokenAndGetUser(body.refresh_token, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  try {
-    // Get user's owned family
-    const familyQuery = await queryInstantDB({
-      families: {
-        $: { where: { ownerId: user.id } },
-        members: {}
-      }
-    }, env);
-
-    if (!familyQuery.families || familyQuery.families.length === 0) {
-      return new Response(JSON.stringify({
-        members: [],
-        isOwner: true,
-        familyId: null
-      }), {
-        status: 200,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    const family = familyQuery.families[0];
-    const members = family.members || [];
-
-    // Add owner as first member
-    const allMembers = [
-      {
-        id: "owner",
-        userId: user.id,
-        email: user.email,
-        role: "admin",
-        joinedAt: family.createdAt,
-        isOwner: true,
-      },
-      ...members.map((m: any) => ({ ...m, isOwner: false }))
-    ];
-
-    return new Response(JSON.stringify({
-      members: allMembers,
-      isOwner: true,
-      familyId: family.id
-    }), {
-      status: 200,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Get members error:", error);
-    return new Response(JSON.stringify({ error: "Failed to get family members" }), {
-      status: 500,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-}
-
-/**
- * Handle POST /family/invitations
- * Returns pending invitations for the user's family
- */
-async function handleGetInvitations(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { refresh_token: string };
-
-  if (!body.refresh_token) {
-    return new Response(JSON.stringify({ error: "refresh_token is required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  const user = await verifyTokenAndGetUser(body.refresh_token, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  try {
-    // Get user's family and pending invitations
-    const familyQuery = await queryInstantDB({
-      families: {
-        $: { where: { ownerId: user.id } },
-        invitations: {
-          $: { where: { status: "pending" } }
-        }
-      }
-    }, env);
-
-    if (!familyQuery.families || familyQuery.families.length === 0) {
-      return new Response(JSON.stringify({ invitations: [] }), {
-        status: 200,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    const invitations = familyQuery.families[0].invitations || [];
-
-    return new Response(JSON.stringify({ invitations }), {
-      status: 200,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Get invitations error:", error);
-    return new Response(JSON.stringify({ error: "Failed to get invitations" }), {
-      status: 500,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-}
-
-/**
- * Handle POST /family/revoke-invite
- * Revokes a pending invitation
- */
-async function handleRevokeInvite(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { refresh_token: string; invitationId: string };
-
-  if (!body.refresh_token || !body.invitationId) {
-    return new Response(JSON.stringify({ error: "refresh_token and invitationId are required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  const user = await verifyTokenAndGetUser(body.refresh_token, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  try {
-    // Verify user owns the family
-    const familyQuery = await queryInstantDB({
-      families: {
-        $: { where: { ownerId: user.id } }
-      }
-    }, env);
-
-    if (!familyQuery.families || familyQuery.families.length === 0) {
-      return new Response(JSON.stringify({ error: "You don't have a family to manage" }), {
-        status: 403,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    // Update invitation status
-    await transactInstantDB([
-      ["update", "familyInvitations", body.invitationId, { status: "revoked" }]
-    ], env);
-
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Revoke invite error:", error);
-    return new Response(JSON.stringify({ error: "Failed to revoke invitation" }), {
-      status: 500,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-}
-
-/**
- * Handle POST /family/remove-member
- * Removes a family member
- */
-async function handleRemoveMember(request: Request, env: Env): Promise<Response> {
-  const body = await request.json() as { refresh_token: string; memberId: string };
-
-  if (!body.refresh_token || !body.memberId) {
-    return new Response(JSON.stringify({ error: "refresh_token and memberId are required" }), {
-      status: 400,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  const user = await verifyTokenAndGetUser(body.refresh_token, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
-      status: 401,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-
-  try {
-    // Verify user owns the family
-    const familyQuery = await queryInstantDB({
-      families: {
-        $: { where: { ownerId: user.id } }
-      }
-    }, env);
-
-    if (!familyQuery.families || familyQuery.families.length === 0) {
-      return new Response(JSON.stringify({ error: "You don't have a family to manage" }), {
-        status: 403,
-        headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-      });
-    }
-
-    // Delete family member
-    await transactInstantDB([
-      ["delete", "familyMembers", body.memberId]
-    ], env);
-
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Remove member error:", error);
-    return new Response(JSON.stringify({ error: "Failed to remove member" }), {
-      status: 500,
-      headers: { ...getCorsHeaders(), "Content-Type": "application/json" },
-    });
-  }
-}
+  },
+};
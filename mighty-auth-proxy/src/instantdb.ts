@@ -0,0 +1,59 @@
+/**
+ * InstantDB admin API helpers
+ */
+
+import { Env } from "./types";
+
+export const INSTANTDB_BASE_URL = "https://api.instantdb.com";
+
+/**
+ * Query InstantDB using admin API
+ */
+export async function queryInstantDB(query: object, env: Env): Promise<any> {
+  const response = await fetch(`${INSTANTDB_BASE_URL}/admin/query`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
+      "App-Id": env.INSTANTDB_APP_ID,
+    },
+    body: JSON.stringify({ query }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`InstantDB query failed: ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Execute InstantDB transaction using admin API
+ */
+export async function transactInstantDB(steps: any[], env: Env): Promise<any> {
+  const response = await fetch(`${INSTANTDB_BASE_URL}/admin/transact`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
+      "App-Id": env.INSTANTDB_APP_ID,
+    },
+    body: JSON.stringify({ steps }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`InstantDB transact failed: ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Get the single linked record from a query result, which InstantDB
+ * returns as either an object or a one-element array
+ */
+export function firstLinked(value: any): any {
+  return Array.isArray(value) ? value[0] : value;
+}
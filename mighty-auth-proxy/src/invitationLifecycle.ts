@@ -0,0 +1,104 @@
+/**
+ * Invitation lifecycle, run by the cron trigger (see wrangler.toml)
+ *
+ * - Pending invitations past their expiry are marked expired, instead of
+ *   waiting for someone to try accepting them
+ * - Email-bound invitations get one reminder when they have less than a day left
+ */
+
+import { daysUntil, resolveLocale } from "./emailTemplates";
+import { FamilyRole, invitationLink, isFamilyRole } from "./family";
+import { queryInstantDB, transactInstantDB } from "./instantdb";
+import { getMailer, sendTemplate } from "./mailer";
+import { Env } from "./types";
+
+// How long before expiry the reminder is sent
+const REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+
+// Most steps sent to InstantDB in one transaction
+const BATCH_SIZE = 100;
+
+export interface LifecycleResult {
+  expired: number;
+  reminded: number;
+}
+
+async function transactInBatches(steps: any[][], env: Env): Promise<void> {
+  for (let i = 0; i < steps.length; i += BATCH_SIZE) {
+    await transactInstantDB(steps.slice(i, i + BATCH_SIZE), env);
+  }
+}
+
+/**
+ * Expire stale invitations and send reminders for ones about to expire
+ */
+export async function runInvitationLifecycle(env: Env, now = Date.now()): Promise<LifecycleResult> {
+  const pendingQuery = await queryInstantDB({
+    familyInvitations: {
+      $: { where: { status: "pending" } }
+    }
+  }, env);
+  const pending: any[] = pendingQuery.familyInvitations || [];
+
+  // Expire invitations past their expiry
+  const stale = pending.filter((invitation) => Date.parse(invitation.expiresAt) <= now);
+  const expiredAt = new Date(now).toISOString();
+  await transactInBatches(
+    stale.map((invitation) => ["update", "familyInvitations", invitation.id, { status: "expired", expiredAt }]),
+    env
+  );
+
+  // Remind invitees whose invitation expires within the lead time
+  const due = pending.filter((invitation) => {
+    const expiresAt = Date.parse(invitation.expiresAt);
+    return invitation.email
+      && invitation.mode !== "open-link"
+      && !invitation.reminderSentAt
+      && expiresAt > now
+      && expiresAt - now <= REMINDER_LEAD_MS;
+  });
+  if (due.length === 0) {
+    return { expired: stale.length, reminded: 0 };
+  }
+
+  const inviterIds = [...new Set(due.map((invitation) => invitation.inviterId).filter(Boolean))];
+  const usersQuery = await queryInstantDB({
+    $users: {
+      $: { where: { id: { $in: inviterIds } } }
+    }
+  }, env);
+  const inviterEmails = new Map<string, string>(
+    (usersQuery.$users || []).map((u: any) => [u.id, u.email])
+  );
+
+  const mailer = getMailer(env);
+  const reminderSentAt = new Date(now).toISOString();
+  const reminded: any[][] = [];
+
+  for (const invitation of due) {
+    const inviterEmail = inviterEmails.get(invitation.inviterId);
+    if (!inviterEmail) {
+      continue;
+    }
+
+    const role: FamilyRole = isFamilyRole(invitation.role) ? invitation.role : "viewer";
+    // A failed send is retried on the next run
+    const sent = await sendTemplate(mailer, invitation.email, "invitationExpiring", resolveLocale(invitation.locale), {
+      inviterEmail,
+      role,
+      link: invitationLink(invitation.token, env),
+      expiresInDays: daysUntil(invitation.expiresAt, now),
+    }).catch((error) => {
+      console.error("Failed to send invitation reminder:", error);
+      return false;
+    });
+
+    if (sent) {
+      reminded.push(["update", "familyInvitations", invitation.id, { reminderSentAt }]);
+    }
+  }
+
+  await transactInBatches(reminded, env);
+
+  return { expired: stale.length, reminded: reminded.length };
+}
@@ -0,0 +1,291 @@
+/**
+ * Invitation landing page and universal links
+ *
+ * - GET /invite/:token.json                      - Public details of an invitation
+ * - GET /invite/:token                           - HTML page for an invitation link
+ * - GET /.well-known/apple-app-site-association  - Universal link configuration
+ *
+ * Invitation emails link to https://{INVITE_BASE_URL}/invite/{token}. With the
+ * app installed, iOS opens that URL in the app (see the association file);
+ * otherwise the page shows the invitation and offers the app or the App Store.
+ * None of these need auth, so they only reveal what the invitee needs to
+ * decide: who invited them, the role, and whether the invitation still works.
+ */
+
+import { escapeHtml, Locale, resolveLocale } from "./emailTemplates";
+import { FamilyRole, isFamilyRole } from "./family";
+import { HttpError, json } from "./http";
+import { queryInstantDB } from "./instantdb";
+import { AppHandler, Env } from "./types";
+
+// Statuses shown to the invitee; "used" is an open link that reached maxUses,
+// and "closed" covers any stored status the page doesn't know
+type InvitationStatus = "pending" | "expired" | "accepted" | "revoked" | "used" | "closed";
+
+export interface InvitationDetails {
+  status: InvitationStatus;
+  inviterEmail: string | null;
+  role: FamilyRole;
+  mode: string;
+  expiresAt: string;
+}
+
+/**
+ * The link that opens an invitation directly in the app
+ */
+function appLink(token: string): string {
+  return `mightyapp://invite/${encodeURIComponent(token)}`;
+}
+
+/**
+ * The status to show for an invitation. An open link is marked accepted once
+ * it reaches maxUses, which the invitee should see as used up, and one
+ * without a valid expiry counts as expired.
+ */
+function invitationStatus(invitation: any, now: Date): InvitationStatus {
+  const usedUp = invitation.mode === "open-link" && invitation.maxUses && (invitation.useCount || 0) >= invitation.maxUses;
+  const expiresAt = Date.parse(invitation.expiresAt);
+
+  switch (invitation.status) {
+    case "pending":
+      if (Number.isNaN(expiresAt) || expiresAt < now.getTime()) {
+        return "expired";
+      }
+      return usedUp ? "used" : "pending";
+    case "accepted":
+      return usedUp ? "used" : "accepted";
+    case "expired":
+    case "revoked":
+      return invitation.status;
+    default:
+      return "closed";
+  }
+}
+
+/**
+ * Look up an invitation by token, returning only what the invitee may see
+ */
+async function getInvitationDetails(token: string, env: Env): Promise<InvitationDetails | null> {
+  const inviteQuery = await queryInstantDB({
+    familyInvitations: {
+      $: { where: { token } }
+    }
+  }, env);
+
+  const invitation = inviteQuery.familyInvitations?.[0];
+  if (!invitation) {
+    return null;
+  }
+
+  const usersQuery = invitation.inviterId
+    ? await queryInstantDB({ $users: { $: { where: { id: invitation.inviterId } } } }, env)
+    : {};
+
+  return {
+    status: invitationStatus(invitation, new Date()),
+    inviterEmail: usersQuery.$users?.[0]?.email ?? null,
+    role: isFamilyRole(invitation.role) ? invitation.role : "viewer",
+    mode: invitation.mode || "email-bound",
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+/**
+ * Handle GET /invite/:token.json
+ */
+export const handleInvitationDetails: AppHandler<{}, false> = async ({ env, params }) => {
+  const details = await getInvitationDetails(params.token, env);
+  if (!details) {
+    throw new HttpError(404, "Invitation not found");
+  }
+
+  return json(details, 200, { "Cache-Control": "no-store" });
+};
+
+// ============================================
+// PAGE
+// ============================================
+
+interface PageStrings {
+  title: string;
+  heading: string;
+  invited(inviter: string | null, role: FamilyRole): string;
+  expires(date: string): string;
+  open: string;
+  getApp: string;
+  hint: string;
+  closed: Record<Exclude<InvitationStatus, "pending">, string>;
+  notFound: string;
+}
+
+const PAGE_STRINGS: Record<Locale, PageStrings> = {
+  en: {
+    title: "Mighty invitation",
+    heading: "You're invited to Mighty!",
+    invited: (inviter, role) => `${inviter ?? "Someone"} invited you to join their family on Mighty as ${{ viewer: "a viewer", editor: "an editor", admin: "an admin" }[role]}.`,
+    expires: (date) => `This invitation expires on ${date}.`,
+    open: "Open in Mighty",
+    getApp: "Get Mighty on the App Store",
+    hint: "Don't have the app yet? Install it from the App Store, sign in, then open this link again.",
+    closed: {
+      expired: "This invitation has expired. Ask the person who invited you to send it again.",
+      accepted: "This invitation has already been accepted.",
+      revoked: "This invitation was cancelled.",
+      used: "This invitation link has been used the maximum number of times.",
+      closed: "This invitation can no longer be used.",
+    },
+    notFound: "This invitation link isn't valid. Check that you copied the whole link.",
+  },
+  es: {
+    title: "Invitación de Mighty",
+    heading: "¡Te han invitado a Mighty!",
+    invited: (inviter, role) => `${inviter ?? "Alguien"} te invitó a unirte a su familia en Mighty como ${{ viewer: "lector", editor: "editor", admin: "administrador" }[role]}.`,
+    expires: (date) => `Esta invitación caduca el ${date}.`,
+    open: "Abrir en Mighty",
+    getApp: "Descargar Mighty en el App Store",
+    hint: "¿Aún no tienes la app? Instálala desde el App Store, inicia sesión y vuelve a abrir este enlace.",
+    closed: {
+      expired: "Esta invitación ha caducado. Pide a quien te invitó que te la vuelva a enviar.",
+      accepted: "Esta invitación ya fue aceptada.",
+      revoked: "Esta invitación fue cancelada.",
+      used: "Este enlace de invitación ya se usó el número máximo de veces.",
+      closed: "Esta invitación ya no se puede usar.",
+    },
+    notFound: "Este enlace de invitación no es válido. Comprueba que copiaste el enlace completo.",
+  },
+  fr: {
+    title: "Invitation Mighty",
+    heading: "Vous êtes invité sur Mighty !",
+    invited: (inviter, role) => `${inviter ?? "Quelqu'un"} vous invite à rejoindre sa famille sur Mighty en tant ${{ viewer: "que lecteur", editor: "qu'éditeur", admin: "qu'administrateur" }[role]}.`,
+    expires: (date) => `Cette invitation expire le ${date}.`,
+    open: "Ouvrir dans Mighty",
+    getApp: "Télécharger Mighty sur l'App Store",
+    hint: "Vous n'avez pas encore l'app ? Installez-la depuis l'App Store, connectez-vous, puis rouvrez ce lien.",
+    closed: {
+      expired: "Cette invitation a expiré. Demandez à la personne qui vous a invité de vous la renvoyer.",
+      accepted: "Cette invitation a déjà été acceptée.",
+      revoked: "Cette invitation a été annulée.",
+      used: "Ce lien d'invitation a atteint son nombre maximal d'utilisations.",
+      closed: "Cette invitation ne peut plus être utilisée.",
+    },
+    notFound: "Ce lien d'invitation n'est pas valide. Vérifiez que vous avez copié le lien en entier.",
+  },
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  year: "numeric",
+  month: "long",
+  day: "numeric",
+  hour: "numeric",
+  minute: "2-digit",
+  timeZoneName: "short",
+};
+
+// Shows the expiry in the reader's own time zone; the page reads fine without it
+const LOCAL_TIME_SCRIPT = `document.querySelectorAll("time[datetime]").forEach(function (t) {
+  t.textContent = new Date(t.dateTime).toLocaleString(document.documentElement.lang, ${JSON.stringify(DATE_FORMAT)});
+});`;
+
+function renderPage(locale: Locale, body: string): string {
+  const strings = PAGE_STRINGS[locale];
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(strings.title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #111; color: #eee; margin: 0; }
+    main { max-width: 480px; margin: 0 auto; padding: 48px 20px; text-align: center; }
+    h1 { color: #A78BFA; font-size: 26px; }
+    .button { display: block; margin: 12px 0; padding: 14px 24px; border-radius: 12px; text-decoration: none; font-weight: 600; }
+    .primary { background: #7C3AED; color: white; }
+    .secondary { border: 1px solid #7C3AED; color: #A78BFA; }
+    .note { color: #999; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <main>
+${body}
+  </main>
+  <script>${LOCAL_TIME_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function htmlResponse(html: string, status: number): Response {
+  return new Response(html, {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      // The token is in the URL, so don't pass it on to the App Store
+      "Referrer-Policy": "no-referrer",
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'",
+    },
+  });
+}
+
+/**
+ * Handle GET /invite/:token
+ */
+export const handleInvitePage: AppHandler<{}, false> = async ({ request, env, params }) => {
+  const locale = resolveLocale(request.headers.get("Accept-Language"));
+  const strings = PAGE_STRINGS[locale];
+  const details = await getInvitationDetails(params.token, env);
+  const appStore = env.APP_STORE_URL
+    ? `<a class="button secondary" href="${escapeHtml(env.APP_STORE_URL)}">${escapeHtml(strings.getApp)}</a>`
+    : "";
+
+  if (!details) {
+    return htmlResponse(renderPage(locale, `    <h1>${escapeHtml(strings.title)}</h1>
+    <p>${escapeHtml(strings.notFound)}</p>
+    ${appStore}`), 404);
+  }
+
+  if (details.status !== "pending") {
+    return htmlResponse(renderPage(locale, `    <h1>${escapeHtml(strings.title)}</h1>
+    <p>${escapeHtml(strings.closed[details.status])}</p>
+    ${appStore}`), 410);
+  }
+
+  // Only shown for a valid expiry; pending invitations without one count as expired
+  const expiresAt = new Date(details.expiresAt);
+  let expiryNote = "";
+  if (!Number.isNaN(expiresAt.getTime())) {
+    const expiry = new Intl.DateTimeFormat(locale, { ...DATE_FORMAT, timeZone: "UTC" }).format(expiresAt);
+    const time = `<time datetime="${expiresAt.toISOString()}">${escapeHtml(expiry)}</time>`;
+    expiryNote = `\n    <p class="note">${escapeHtml(strings.expires("{date}")).replace("{date}", time)}</p>`;
+  }
+
+  return htmlResponse(renderPage(locale, `    <h1>${escapeHtml(strings.heading)}</h1>
+    <p>${escapeHtml(strings.invited(details.inviterEmail, details.role))}</p>${expiryNote}
+    <a class="button primary" href="${escapeHtml(appLink(params.token))}">${escapeHtml(strings.open)}</a>
+    ${appStore}
+    <p class="note">${escapeHtml(strings.hint)}</p>`), 200);
+};
+
+/**
+ * Handle GET /.well-known/apple-app-site-association
+ * Lets iOS open invitation links in the app; the JSON details stay on the web.
+ * Not found until APPLE_APP_ID is set, so iOS never caches a placeholder.
+ */
+export const handleAppSiteAssociation: AppHandler<{}, false> = async ({ env }) => {
+  if (!env.APPLE_APP_ID) {
+    throw new HttpError(404, "Not found");
+  }
+
+  return json({
+    applinks: {
+      details: [{
+        appIDs: [env.APPLE_APP_ID],
+        components: [
+          { "/": "/invite/*.json", exclude: true },
+          { "/": "/invite/*", comment: "Family invitations" },
+        ],
+      }],
+    },
+  }, 200, { "Cache-Control": "public, max-age=3600" });
+};
@@ -0,0 +1,103 @@
+/**
+ * Outgoing email
+ *
+ * Everything the auth proxy sends goes through a Mailer. Resend delivers the
+ * mail when RESEND_API_KEY is set. Setting MAILER = "memory" keeps messages in
+ * memory instead, for tests and local development. With neither, nothing is
+ * sent and every send reports failure, so callers never claim an email went out.
+ */
+
+import { Locale, renderEmail, TemplateName, TemplateParams } from "./emailTemplates";
+import { Env } from "./types";
+
+const FROM_ADDRESS = "Mighty <noreply@mighty-app.com>";
+
+// Most messages the memory mailer keeps; older ones are dropped
+const MEMORY_MAILER_LIMIT = 100;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface Mailer {
+  /** Send a message, returning whether it was accepted for delivery */
+  send(message: EmailMessage): Promise<boolean>;
+}
+
+/**
+ * Mailer that sends through the Resend API
+ */
+export class ResendMailer implements Mailer {
+  constructor(private readonly apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<boolean> {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: FROM_ADDRESS, ...message }),
+    });
+
+    if (!response.ok) {
+      console.error("Resend rejected email:", response.status, await response.text());
+    }
+    return response.ok;
+  }
+}
+
+/**
+ * Mailer that keeps the latest messages in memory, for tests and local development.
+ * Only recipients and subjects are logged: bodies hold invitation links.
+ */
+export class MemoryMailer implements Mailer {
+  readonly sent: EmailMessage[] = [];
+
+  constructor(private readonly limit: number = MEMORY_MAILER_LIMIT) {}
+
+  async send(message: EmailMessage): Promise<boolean> {
+    this.sent.push(message);
+    if (this.sent.length > this.limit) {
+      this.sent.splice(0, this.sent.length - this.limit);
+    }
+    console.log(`Email to ${message.to}: ${message.subject}`);
+    return true;
+  }
+}
+
+/**
+ * Mailer used when no mailer is configured: sends nothing and says so
+ */
+class UnconfiguredMailer implements Mailer {
+  async send(): Promise<boolean> {
+    console.error("Email not sent: RESEND_API_KEY is not set");
+    return false;
+  }
+}
+
+// Shared across requests so local runs can inspect what was sent
+const memoryMailer = new MemoryMailer();
+
+export function getMailer(env: Env): Mailer {
+  if (env.MAILER === "memory") {
+    return memoryMailer;
+  }
+  return env.RESEND_API_KEY ? new ResendMailer(env.RESEND_API_KEY) : new UnconfiguredMailer();
+}
+
+/**
+ * Render a template and send it
+ */
+export async function sendTemplate<T extends TemplateName>(
+  mailer: Mailer,
+  to: string,
+  name: T,
+  locale: Locale,
+  params: TemplateParams[T]
+): Promise<boolean> {
+  return mailer.send({ to, ...renderEmail(name, locale, params) });
+}
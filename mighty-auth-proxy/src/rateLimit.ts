@@ -0,0 +1,271 @@
+/**
+ * Sliding-window rate limiting for the auth endpoints.
+ *
+ * Each key keeps a log of recent hit timestamps in a RateLimitStore. A request
+ * is allowed while fewer than `limit` hits fall inside the last `windowMs`.
+ *
+ * Checking a limit reads the log and writes it back, so two requests racing
+ * on one store could both get through. In production each key (an email or
+ * an IP) therefore gets its own Durable Object, which runs one request at a
+ * time against its own storage. The in-memory store is for tests.
+ */
+
+export interface RateLimitStore {
+  /** Get the timestamps (ms) stored for a key, or an empty list */
+  get(key: string): Promise<number[]>;
+  /** Replace the timestamps for a key, expiring it after ttlSeconds */
+  set(key: string, timestamps: number[], ttlSeconds: number): Promise<void>;
+  /** Remove a key */
+  delete(key: string): Promise<void>;
+}
+
+export interface RateLimitRule {
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * The rate limit checks the auth endpoints make
+ */
+export interface Limiter {
+  /** Record a hit for `key` under `rule` and report whether it is allowed */
+  hit(rule: RateLimitRule, key: string): Promise<RateLimitResult>;
+  /** Check every rule for its key, stopping at the first one that rejects */
+  hitAll(checks: Array<[RateLimitRule, string]>): Promise<RateLimitResult>;
+  /** Get the number of seconds `key` is locked out for, or 0 if it isn't */
+  lockoutRemaining(key: string): Promise<number>;
+  /** Record a failed attempt, returning the lockout in seconds it triggered, or 0 */
+  recordFailure(rule: RateLimitRule, key: string, lockoutMs: number): Promise<number>;
+  /** Clear recorded failures for `key` after a successful attempt */
+  clearFailures(rule: RateLimitRule, key: string): Promise<void>;
+}
+
+/**
+ * RateLimitStore backed by a Durable Object's storage. Storage has no
+ * expiry, so an alarm clears it once every entry has expired.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly storage: DurableObjectStorage,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<number[]> {
+    const entry = await this.storage.get<{ timestamps: number[]; expiresAt: number }>(key);
+    return entry && entry.expiresAt > this.now() ? entry.timestamps : [];
+  }
+
+  async set(key: string, timestamps: number[], ttlSeconds: number): Promise<void> {
+    const expiresAt = this.now() + ttlSeconds * 1000;
+    await this.storage.put(key, { timestamps, expiresAt });
+
+    const alarm = await this.storage.getAlarm();
+    if (alarm === null || alarm < expiresAt) {
+      await this.storage.setAlarm(expiresAt);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+}
+
+/**
+ * RateLimitStore kept in memory, for tests and local development
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, { timestamps: number[]; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<number[]> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return [];
+    }
+    return [...entry.timestamps];
+  }
+
+  async set(key: string, timestamps: number[], ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { timestamps: [...timestamps], expiresAt: this.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export class RateLimiter implements Limiter {
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Record a hit for `key` under `rule` and report whether it is allowed.
+   * Rejected hits are not recorded, so a blocked client isn't locked out longer.
+   */
+  async hit(rule: RateLimitRule, key: string): Promise<RateLimitResult> {
+    const storeKey = `rl:${rule.name}:${key}`;
+    const now = this.now();
+    const recent = (await this.store.get(storeKey)).filter((t) => t > now - rule.windowMs);
+
+    if (recent.length >= rule.limit) {
+      const oldest = Math.min(...recent);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest + rule.windowMs - now) / 1000)),
+      };
+    }
+
+    recent.push(now);
+    await this.store.set(storeKey, recent, rule.windowMs / 1000);
+
+    return { allowed: true, remaining: rule.limit - recent.length, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Check every rule for its key, stopping at the first one that rejects
+   */
+  async hitAll(checks: Array<[RateLimitRule, string]>): Promise<RateLimitResult> {
+    return hitEach(this, checks);
+  }
+
+  /**
+   * Get the number of seconds `key` is locked out for, or 0 if it isn't
+   */
+  async lockoutRemaining(key: string): Promise<number> {
+    const [lockedUntil] = await this.store.get(`lockout:${key}`);
+    const remainingMs = (lockedUntil ?? 0) - this.now();
+    return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+  }
+
+  /**
+   * Record a failed attempt for `key`. Once `rule.limit` failures fall inside
+   * `rule.windowMs`, the key is locked out for `lockoutMs`.
+   * Returns the lockout duration in seconds, or 0 if not locked out.
+   */
+  async recordFailure(rule: RateLimitRule, key: string, lockoutMs: number): Promise<number> {
+    const storeKey = `fail:${rule.name}:${key}`;
+    const now = this.now();
+    const failures = (await this.store.get(storeKey)).filter((t) => t > now - rule.windowMs);
+    failures.push(now);
+
+    if (failures.length >= rule.limit) {
+      await this.store.set(`lockout:${key}`, [now + lockoutMs], lockoutMs / 1000);
+      await this.store.delete(storeKey);
+      return Math.ceil(lockoutMs / 1000);
+    }
+
+    await this.store.set(storeKey, failures, rule.windowMs / 1000);
+    return 0;
+  }
+
+  /**
+   * Clear recorded failures for `key` after a successful attempt
+   */
+  async clearFailures(rule: RateLimitRule, key: string): Promise<void> {
+    await this.store.delete(`fail:${rule.name}:${key}`);
+  }
+}
+
+async function hitEach(limiter: Limiter, checks: Array<[RateLimitRule, string]>): Promise<RateLimitResult> {
+  let result: RateLimitResult = { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+  for (const [rule, key] of checks) {
+    const current = await limiter.hit(rule, key);
+    if (!current.allowed) {
+      return current;
+    }
+    result = { ...result, remaining: Math.min(result.remaining, current.remaining) };
+  }
+  return result;
+}
+
+// ============================================
+// DURABLE OBJECT
+// ============================================
+
+type LimiterCall =
+  | { method: "hit"; rule: RateLimitRule; key: string }
+  | { method: "lockoutRemaining"; key: string }
+  | { method: "recordFailure"; rule: RateLimitRule; key: string; lockoutMs: number }
+  | { method: "clearFailures"; rule: RateLimitRule; key: string };
+
+/**
+ * Durable Object holding the rate limit state of one key. It handles one
+ * request at a time, so each check-and-record is atomic.
+ */
+export class RateLimiterObject implements DurableObject {
+  private readonly limiter: RateLimiter;
+
+  constructor(private readonly state: DurableObjectState, _env: unknown) {
+    this.limiter = new RateLimiter(new DurableObjectRateLimitStore(state.storage));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const call = await request.json<LimiterCall>();
+    switch (call.method) {
+      case "hit":
+        return Response.json(await this.limiter.hit(call.rule, call.key));
+      case "lockoutRemaining":
+        return Response.json(await this.limiter.lockoutRemaining(call.key));
+      case "recordFailure":
+        return Response.json(await this.limiter.recordFailure(call.rule, call.key, call.lockoutMs));
+      case "clearFailures":
+        await this.limiter.clearFailures(call.rule, call.key);
+        return Response.json(null);
+    }
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/**
+ * Limiter that runs each check in the Durable Object for its key
+ */
+export class DurableObjectRateLimiter implements Limiter {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  private async call<T>(call: LimiterCall): Promise<T> {
+    const stub = this.namespace.get(this.namespace.idFromName(call.key));
+    const response = await stub.fetch("https://rate-limiter/", {
+      method: "POST",
+      body: JSON.stringify(call),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter failed: ${response.status}`);
+    }
+    return response.json<T>();
+  }
+
+  hit(rule: RateLimitRule, key: string): Promise<RateLimitResult> {
+    return this.call({ method: "hit", rule, key });
+  }
+
+  hitAll(checks: Array<[RateLimitRule, string]>): Promise<RateLimitResult> {
+    return hitEach(this, checks);
+  }
+
+  lockoutRemaining(key: string): Promise<number> {
+    return this.call({ method: "lockoutRemaining", key });
+  }
+
+  recordFailure(rule: RateLimitRule, key: string, lockoutMs: number): Promise<number> {
+    return this.call({ method: "recordFailure", rule, key, lockoutMs });
+  }
+
+  clearFailures(rule: RateLimitRule, key: string): Promise<void> {
+    return this.call({ method: "clearFailures", rule, key });
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Small typed router for the auth proxy.
+ *
+ * Routes are declared with a method, a path pattern (`/invite/:token`), and
+ * options describing what the handler needs: a JSON body matching a schema
+ * and/or an authenticated user. The router parses and validates the body,
+ * authenticates the caller, and hands the handler a typed context, so
+ * handlers only contain endpoint logic.
+ *
+ * Global middleware (CORS, error mapping) wraps every request via `use()`.
+ */
+
+import { HttpError } from "./http";
+
+// ============================================
+// BODY SCHEMAS
+// ============================================
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+/** A field type, optionally suffixed with `?` when the field may be omitted */
+export type FieldSpec = FieldType | `${FieldType}?`;
+
+export type BodySchema = Record<string, FieldSpec>;
+
+type FieldValue<S> =
+  S extends "string" | "string?" ? string :
+  S extends "number" | "number?" ? number :
+  S extends "boolean" | "boolean?" ? boolean :
+  S extends "array" | "array?" ? unknown[] :
+  Record<string, unknown>;
+
+type RequiredKeys<S extends BodySchema> = { [K in keyof S]: S[K] extends `${string}?` ? never : K }[keyof S];
+type OptionalKeys<S extends BodySchema> = Exclude<keyof S, RequiredKeys<S>>;
+
+/** The body type described by a schema */
+export type BodyOf<S extends BodySchema> =
+  { [K in RequiredKeys<S>]: FieldValue<S[K]> } &
+  { [K in OptionalKeys<S>]?: FieldValue<S[K]> };
+
+function typeOf(value: unknown): FieldType | "null" | "other" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  return type === "string" || type === "number" || type === "boolean" || type === "object" ? type : "other";
+}
+
+/**
+ * Validate a parsed JSON body against a schema, throwing a 400 on the first problem
+ */
+export function validateBody<S extends BodySchema>(body: Record<string, unknown>, schema: S): BodyOf<S> {
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith("?");
+    const type = spec.replace("?", "") as FieldType;
+    const value = body[field];
+
+    // Treat empty strings like missing values, as the handlers always have
+    if (value === undefined || value === null || value === "") {
+      if (!optional) {
+        throw new HttpError(400, `${field} is required`);
+      }
+      continue;
+    }
+
+    if (typeOf(value) !== type) {
+      throw new HttpError(400, `${field} must be ${type === "array" || type === "object" ? "an" : "a"} ${type}`);
+    }
+  }
+
+  return body as BodyOf<S>;
+}
+
+/**
+ * Read the request body as a JSON object, throwing a 400 if it is malformed
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  if (text.trim() === "") {
+    return {};
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Malformed JSON body");
+  }
+
+  if (typeOf(body) !== "object") {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+
+  return body as Record<string, unknown>;
+}
+
+// ============================================
+// ROUTER
+// ============================================
+
+export type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RouteContext<Env, User, Body> {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  url: URL;
+  params: Record<string, string>;
+  body: Body;
+  user: User;
+}
+
+export interface RouteOptions<S extends BodySchema, A extends boolean> {
+  /** Require an authenticated user; the handler receives it as `user` */
+  auth?: A;
+  /** Parse the JSON body and validate it against this schema */
+  body?: S;
+  /** Error message returned (with a 500) when the handler throws unexpectedly */
+  errorMessage?: string;
+}
+
+export type Handler<Env, User, S extends BodySchema, A extends boolean> = (
+  context: RouteContext<Env, A extends true ? User : User | null, BodyOf<S>>
+) => Promise<Response>;
+
+/** Middleware wraps request handling; call `next()` to continue */
+export type Middleware<Env> = (
+  request: Request,
+  env: Env,
+  next: () => Promise<Response>
+) => Promise<Response>;
+
+/** Resolves the user for a request, or null if it isn't authenticated */
+export type Authenticator<Env, User> = (
+  request: Request,
+  body: Record<string, unknown>,
+  env: Env
+) => Promise<User | null>;
+
+interface Route<Env, User> {
+  method: Method;
+  pattern: RegExp;
+  paramNames: string[];
+  options: RouteOptions<BodySchema, boolean>;
+  handler: Handler<Env, User, BodySchema, boolean>;
+}
+
+/**
+ * Compile a path like `/calendar/:secret.ics` into a regex and its param names
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split(/(:[A-Za-z_][A-Za-z0-9_]*)/)
+    .map((part) => {
+      if (part.startsWith(":")) {
+        paramNames.push(part.slice(1));
+        return "([^/]+?)";
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return { pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+/**
+ * Decode a path parameter. Malformed escapes like `%E0` are the client's
+ * fault, so they're a 400 rather than an uncaught URIError.
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, "Malformed URL");
+  }
+}
+
+export class Router<Env, User> {
+  private readonly routes: Route<Env, User>[] = [];
+  private readonly middleware: Middleware<Env>[] = [];
+
+  constructor(private readonly authenticate: Authenticator<Env, User>) {}
+
+  /** Add middleware that runs around every request, in registration order */
+  use(middleware: Middleware<Env>): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  route<S extends BodySchema = {}, A extends boolean = false>(
+    method: Method,
+    path: string,
+    options: RouteOptions<S, A>,
+    handler: Handler<Env, User, S, A>
+  ): this {
+    const { pattern, paramNames } = compilePath(path);
+    this.routes.push({
+      method,
+      pattern,
+      paramNames,
+      options: options as RouteOptions<BodySchema, boolean>,
+      handler: handler as unknown as Handler<Env, User, BodySchema, boolean>,
+    });
+    return this;
+  }
+
+  get<S extends BodySchema = {}, A extends boolean = false>(
+    path: string,
+    options: RouteOptions<S, A>,
+    handler: Handler<Env, User, S, A>
+  ): this {
+    return this.route("GET", path, options, handler);
+  }
+
+  post<S extends BodySchema = {}, A extends boolean = false>(
+    path: string,
+    options: RouteOptions<S, A>,
+    handler: Handler<Env, User, S, A>
+  ): this {
+    return this.route("POST", path, options, handler);
+  }
+
+  /** Handle a request: run global middleware, then dispatch to the matching route */
+  async handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const run = (index: number): Promise<Response> => {
+      const middleware = this.middleware[index];
+      return middleware
+        ? middleware(request, env, () => run(index + 1))
+        : this.dispatch(request, env, ctx);
+    };
+    return run(0);
+  }
+
+  private async dispatch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    const allowed: Method[] = [];
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) {
+        continue;
+      }
+      if (route.method !== request.method) {
+        allowed.push(route.method);
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, i) => {
+        params[name] = decodeParam(match[i + 1]);
+      });
+
+      return this.invoke(route, { request, env, ctx, url, params });
+    }
+
+    if (allowed.length > 0) {
+      throw new HttpError(405, "Method not allowed", undefined, { Allow: allowed.join(", ") });
+    }
+    throw new HttpError(404, "Not found");
+  }
+
+  private async invoke(
+    route: Route<Env, User>,
+    base: Omit<RouteContext<Env, User | null, unknown>, "body" | "user">
+  ): Promise<Response> {
+    const { options } = route;
+
+    const rawBody = options.body || options.auth ? await readJsonBody(base.request) : {};
+    const body = options.body ? validateBody(rawBody, options.body) : rawBody;
+
+    const user = options.auth ? await this.authenticate(base.request, rawBody, base.env) : null;
+    if (options.auth && !user) {
+      throw new HttpError(401, "Invalid or expired token");
+    }
+
+    try {
+      return await route.handler({ ...base, body: body as BodyOf<BodySchema>, user: user as User });
+    } catch (error) {
+      if (error instanceof HttpError || !options.errorMessage) {
+        throw error;
+      }
+      console.error(`${route.method} ${base.url.pathname} error:`, error);
+      throw new HttpError(500, options.errorMessage);
+    }
+  }
+}
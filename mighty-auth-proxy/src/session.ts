@@ -0,0 +1,117 @@
+/**
+ * Short-lived access tokens (HS256 JWTs) issued in exchange for a refresh token.
+ *
+ * Clients send these as `Authorization: Bearer <token>` so the long-lived
+ * refresh token only travels once per session instead of on every request.
+ * The DB proxy verifies the same tokens with the shared SESSION_SECRET.
+ */
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const ISSUER = "mighty-auth";
+
+export interface SessionClaims {
+  iss: string;
+  sub: string;
+  email: string;
+  iat: number;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function getSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Sign an access token for a verified user
+ */
+export async function signAccessToken(
+  user: { id: string; email: string },
+  secret: string,
+  ttlSeconds: number = ACCESS_TOKEN_TTL_SECONDS,
+  now: number = Date.now()
+): Promise<string> {
+  const iat = Math.floor(now / 1000);
+  const claims: SessionClaims = { iss: ISSUER, sub: user.id, email: user.email, iat, exp: iat + ttlSeconds };
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(secret), encoder.encode(`${header}.${payload}`));
+
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify an access token's signature and expiry
+ * Returns the claims, or null if the token is malformed, forged or expired
+ */
+export async function verifyAccessToken(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<SessionClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+
+  try {
+    const { alg } = JSON.parse(decoder.decode(base64UrlDecode(header)));
+    if (alg !== "HS256") {
+      return null;
+    }
+
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(secret),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(payload))) as SessionClaims;
+    if (claims.iss !== ISSUER || !claims.sub || !claims.email || claims.exp <= Math.floor(now / 1000)) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the bearer token from the Authorization header, if any
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("Authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
@@ -0,0 +1,29 @@
+/**
+ * Shared types for the auth proxy
+ */
+
+import type { BodySchema, Handler } from "./router";
+
+export interface Env {
+  APP_STORE_URL?: string;
+  APPLE_APP_ID?: string;
+  CALENDAR_FEED_BASE_URL?: string;
+  INSTANTDB_ADMIN_TOKEN: string;
+  INSTANTDB_APP_ID: string;
+  INVITE_BASE_URL: string;
+  MAILER?: string;
+  RESEND_API_KEY?: string;
+  SESSION_SECRET: string;
+  RATE_LIMITER?: DurableObjectNamespace;
+  TOKEN_CACHE_KV?: KVNamespace;
+}
+
+export interface UserInfo {
+  id: string;
+  email: string;
+}
+
+/**
+ * A route handler in this worker. Authenticated (A = true) unless stated.
+ */
+export type AppHandler<S extends BodySchema = {}, A extends boolean = true> = Handler<Env, UserInfo, S, A>;
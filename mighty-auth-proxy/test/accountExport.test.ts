@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { handleAccountExport } from "../src/accountExport";
+import { fakeInstantDB, handlerContext, owner } from "./helpers";
+
+const decoder = new TextDecoder();
+
+/**
+ * Read the files of a ZIP whose entries are stored uncompressed, as createZip writes them
+ */
+function readZip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const nameStart = offset + 30;
+    const dataStart = nameStart + nameLength;
+    files.set(decoder.decode(bytes.subarray(nameStart, dataStart)), decoder.decode(bytes.subarray(dataStart, dataStart + size)));
+    offset = dataStart + size;
+  }
+  return files;
+}
+
+function section(id: string, name: string, titles: string[]) {
+  return { id, name, customEntries: titles.map((title, i) => ({ id: `${id}-entry-${i}`, title, date: `2026-01-0${i + 1}` })) };
+}
+
+const account = {
+  id: owner.id,
+  email: owner.email,
+  kidProfiles: [
+    {
+      id: "kid-1",
+      name: "Zoë",
+      customSections: [
+        section("section-1", "Swim / Dive", ["Lesson", "Gala"]),
+        section("section-2", "Swim: Dive", ["Trials"]),
+        section("section-3", "../../etc", []),
+      ],
+      mediaEntries: [],
+    },
+    { id: "kid-2", name: "", customSections: [section("section-4", "Piano", ["Recital"])], mediaEntries: [] },
+  ],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("POST /account/export as CSV", () => {
+  async function exportFiles() {
+    fakeInstantDB((query) => (query.$users ? { $users: [account] } : { families: [], familyMembers: [] }));
+    const { context } = handlerContext(owner, { format: "csv" });
+
+    const response = await handleAccountExport(context);
+
+    expect(response.headers.get("Content-Type")).toBe("application/zip");
+    return readZip(new Uint8Array(await response.arrayBuffer()));
+  }
+
+  it("writes one CSV per section with sanitised, unique names", async () => {
+    const files = await exportFiles();
+
+    // Kids are exported by name, so the unnamed one comes first
+    expect([...files.keys()].filter((name) => name.startsWith("sections/"))).toEqual([
+      "sections/kid-piano.csv",
+      "sections/zoë-swim-dive.csv",
+      "sections/zoë-swim-dive-2.csv",
+      "sections/zoë-etc.csv",
+    ]);
+  });
+
+  it("puts each section's entries in its file", async () => {
+    const files = await exportFiles();
+
+    const rows = files.get("sections/zoë-swim-dive.csv")!.trim().split("\r\n");
+    expect(rows).toHaveLength(3);
+    expect(rows[0].split(",")).toContain("title");
+    expect(rows.slice(1).map((row) => row.split(",")[2])).toEqual(["Lesson", "Gala"]);
+    expect(files.get("sections/zoë-etc.csv")!.trim().split("\r\n")).toHaveLength(1);
+  });
+
+  it("names each section's file in sections.csv", async () => {
+    const files = await exportFiles();
+
+    expect(files.get("sections.csv")).toContain("sections/zoë-swim-dive-2.csv");
+  });
+});
@@ -0,0 +1,255 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { handleAcceptInvite, handleGetInvitations, handleRemoveMember, handleRevokeInvite } from "../src/family";
+import { HttpError } from "../src/http";
+import { admin, FakeInstantDB, fakeInstantDB, handlerContext, owner, stranger } from "./helpers";
+
+const family = { id: "family-1", ownerId: owner.id, name: "Smiths" };
+const otherFamily = { id: "family-2", ownerId: "other-owner", name: "Joneses" };
+
+/**
+ * Answer the queries made while managing a family: the user's owned family,
+ * their admin memberships, and the record being acted on (or listed as each
+ * family's invitations)
+ */
+function familyAnswers(records: { familyInvitations?: any[]; familyMembers?: any[] }) {
+  return (query: any) => {
+    if (query.families?.$.where.id) {
+      const ids: string[] = query.families.$.where.id.$in;
+      return { families: [family, otherFamily].filter((f) => ids.includes(f.id)).map((f) => ({ ...f, invitations: records.familyInvitations || [] })) };
+    }
+    if (query.families) {
+      return { families: query.families.$.where.ownerId === owner.id ? [family] : [] };
+    }
+    if (query.familyMembers?.$.where.role === "admin") {
+      return {
+        familyMembers: query.familyMembers.$.where.userId === admin.id
+          ? [{ id: "member-admin", userId: admin.id, role: "admin", family: [family] }]
+          : [],
+      };
+    }
+    if (query.familyInvitations) {
+      return { familyInvitations: records.familyInvitations || [] };
+    }
+    return { familyMembers: records.familyMembers || [] };
+  };
+}
+
+async function expectHttpError(promise: Promise<unknown>, status: number) {
+  await expect(promise).rejects.toBeInstanceOf(HttpError);
+  await expect(promise).rejects.toMatchObject({ status });
+}
+
+beforeEach(() => {
+  // The memory mailer logs each email it keeps
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("POST /family/revoke-invite", () => {
+  const pending = { id: "invite-1", status: "pending", family: [family] };
+
+  it("returns 404 when the invitation doesn't exist", async () => {
+    const db = fakeInstantDB(familyAnswers({}));
+    const { context } = handlerContext(owner, { invitationId: "missing" });
+
+    await expectHttpError(handleRevokeInvite(context), 404);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 404 when the invitation has no family", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyInvitations: [{ ...pending, family: [] }] }));
+    const { context } = handlerContext(owner, { invitationId: pending.id });
+
+    await expectHttpError(handleRevokeInvite(context), 404);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 403 when the invitation belongs to another family", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyInvitations: [{ ...pending, family: [otherFamily] }] }));
+    const { context } = handlerContext(owner, { invitationId: pending.id });
+
+    await expectHttpError(handleRevokeInvite(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 403 when the user doesn't manage any family", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyInvitations: [pending] }));
+    const { context } = handlerContext(stranger, { invitationId: pending.id });
+
+    await expectHttpError(handleRevokeInvite(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 400 when the invitation isn't pending", async () => {
+    fakeInstantDB(familyAnswers({ familyInvitations: [{ ...pending, status: "accepted" }] }));
+    const { context } = handlerContext(owner, { invitationId: pending.id });
+
+    await expectHttpError(handleRevokeInvite(context), 400);
+  });
+
+  it.each([
+    ["the owner", owner],
+    ["an admin", admin],
+  ])("lets %s revoke a pending invitation", async (_, user) => {
+    const db = fakeInstantDB(familyAnswers({ familyInvitations: [pending] }));
+    const { context } = handlerContext(user, { invitationId: pending.id });
+
+    const response = await handleRevokeInvite(context);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(db.transactions).toEqual([[
+      ["update", "familyInvitations", pending.id, { status: "revoked", revokedAt: expect.any(String) }],
+    ]]);
+  });
+});
+
+describe("POST /family/remove-member", () => {
+  const editor = { id: "member-1", userId: "editor-1", email: "editor@example.com", role: "editor", family: [family] };
+  const otherAdmin = { id: "member-2", userId: "admin-2", email: "admin2@example.com", role: "admin", family: [family] };
+
+  it("returns 404 when the member doesn't exist", async () => {
+    const db = fakeInstantDB(familyAnswers({}));
+    const { context } = handlerContext(owner, { memberId: "missing" });
+
+    await expectHttpError(handleRemoveMember(context), 404);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 403 when the member belongs to another family", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyMembers: [{ ...editor, family: [otherFamily] }] }));
+    const { context } = handlerContext(owner, { memberId: editor.id });
+
+    await expectHttpError(handleRemoveMember(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 403 when the user doesn't manage any family", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyMembers: [editor] }));
+    const { context } = handlerContext(stranger, { memberId: editor.id });
+
+    await expectHttpError(handleRemoveMember(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 403 when an admin removes another admin", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyMembers: [otherAdmin] }));
+    const { context } = handlerContext(admin, { memberId: otherAdmin.id });
+
+    await expectHttpError(handleRemoveMember(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("lets the owner remove an admin", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyMembers: [otherAdmin] }));
+    const { context } = handlerContext(owner, { memberId: otherAdmin.id });
+
+    const response = await handleRemoveMember(context);
+
+    expect(response.status).toBe(200);
+    expect(db.transactions).toEqual([[["delete", "familyMembers", otherAdmin.id]]]);
+  });
+
+  it("removes the member and tells them", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyMembers: [editor] }));
+    const { context, pending } = handlerContext(admin, { memberId: editor.id });
+
+    const response = await handleRemoveMember(context);
+    await Promise.all(pending);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(db.transactions).toEqual([[["delete", "familyMembers", editor.id]]]);
+    expect(pending).toHaveLength(1);
+  });
+});
+
+describe("POST /family/invitations", () => {
+  const pending = { id: "invite-1", status: "pending", token: "token-1", expiresAt: "2999-01-01T00:00:00.000Z", createdAt: "2026-01-02T00:00:00.000Z" };
+  const accepted = { id: "invite-2", status: "accepted", token: "token-2", expiresAt: "2026-01-08T00:00:00.000Z", createdAt: "2026-01-01T00:00:00.000Z" };
+
+  it("lists the invitations of a family the user administers but doesn't own", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyInvitations: [pending, accepted] }));
+    const { context } = handlerContext(admin, {});
+
+    const response = await handleGetInvitations(context);
+
+    // History leaves out the tokens of used-up links
+    const { token, ...acceptedHistory } = accepted;
+    expect(await response.json()).toEqual({ invitations: [pending], history: [acceptedHistory] });
+    expect(db.queries).toContainEqual({ families: { $: { where: { id: { $in: [family.id] } } }, invitations: {} } });
+  });
+
+  it("returns nothing to a user without a family to manage", async () => {
+    const db = fakeInstantDB(familyAnswers({ familyInvitations: [pending] }));
+    const { context } = handlerContext(stranger, {});
+
+    const response = await handleGetInvitations(context);
+
+    expect(await response.json()).toEqual({ invitations: [], history: [] });
+    expect(db.queries.some((query) => query.families?.invitations)).toBe(false);
+  });
+
+  it("returns 403 for a family the user doesn't manage", async () => {
+    fakeInstantDB(familyAnswers({ familyInvitations: [pending] }));
+    const { context } = handlerContext(admin, { familyId: otherFamily.id });
+
+    await expectHttpError(handleGetInvitations(context), 403);
+  });
+});
+
+describe("POST /family/accept-invite", () => {
+  const link = {
+    id: "invite-link", token: "link-token", status: "pending", mode: "open-link", role: "viewer",
+    familyId: family.id, maxUses: 2, useCount: 1, expiresAt: "2999-01-01T00:00:00.000Z",
+  };
+  const earlier = { id: "member-earlier", userId: "member-1", invitationId: link.id, joinedAt: "2026-01-01T00:00:00.000Z" };
+
+  /**
+   * Answer the queries of accepting the link while `racer` accepted it at the
+   * same time; the link's members are read back after ours is written
+   */
+  function racingAnswers(racer: { id: string; joinedAt: string }, db: () => FakeInstantDB) {
+    return (query: any) => {
+      if (query.familyInvitations) {
+        return { familyInvitations: [link] };
+      }
+      if (query.families) {
+        return { families: [family], familyMembers: [], $users: [] };
+      }
+      if (query.familyMembers?.$.where.invitationId) {
+        const [[, , memberId, attrs]] = db().transactions[0];
+        return { familyMembers: [{ id: memberId, ...attrs }, racer, earlier] };
+      }
+      return { kidProfiles: [] };
+    };
+  }
+
+  it("admits the request that joined first when both took the last use", async () => {
+    const racer = { id: "member-racer", userId: "racer-1", invitationId: link.id, joinedAt: "2999-01-01T00:00:00.000Z" };
+    const db: FakeInstantDB = fakeInstantDB(racingAnswers(racer, () => db));
+    const { context } = handlerContext(stranger, { token: link.token });
+
+    const response = await handleAcceptInvite(context);
+
+    expect(await response.json()).toMatchObject({ success: true, familyId: family.id });
+    expect(db.transactions[1]).toEqual([
+      ["update", "familyInvitations", link.id, { status: "accepted", useCount: 2, acceptedAt: expect.any(String) }],
+    ]);
+  });
+
+  it("backs out the request that joined last", async () => {
+    const racer = { id: "member-racer", userId: "racer-1", invitationId: link.id, joinedAt: "2000-01-01T00:00:00.000Z" };
+    const db: FakeInstantDB = fakeInstantDB(racingAnswers(racer, () => db));
+    const { context } = handlerContext(stranger, { token: link.token });
+
+    await expectHttpError(handleAcceptInvite(context), 403);
+    const memberId = db.transactions[0][0][2];
+    expect(db.transactions).toHaveLength(2);
+    expect(db.transactions[1]).toEqual([["delete", "familyMembers", memberId]]);
+  });
+});
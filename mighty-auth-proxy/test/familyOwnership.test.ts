@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { handleConfirmTransfer, handleDeleteFamily, handleRenameFamily, handleTransferOwnership } from "../src/familyOwnership";
+import { HttpError } from "../src/http";
+import { admin, fakeInstantDB, handlerContext, owner, stranger } from "./helpers";
+
+const family = {
+  id: "family-1",
+  ownerId: owner.id,
+  name: "Smiths",
+  pendingOwnerId: admin.id,
+  transferRequestedAt: new Date().toISOString(),
+};
+const membership = { id: "member-admin", userId: admin.id, email: admin.email, role: "admin" };
+
+/**
+ * Answer the queries made while confirming a transfer. `ownedFamilies` are
+ * the families the accepting member already owns.
+ */
+function transferAnswers(ownedFamilies: any[]) {
+  return (query: any) => {
+    if (query.families?.$.where.id) {
+      return { families: [family], familyMembers: [membership] };
+    }
+    if (query.families?.$.where.ownerId) {
+      return { families: query.families.$.where.ownerId === admin.id ? ownedFamilies : [] };
+    }
+    if (query.$users) {
+      return { $users: [{ id: owner.id, email: owner.email }] };
+    }
+    return { kidProfiles: [] };
+  };
+}
+
+const editor = { id: "editor-1", email: "editor@example.com" };
+const members = [
+  { ...membership, family: [family] },
+  { id: "member-editor", userId: editor.id, email: editor.email, role: "editor", family: [family] },
+  { id: "member-elsewhere", userId: stranger.id, email: stranger.email, role: "editor", family: [{ id: "family-2" }] },
+];
+const invitations = [{ id: "invite-1", status: "pending" }, { id: "invite-2", status: "accepted" }];
+const feeds = [{ id: "feed-1", familyId: family.id }];
+
+/**
+ * Answer the queries made while managing the family as its owner or a member.
+ * `ownedFamilies` maps members' user ids to the families they own.
+ */
+function familyAnswers(ownedFamilies: Record<string, any[]> = {}) {
+  const familyMembers = members.filter((m) => m.family[0].id === family.id);
+  return (query: any) => {
+    const where = query.families?.$.where ?? query.familyMembers?.$.where;
+    if (query.families && where.id) {
+      return { families: [{ ...family, members: familyMembers, invitations }], calendarFeeds: feeds };
+    }
+    if (query.families) {
+      return { families: where.ownerId === owner.id ? [family] : ownedFamilies[where.ownerId] || [] };
+    }
+    if (where.role) {
+      return { familyMembers: members.filter((m) => m.userId === where.userId && m.role === where.role) };
+    }
+    return { familyMembers: members.filter((m) => m.id === where.id) };
+  };
+}
+
+async function expectHttpError(promise: Promise<unknown>, status: number) {
+  await expect(promise).rejects.toBeInstanceOf(HttpError);
+  await expect(promise).rejects.toMatchObject({ status });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("POST /family/confirm-transfer", () => {
+  it("returns 400 when the member has come to own a family since the request", async () => {
+    const db = fakeInstantDB(transferAnswers([{ id: "family-2", ownerId: admin.id }]));
+    const { context } = handlerContext(admin, { familyId: family.id });
+
+    const response = handleConfirmTransfer(context);
+
+    await expect(response).rejects.toBeInstanceOf(HttpError);
+    await expect(response).rejects.toMatchObject({ status: 400 });
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("makes the member the owner and the previous owner an admin", async () => {
+    const db = fakeInstantDB(transferAnswers([]));
+    const { context } = handlerContext(admin, { familyId: family.id });
+
+    const response = await handleConfirmTransfer(context);
+
+    expect(await response.json()).toEqual({ success: true, familyId: family.id, accepted: true });
+    expect(db.transactions).toEqual([[
+      ["update", "families", family.id, { ownerId: admin.id, pendingOwnerId: null, transferRequestedAt: null, updatedAt: expect.any(String) }],
+      ["delete", "familyMembers", membership.id],
+      ["update", "familyMembers", expect.any(String), expect.objectContaining({ userId: owner.id, role: "admin" })],
+      ["link", "familyMembers", expect.any(String), { family: family.id }],
+    ]]);
+  });
+});
+
+describe("POST /family/delete", () => {
+  it("deletes the members, invitations and calendar feeds with the family in one transaction", async () => {
+    const db = fakeInstantDB(familyAnswers());
+    const { context } = handlerContext(owner, { familyId: family.id });
+
+    const response = await handleDeleteFamily(context);
+
+    expect(await response.json()).toEqual({ success: true, familyId: family.id, removedMembers: 2, removedInvitations: 2 });
+    expect(db.transactions).toEqual([[
+      ["delete", "familyMembers", "member-admin"],
+      ["delete", "familyMembers", "member-editor"],
+      ["delete", "familyInvitations", "invite-1"],
+      ["delete", "familyInvitations", "invite-2"],
+      ["delete", "calendarFeeds", "feed-1"],
+      ["delete", "families", family.id],
+    ]]);
+  });
+
+  it("returns 403 to anyone but the owner, admins included", async () => {
+    const db = fakeInstantDB(familyAnswers());
+    const { context } = handlerContext(admin, { familyId: family.id });
+
+    await expectHttpError(handleDeleteFamily(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+});
+
+describe("POST /family/transfer-ownership", () => {
+  it("returns 404 for someone who isn't a member of the family", async () => {
+    const db = fakeInstantDB(familyAnswers());
+
+    for (const memberId of ["member-elsewhere", "missing"]) {
+      const { context } = handlerContext(owner, { familyId: family.id, memberId });
+      await expectHttpError(handleTransferOwnership(context), 404);
+    }
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 400 for a member who already owns a family", async () => {
+    const db = fakeInstantDB(familyAnswers({ [editor.id]: [{ id: "family-3", ownerId: editor.id }] }));
+    const { context } = handlerContext(owner, { familyId: family.id, memberId: "member-editor" });
+
+    await expectHttpError(handleTransferOwnership(context), 400);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it("returns 403 to an admin", async () => {
+    const db = fakeInstantDB(familyAnswers());
+    const { context } = handlerContext(admin, { familyId: family.id, memberId: "member-editor" });
+
+    await expectHttpError(handleTransferOwnership(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+});
+
+describe("POST /family/rename", () => {
+  it("lets an admin rename the family", async () => {
+    const db = fakeInstantDB(familyAnswers());
+    const { context } = handlerContext(admin, { familyId: family.id, name: "  The Smiths " });
+
+    const response = await handleRenameFamily(context);
+
+    expect(await response.json()).toEqual({ success: true, familyId: family.id, name: "The Smiths" });
+    expect(db.transactions).toEqual([[["update", "families", family.id, { name: "The Smiths", updatedAt: expect.any(String) }]]]);
+  });
+
+  it("returns 403 to a member who isn't an admin", async () => {
+    const db = fakeInstantDB(familyAnswers());
+    const { context } = handlerContext(editor, { familyId: family.id, name: "The Smiths" });
+
+    await expectHttpError(handleRenameFamily(context), 403);
+    expect(db.transactions).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Test helpers: a fake InstantDB admin API and handler contexts
+ */
+
+import { vi } from "vitest";
+import { Env, UserInfo } from "../src/types";
+
+export const env: Env = {
+  APP_STORE_URL: "https://apps.apple.com/app/mighty",
+  APPLE_APP_ID: "TEAMID.com.mighty.app",
+  CALENDAR_FEED_BASE_URL: "https://db.example.com",
+  INSTANTDB_ADMIN_TOKEN: "admin-token",
+  INSTANTDB_APP_ID: "app-id",
+  INVITE_BASE_URL: "https://mighty-app.com",
+  SESSION_SECRET: "session-secret",
+  MAILER: "memory",
+};
+
+export const owner: UserInfo = { id: "owner-1", email: "owner@example.com" };
+export const admin: UserInfo = { id: "admin-1", email: "admin@example.com" };
+export const stranger: UserInfo = { id: "stranger-1", email: "stranger@example.com" };
+
+export interface FakeInstantDB {
+  /** Queries sent to /admin/query, in order */
+  queries: any[];
+  /** Steps of each transaction sent to /admin/transact, in order */
+  transactions: any[][];
+}
+
+/**
+ * Replace fetch with a fake InstantDB admin API. `answer` returns the result
+ * of each query; transactions are recorded and succeed.
+ */
+export function fakeInstantDB(answer: (query: any) => object): FakeInstantDB {
+  const db: FakeInstantDB = { queries: [], transactions: [] };
+
+  vi.stubGlobal("fetch", async (input: RequestInfo, init?: RequestInit) => {
+    const url = String(input);
+    const body = JSON.parse(String(init?.body));
+    if (url.endsWith("/admin/transact")) {
+      db.transactions.push(body.steps);
+      return Response.json({});
+    }
+    if (url.endsWith("/admin/query")) {
+      db.queries.push(body.query);
+      return Response.json(answer(body.query));
+    }
+    throw new Error(`Unexpected fetch: ${url}`);
+  });
+
+  return db;
+}
+
+/**
+ * The context a route handler receives, with background work collected in `pending`
+ */
+export function handlerContext<B>(user: UserInfo, body: B) {
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+    passThroughOnException: () => {},
+  } as unknown as ExecutionContext;
+  const request = new Request("https://auth.example.com/", { method: "POST" });
+
+  return {
+    context: { request, env, ctx, url: new URL(request.url), params: {}, body, user },
+    pending,
+  };
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpError } from "../src/http";
+import { handleAppSiteAssociation, handleInvitationDetails, handleInvitePage } from "../src/invitePage";
+import { env, fakeInstantDB, handlerContext, owner } from "./helpers";
+
+const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+const invitation = { id: "invite-1", token: "token-1", status: "pending", role: "editor", mode: "email-bound", expiresAt: future };
+
+function pageContext(overrides: Partial<typeof env> = {}) {
+  const { context } = handlerContext(owner, {});
+  return { ...context, env: { ...env, ...overrides }, params: { token: invitation.token } };
+}
+
+function answering(stored: object) {
+  fakeInstantDB((query) => (query.familyInvitations ? { familyInvitations: [stored] } : { $users: [] }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("invitation status", () => {
+  it("reports an open link stored as accepted after its last use as used", async () => {
+    answering({ ...invitation, status: "accepted", mode: "open-link", maxUses: 2, useCount: 2 });
+
+    const response = await handleInvitationDetails(pageContext());
+
+    expect(await response.json()).toMatchObject({ status: "used" });
+  });
+
+  it("reports an accepted email invitation as accepted", async () => {
+    answering({ ...invitation, status: "accepted" });
+
+    const response = await handleInvitationDetails(pageContext());
+
+    expect(await response.json()).toMatchObject({ status: "accepted" });
+  });
+
+  it("shows when a pending invitation expires", async () => {
+    answering(invitation);
+
+    const response = await handleInvitePage(pageContext());
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain(`<time datetime="${future}">`);
+  });
+
+  it("treats a pending invitation without a valid expiry as expired", async () => {
+    for (const expiresAt of [undefined, "", "next week"]) {
+      answering({ ...invitation, expiresAt });
+
+      const details = await handleInvitationDetails(pageContext());
+      expect(await details.json()).toMatchObject({ status: "expired" });
+
+      const page = await handleInvitePage(pageContext());
+      expect(page.status).toBe(410);
+      const html = await page.text();
+      expect(html).toContain("This invitation has expired.");
+      expect(html).not.toContain("<time");
+    }
+  });
+
+  it("shows a generic closed message for statuses it doesn't know", async () => {
+    answering({ ...invitation, status: "archived" });
+
+    const response = await handleInvitePage(pageContext());
+
+    expect(response.status).toBe(410);
+    expect(await response.text()).toContain("This invitation can no longer be used.");
+  });
+});
+
+describe("app settings", () => {
+  it("leaves out the App Store button without APP_STORE_URL", async () => {
+    answering(invitation);
+
+    const response = await handleInvitePage(pageContext({ APP_STORE_URL: undefined }));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).not.toContain("App Store</a>");
+  });
+
+  it("doesn't serve the association file without APPLE_APP_ID", async () => {
+    const request = handleAppSiteAssociation(pageContext({ APPLE_APP_ID: undefined }));
+
+    await expect(request).rejects.toBeInstanceOf(HttpError);
+    await expect(request).rejects.toMatchObject({ status: 404 });
+  });
+});
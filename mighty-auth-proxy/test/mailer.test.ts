@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LOCALES, TemplateName, TemplateParams } from "../src/emailTemplates";
+import { getMailer, MemoryMailer, sendTemplate } from "../src/mailer";
+import { env } from "./helpers";
+
+const link = "https://mighty-app.com/invite/token-1";
+
+// Parameters for every template, so each one is rendered at least once
+const PARAMS: { [T in TemplateName]: TemplateParams[T] } = {
+  invitation: { inviterEmail: "owner@example.com", role: "editor", link, expiresInDays: 7 },
+  invitationExpiring: { inviterEmail: "owner@example.com", role: "viewer", link, expiresInDays: 1 },
+  invitationAccepted: { memberEmail: "member@example.com", familyName: "Smiths", role: "admin" },
+  memberRemoved: { familyName: null, removedByEmail: "owner@example.com" },
+  roleChanged: { familyName: "Smiths", role: "viewer", changedByEmail: "owner@example.com" },
+  ownershipTransferRequested: { ownerEmail: "owner@example.com", familyName: "Smiths", expiresInDays: 7 },
+};
+
+const TEMPLATE_NAMES = Object.keys(PARAMS) as TemplateName[];
+
+let log: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  log = vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("sendTemplate", () => {
+  it.each(LOCALES.flatMap((locale) => TEMPLATE_NAMES.map((name) => [name, locale] as const)))(
+    "sends %s in %s",
+    async (name, locale) => {
+      const mailer = new MemoryMailer();
+
+      expect(await sendTemplate(mailer, "to@example.com", name, locale, PARAMS[name])).toBe(true);
+
+      const [message] = mailer.sent;
+      expect(message.to).toBe("to@example.com");
+      expect(message.subject).not.toBe("");
+      expect(message.html).toContain(`<html lang="${locale}">`);
+      expect(message.text).not.toBe("");
+    }
+  );
+
+  it("puts the invitation link in both bodies", async () => {
+    const mailer = new MemoryMailer();
+    await sendTemplate(mailer, "to@example.com", "invitation", "en", PARAMS.invitation);
+
+    expect(mailer.sent[0].html).toContain(`href="${link}"`);
+    expect(mailer.sent[0].text).toContain(link);
+  });
+
+  it("escapes parameters in the HTML body", async () => {
+    const mailer = new MemoryMailer();
+    await sendTemplate(mailer, "to@example.com", "memberRemoved", "en", {
+      familyName: "<script>alert(1)</script>",
+      removedByEmail: "owner@example.com",
+    });
+
+    expect(mailer.sent[0].html).not.toContain("<script>");
+    expect(mailer.sent[0].html).toContain("&lt;script&gt;");
+  });
+});
+
+describe("MemoryMailer", () => {
+  it("keeps only the latest messages", async () => {
+    const mailer = new MemoryMailer(2);
+    for (const to of ["a@example.com", "b@example.com", "c@example.com"]) {
+      await mailer.send({ to, subject: "Hi", html: "", text: "" });
+    }
+
+    expect(mailer.sent.map((message) => message.to)).toEqual(["b@example.com", "c@example.com"]);
+  });
+
+  it("logs the recipient and subject but not the body", async () => {
+    const mailer = new MemoryMailer();
+    await sendTemplate(mailer, "to@example.com", "invitation", "en", PARAMS.invitation);
+
+    expect(log).toHaveBeenCalledTimes(1);
+    const logged = log.mock.calls[0].join(" ");
+    expect(logged).toContain("to@example.com");
+    expect(logged).not.toContain(link);
+  });
+});
+
+describe("getMailer", () => {
+  it("uses the memory mailer only when configured", () => {
+    expect(getMailer(env)).toBeInstanceOf(MemoryMailer);
+    expect(getMailer({ ...env, MAILER: undefined, RESEND_API_KEY: "key" })).not.toBeInstanceOf(MemoryMailer);
+  });
+
+  it("reports failure when no mailer is configured", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const mailer = getMailer({ ...env, MAILER: undefined });
+
+    expect(await mailer.send({ to: "to@example.com", subject: "Hi", html: "", text: "" })).toBe(false);
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemoryRateLimitStore, RateLimiter, RateLimitRule } from "../src/rateLimit";
+
+const MINUTE = 60 * 1000;
+
+const perEmail: RateLimitRule = { name: "per-email", limit: 3, windowMs: 15 * MINUTE };
+const perIp: RateLimitRule = { name: "per-ip", limit: 5, windowMs: 60 * MINUTE };
+const failures: RateLimitRule = { name: "failures", limit: 3, windowMs: 15 * MINUTE };
+
+let now: number;
+let store: MemoryRateLimitStore;
+let limiter: RateLimiter;
+
+beforeEach(() => {
+  now = Date.UTC(2025, 0, 1);
+  store = new MemoryRateLimitStore(() => now);
+  limiter = new RateLimiter(store, () => now);
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("returns an empty list for unknown keys", async () => {
+    expect(await store.get("missing")).toEqual([]);
+  });
+
+  it("expires entries after their TTL", async () => {
+    await store.set("key", [1, 2], 60);
+
+    now += 59 * 1000;
+    expect(await store.get("key")).toEqual([1, 2]);
+
+    now += 1000;
+    expect(await store.get("key")).toEqual([]);
+  });
+
+  it("returns copies, so callers can't change stored entries", async () => {
+    const timestamps = [1];
+    await store.set("key", timestamps, 60);
+    timestamps.push(2);
+    (await store.get("key")).push(3);
+
+    expect(await store.get("key")).toEqual([1]);
+  });
+
+  it("deletes entries", async () => {
+    await store.set("key", [1], 60);
+    await store.delete("key");
+
+    expect(await store.get("key")).toEqual([]);
+  });
+});
+
+describe("RateLimiter.hit", () => {
+  it("allows hits up to the limit and counts down what remains", async () => {
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await limiter.hit(perEmail, "a@example.com"));
+    }
+
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0]);
+    expect(results.every((r) => r.allowed)).toBe(true);
+  });
+
+  it("rejects hits over the limit with the time until the oldest one leaves the window", async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.hit(perEmail, "a@example.com");
+      now += MINUTE;
+    }
+
+    const result = await limiter.hit(perEmail, "a@example.com");
+
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 12 * 60 });
+  });
+
+  it("slides the window instead of resetting it", async () => {
+    await limiter.hit(perEmail, "a@example.com");
+    now += 10 * MINUTE;
+    await limiter.hit(perEmail, "a@example.com");
+    await limiter.hit(perEmail, "a@example.com");
+
+    now += 5 * MINUTE;
+    expect((await limiter.hit(perEmail, "a@example.com")).allowed).toBe(true);
+    expect((await limiter.hit(perEmail, "a@example.com")).allowed).toBe(false);
+  });
+
+  it("doesn't record rejected hits", async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.hit(perEmail, "a@example.com");
+    }
+    for (let i = 0; i < 10; i++) {
+      await limiter.hit(perEmail, "a@example.com");
+    }
+
+    now += 15 * MINUTE;
+    expect((await limiter.hit(perEmail, "a@example.com")).allowed).toBe(true);
+  });
+
+  it("tracks keys and rules separately", async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.hit(perEmail, "a@example.com");
+    }
+
+    expect((await limiter.hit(perEmail, "b@example.com")).allowed).toBe(true);
+    expect((await limiter.hit(perIp, "a@example.com")).allowed).toBe(true);
+  });
+});
+
+describe("RateLimiter.hitAll", () => {
+  it("reports the smallest remaining count across rules", async () => {
+    const result = await limiter.hitAll([[perIp, "1.2.3.4"], [perEmail, "a@example.com"]]);
+
+    expect(result).toEqual({ allowed: true, remaining: 2, retryAfterSeconds: 0 });
+  });
+
+  it("stops at the first rule that rejects", async () => {
+    for (let i = 0; i < 5; i++) {
+      await limiter.hit(perIp, "1.2.3.4");
+    }
+
+    const result = await limiter.hitAll([[perIp, "1.2.3.4"], [perEmail, "a@example.com"]]);
+
+    expect(result.allowed).toBe(false);
+    expect((await limiter.hit(perEmail, "a@example.com")).remaining).toBe(2);
+  });
+});
+
+describe("RateLimiter lockouts", () => {
+  const lockoutMs = 30 * MINUTE;
+
+  it("locks a key out once failures reach the limit", async () => {
+    expect(await limiter.recordFailure(failures, "a@example.com", lockoutMs)).toBe(0);
+    expect(await limiter.recordFailure(failures, "a@example.com", lockoutMs)).toBe(0);
+    expect(await limiter.lockoutRemaining("a@example.com")).toBe(0);
+
+    expect(await limiter.recordFailure(failures, "a@example.com", lockoutMs)).toBe(30 * 60);
+    expect(await limiter.lockoutRemaining("a@example.com")).toBe(30 * 60);
+  });
+
+  it("lifts the lockout when it ends", async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.recordFailure(failures, "a@example.com", lockoutMs);
+    }
+
+    now += 20 * MINUTE;
+    expect(await limiter.lockoutRemaining("a@example.com")).toBe(10 * 60);
+
+    now += 10 * MINUTE;
+    expect(await limiter.lockoutRemaining("a@example.com")).toBe(0);
+  });
+
+  it("forgets failures outside the window", async () => {
+    await limiter.recordFailure(failures, "a@example.com", lockoutMs);
+    await limiter.recordFailure(failures, "a@example.com", lockoutMs);
+
+    now += 15 * MINUTE;
+    expect(await limiter.recordFailure(failures, "a@example.com", lockoutMs)).toBe(0);
+  });
+
+  it("clears failures after a success", async () => {
+    await limiter.recordFailure(failures, "a@example.com", lockoutMs);
+    await limiter.recordFailure(failures, "a@example.com", lockoutMs);
+    await limiter.clearFailures(failures, "a@example.com");
+
+    expect(await limiter.recordFailure(failures, "a@example.com", lockoutMs)).toBe(0);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { HttpError, json } from "../src/http";
+import { Router } from "../src/router";
+
+const ctx = {} as ExecutionContext;
+
+function inviteRouter() {
+  return new Router<object, never>(async () => null)
+    .get("/invite/:code", {}, async ({ params }) => json({ code: params.code }));
+}
+
+describe("Router path parameters", () => {
+  it("decodes escaped characters", async () => {
+    const response = await inviteRouter().handle(new Request("https://auth.example.com/invite/a%20b"), {}, ctx);
+
+    expect(await response.json()).toEqual({ code: "a b" });
+  });
+
+  it("rejects malformed escapes with a 400", async () => {
+    const response = inviteRouter().handle(new Request("https://auth.example.com/invite/%E0"), {}, ctx);
+
+    await expect(response).rejects.toBeInstanceOf(HttpError);
+    await expect(response).rejects.toMatchObject({ status: 400 });
+  });
+});
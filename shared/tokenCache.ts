@@ -0,0 +1,193 @@
+/**
+ * Cache for refresh token verification results.
+ *
+ * Verifying a refresh token costs a round-trip to InstantDB, and a single app
+ * sync makes many requests with the same token. Successful verifications are
+ * cached for a short TTL, keyed by a SHA-256 hash of the token so the raw
+ * token is never stored. Failed verifications are never cached.
+ *
+ * Shared by the DB proxy (worker/) and the auth proxy (mighty-auth-proxy/).
+ * Both drop a token when InstantDB rejects it; binding the same
+ * TOKEN_CACHE_KV namespace to both workers shares those invalidations.
+ *
+ * Bounds: every entry expires after the TTL, so a store holds at most the
+ * tokens verified in the last TOKEN_CACHE_TTL_SECONDS. The Cache API also
+ * evicts entries on its own, KV keeps them for at least 60 seconds (its
+ * minimum TTL), and MemoryTokenCacheStore is capped at maxEntries.
+ */
+
+export interface CachedUser {
+  id: string;
+  email: string;
+}
+
+export interface TokenCacheStore {
+  get(key: string): Promise<CachedUser | null>;
+  put(key: string, user: CachedUser, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface TokenCacheMetrics {
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+export const TOKEN_CACHE_TTL_SECONDS = 60;
+
+/**
+ * Hash a token for use as a cache key
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * TokenCacheStore kept in memory, bounded to maxEntries (least recently used
+ * entries are evicted first). Per isolate, so mainly for tests and local dev.
+ */
+export class MemoryTokenCacheStore implements TokenCacheStore {
+  private readonly entries = new Map<string, { user: CachedUser; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number = 1000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<CachedUser | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return null;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.user;
+  }
+
+  async put(key: string, user: CachedUser, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { user, expiresAt: this.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * TokenCacheStore backed by the Workers Cache API (per data center)
+ */
+export class CacheApiTokenCacheStore implements TokenCacheStore {
+  constructor(
+    private readonly cache: Cache,
+    private readonly namespace: string = "https://token-cache.mighty.internal"
+  ) {}
+
+  private requestFor(key: string): Request {
+    return new Request(`${this.namespace}/${key}`);
+  }
+
+  async get(key: string): Promise<CachedUser | null> {
+    const response = await this.cache.match(this.requestFor(key));
+    return response ? await response.json() as CachedUser : null;
+  }
+
+  async put(key: string, user: CachedUser, ttlSeconds: number): Promise<void> {
+    await this.cache.put(this.requestFor(key), new Response(JSON.stringify(user), {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": `max-age=${ttlSeconds}`,
+      },
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.requestFor(key));
+  }
+}
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * TokenCacheStore backed by a Workers KV namespace (global, eventually consistent)
+ */
+export class KVTokenCacheStore implements TokenCacheStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(key: string): Promise<CachedUser | null> {
+    return await this.kv.get<CachedUser>(`token:${key}`, "json");
+  }
+
+  async put(key: string, user: CachedUser, ttlSeconds: number): Promise<void> {
+    await this.kv.put(`token:${key}`, JSON.stringify(user), {
+      expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ttlSeconds)),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(`token:${key}`);
+  }
+}
+
+export class TokenVerificationCache {
+  readonly metrics: TokenCacheMetrics = { hits: 0, misses: 0, invalidations: 0 };
+
+  constructor(
+    private readonly store: TokenCacheStore,
+    private readonly ttlSeconds: number = TOKEN_CACHE_TTL_SECONDS
+  ) {}
+
+  /**
+   * Return the cached user for a token, or run `verify` and cache a successful result
+   */
+  async getOrVerify(token: string, verify: (token: string) => Promise<CachedUser | null>): Promise<CachedUser | null> {
+    const key = await hashToken(token);
+
+    const cached = await this.store.get(key);
+    if (cached) {
+      this.metrics.hits++;
+      return cached;
+    }
+
+    this.metrics.misses++;
+    const user = await verify(token);
+    if (user) {
+      await this.store.put(key, { id: user.id, email: user.email }, this.ttlSeconds);
+    }
+    return user;
+  }
+
+  /**
+   * Run `verify` without consulting the cache, then cache a successful result
+   * or drop the token if it was rejected. For callers that hand out something
+   * outliving the cache entry, such as an access token.
+   */
+  async verifyFresh(token: string, verify: (token: string) => Promise<CachedUser | null>): Promise<CachedUser | null> {
+    this.metrics.misses++;
+    const user = await verify(token);
+    if (user) {
+      await this.store.put(await hashToken(token), { id: user.id, email: user.email }, this.ttlSeconds);
+    } else {
+      await this.invalidate(token);
+    }
+    return user;
+  }
+
+  /**
+   * Drop a token from the cache, e.g. after InstantDB rejects it
+   */
+  async invalidate(token: string): Promise<void> {
+    this.metrics.invalidations++;
+    await this.store.delete(await hashToken(token));
+  }
+}
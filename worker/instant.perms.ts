@@ -0,0 +1,114 @@
+import type { InstantRules } from "@instantdb/core";
+
+// Permission rules for the Mighty app.
+//
+// The DB proxy impersonates the calling user (As-Token), so these rules decide
+// what each user can see and change. Kid data is owned by the parent it is
+// linked to, and is readable by the owner of the family the kid profile is
+// shared with and anyone with a familyMembers row in it. The owner isn't always
+// the kids' parent, since ownership can be transferred. Family sharing records
+// are only written by the auth proxy using the admin token.
+//
+// Editors and admins of a family can also write to its kids' data. Rules can't
+// see a member's role, so the DB proxy checks the role itself and runs those
+// writes with the admin token instead of impersonating the user.
+
+const rules = {
+  "kidProfiles": {
+    "allow": {
+      "view": "isParent || isFamilyMember || isFamilyOwner",
+      "create": "auth.id != null",
+      "update": "isParent",
+      "delete": "isParent",
+    },
+    "bind": [
+      "isParent", "auth.id in data.ref('parent.id')",
+      "isFamilyMember", "auth.id in data.ref('family.members.userId')",
+      "isFamilyOwner", "auth.id in data.ref('family.ownerId')",
+    ],
+  },
+  "customSections": {
+    "allow": {
+      "view": "isParent || isFamilyMember || isFamilyOwner",
+      "create": "auth.id != null",
+      "update": "isParent",
+      "delete": "isParent",
+    },
+    "bind": [
+      "isParent", "auth.id in data.ref('kidProfile.parent.id')",
+      "isFamilyMember", "auth.id in data.ref('kidProfile.family.members.userId')",
+      "isFamilyOwner", "auth.id in data.ref('kidProfile.family.ownerId')",
+    ],
+  },
+  "customEntries": {
+    "allow": {
+      "view": "isParent || isFamilyMember || isFamilyOwner",
+      "create": "auth.id != null",
+      "update": "isParent",
+      "delete": "isParent",
+    },
+    "bind": [
+      "isParent", "auth.id in data.ref('section.kidProfile.parent.id')",
+      "isFamilyMember", "auth.id in data.ref('section.kidProfile.family.members.userId')",
+      "isFamilyOwner", "auth.id in data.ref('section.kidProfile.family.ownerId')",
+    ],
+  },
+  "mediaEntries": {
+    "allow": {
+      "view": "isParent || isFamilyMember || isFamilyOwner",
+      "create": "auth.id != null",
+      "update": "isParent",
+      "delete": "isParent",
+    },
+    "bind": [
+      "isParent", "auth.id in data.ref('kidProfile.parent.id')",
+      "isFamilyMember", "auth.id in data.ref('kidProfile.family.members.userId')",
+      "isFamilyOwner", "auth.id in data.ref('kidProfile.family.ownerId')",
+    ],
+  },
+  "families": {
+    "allow": {
+      "view": "auth.id == data.ownerId || auth.id in data.ref('members.userId')",
+      "create": "false",
+      "update": "false",
+      "delete": "false",
+    },
+  },
+  "familyMembers": {
+    "allow": {
+      "view": "auth.id == data.userId || auth.id in data.ref('family.ownerId')",
+      "create": "false",
+      "update": "false",
+      "delete": "false",
+    },
+  },
+  "familyInvitations": {
+    "allow": {
+      "view": "false",
+      "create": "false",
+      "update": "false",
+      "delete": "false",
+    },
+  },
+  // Written only by the auth proxy and read only by the DB proxy's feed route;
+  // the feed secret is stored as a SHA-256 hash
+  "calendarFeeds": {
+    "allow": {
+      "view": "false",
+      "create": "false",
+      "update": "false",
+      "delete": "false",
+    },
+  },
+  // Written and read only by the DB proxy, which filters by owner and family
+  "tombstones": {
+    "allow": {
+      "view": "false",
+      "create": "false",
+      "update": "false",
+      "delete": "false",
+    },
+  },
+} satisfies InstantRules;
+
+export default rules;
@@ -11,10 +11,21 @@ const _schema = i.schema({
       "imageURL": i.string().optional(),
       "type": i.string().optional(),
     }),
+    "calendarFeeds": i.entity({
+      "createdAt": i.string(),
+      "familyId": i.string().optional().indexed(),
+      "kidProfileId": i.string().optional().indexed(),
+      "name": i.string().optional(),
+      "ownerId": i.string().indexed(),
+      "rotatedAt": i.string().optional(),
+      "timeZone": i.string(),
+      "tokenHash": i.string().unique().indexed(),
+    }),
     "customEntries": i.entity({
       "date": i.string().optional(),
       "endDate": i.string().optional(),
       "endTime": i.string().optional(),
+      "exdates": i.json().optional(),
       "isRecurrenceTemplate": i.boolean().optional(),
       "localId": i.string().optional(),
       "notes": i.string().optional(),
@@ -25,27 +36,68 @@ const _schema = i.schema({
       "recurrenceOccurrenceCount": i.number().optional(),
       "recurrencePatternRaw": i.string().optional(),
       "recurrenceWeekdays": i.json().optional(),
+      "rrule": i.string().optional(),
+      "serverUpdatedAt": i.string().optional().indexed(),
       "startTime": i.string().optional(),
       "title": i.string().optional(),
-      "updatedAt": i.string().optional(),
+      "updatedAt": i.string().optional().indexed(),
     }),
     "customSections": i.entity({
       "icon": i.string().optional(),
       "localId": i.string().optional(),
       "name": i.string().optional(),
       "notificationsEnabled": i.boolean().optional(),
+      "serverUpdatedAt": i.string().optional().indexed(),
       "sortOrder": i.number().optional(),
       "suggestedActivities": i.json().optional(),
+      "updatedAt": i.string().optional().indexed(),
+    }),
+    "families": i.entity({
+      "createdAt": i.string().optional(),
+      "name": i.string().optional(),
+      "ownerId": i.string().indexed(),
+      "pendingOwnerId": i.string().optional(),
+      "transferRequestedAt": i.string().optional(),
       "updatedAt": i.string().optional(),
     }),
+    "familyInvitations": i.entity({
+      "acceptedAt": i.string().optional(),
+      "createdAt": i.string().optional(),
+      "email": i.string().optional().indexed(),
+      "expiredAt": i.string().optional(),
+      "expiresAt": i.string().indexed(),
+      "familyId": i.string().indexed(),
+      "inviterId": i.string().optional(),
+      "lastSentAt": i.string().optional(),
+      "locale": i.string().optional(),
+      "maxUses": i.number().optional(),
+      "mode": i.string().optional(),
+      "reminderSentAt": i.string().optional(),
+      "revokedAt": i.string().optional(),
+      "role": i.string().optional(),
+      "sendCount": i.number().optional(),
+      "status": i.string().indexed(),
+      "token": i.string().unique().indexed(),
+      "useCount": i.number().optional(),
+    }),
+    "familyMembers": i.entity({
+      "email": i.string().indexed(),
+      "invitationId": i.string().optional().indexed(),
+      "joinedAt": i.string().optional(),
+      "locale": i.string().optional(),
+      "role": i.string().indexed(),
+      "updatedAt": i.string().optional(),
+      "userId": i.string().indexed(),
+    }),
     "kidProfiles": i.entity({
       "emoji": i.string().optional(),
       "enabledTemplates": i.json().optional(),
       "hasCompletedOnboarding": i.boolean().optional(),
       "localId": i.string().optional(),
       "name": i.string().optional(),
+      "serverUpdatedAt": i.string().optional().indexed(),
       "tabOrder": i.json().optional(),
-      "updatedAt": i.string().optional(),
+      "updatedAt": i.string().optional().indexed(),
       "yearlyBookGoal": i.number().optional(),
       "yearlyMovieGoal": i.number().optional(),
     }),
@@ -57,10 +109,19 @@ const _schema = i.schema({
       "mediaTypeRaw": i.string().optional(),
       "notes": i.string().optional(),
       "rating": i.number().optional(),
+      "serverUpdatedAt": i.string().optional().indexed(),
       "title": i.string().optional(),
-      "updatedAt": i.string().optional(),
+      "updatedAt": i.string().optional().indexed(),
       "videoTypeRaw": i.string().optional(),
     }),
+    "tombstones": i.entity({
+      "deletedAt": i.string().indexed(),
+      "deletedBy": i.string(),
+      "entity": i.string().indexed(),
+      "familyId": i.string().optional().indexed(),
+      "ownerId": i.string().optional().indexed(),
+      "recordId": i.string().indexed(),
+    }),
   },
   links: {
     // kidProfiles belong to a user (parent)
@@ -115,6 +176,45 @@ const _schema = i.schema({
         "label": "customEntries"
       }
     },
+    // kidProfiles can be shared with a family
+    "kidProfilesFamily": {
+      "forward": {
+        "on": "kidProfiles",
+        "has": "one",
+        "label": "family"
+      },
+      "reverse": {
+        "on": "families",
+        "has": "many",
+        "label": "kidProfiles"
+      }
+    },
+    // familyMembers belong to a family
+    "familyMembersFamily": {
+      "forward": {
+        "on": "familyMembers",
+        "has": "one",
+        "label": "family"
+      },
+      "reverse": {
+        "on": "families",
+        "has": "many",
+        "label": "members"
+      }
+    },
+    // familyInvitations belong to a family
+    "familyInvitationsFamily": {
+      "forward": {
+        "on": "familyInvitations",
+        "has": "one",
+        "label": "family"
+      },
+      "reverse": {
+        "on": "families",
+        "has": "many",
+        "label": "invitations"
+      }
+    },
   },
   rooms: {}
 });
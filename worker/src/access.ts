@@ -0,0 +1,342 @@
+/**
+ * Family access checks for transactions
+ *
+ * Permission rules (instant.perms.ts) only let parents write their own kid
+ * data. Family editors and admins write to shared kid data through the proxy:
+ * their steps are authorized here against their role and then run with the
+ * admin token.
+ *
+ * Which family a kid is shared with, and who its parent is, stay with the
+ * parent: only they can link or unlink a kid's `parent` and `family`.
+ */
+
+import { adminQuery, firstLinked } from './instantdb';
+import { Env, UserInfo } from './types';
+import { EntityName, TransactStep } from './validation';
+
+export type KidDataEntity = 'kidProfiles' | 'customSections' | 'mediaEntries' | 'customEntries';
+
+type FamilyRole = 'viewer' | 'editor' | 'admin';
+
+export interface FamilyMembership {
+  familyId: string;
+  ownerId: string;
+  role: FamilyRole;
+}
+
+export interface DeniedStep {
+  index: number;
+  entity: string;
+  id: string;
+}
+
+export interface StepRef {
+  entity: KidDataEntity;
+  id: string;
+}
+
+export interface RecordOwner {
+  parentId: string | null;
+  familyId: string | null;
+}
+
+type Verdict = 'own' | 'shared' | 'forbidden' | 'foreign';
+
+// Path from each kid data entity to the kidProfile that owns it
+const OWNER_PATHS: Record<KidDataEntity, string[]> = {
+  kidProfiles: [],
+  customSections: ['kidProfile'],
+  mediaEntries: ['kidProfile'],
+  customEntries: ['section', 'kidProfile'],
+};
+
+// Entity on the other side of each link label, used to check link targets
+const LINK_TARGETS: Record<KidDataEntity, Record<string, KidDataEntity>> = {
+  kidProfiles: { customSections: 'customSections', mediaEntries: 'mediaEntries' },
+  customSections: { kidProfile: 'kidProfiles', customEntries: 'customEntries' },
+  mediaEntries: { kidProfile: 'kidProfiles' },
+  customEntries: { section: 'customSections' },
+};
+
+// Links on a kid profile that only its parent may change
+const PARENT_ONLY_LINKS = ['parent', 'family'];
+
+// Kid data entities each family role may write to in a shared family
+const ROLE_WRITABLE_ENTITIES: Record<FamilyRole, KidDataEntity[]> = {
+  viewer: [],
+  editor: ['customSections', 'customEntries', 'mediaEntries'],
+  admin: ['kidProfiles', 'customSections', 'customEntries', 'mediaEntries'],
+};
+
+export function isKidDataEntity(entity: EntityName): entity is KidDataEntity {
+  return Object.prototype.hasOwnProperty.call(OWNER_PATHS, entity);
+}
+
+/**
+ * Get the families the user has joined as a member, plus the ones they own.
+ * Owners act as admins: after an ownership transfer the owner isn't the
+ * parent of the kids already in the family.
+ */
+export async function getFamilyMemberships(userId: string, env: Env): Promise<FamilyMembership[]> {
+  const result = await adminQuery({
+    families: { $: { where: { ownerId: userId } } },
+    familyMembers: {
+      $: { where: { userId } },
+      family: {},
+    },
+  }, env);
+
+  const memberships: FamilyMembership[] = (result.families || []).map((family: any) => ({
+    familyId: family.id,
+    ownerId: family.ownerId,
+    role: 'admin',
+  }));
+  for (const member of result.familyMembers || []) {
+    const family = firstLinked(member.family);
+    if (family) {
+      memberships.push({ familyId: family.id, ownerId: family.ownerId, role: member.role || 'viewer' });
+    }
+  }
+  return memberships;
+}
+
+/**
+ * Collect every kid data record a transaction step touches:
+ * the record itself, plus the targets of any link/unlink
+ */
+function stepRefs(step: TransactStep): StepRef[] {
+  const [action, entity, id, attrs] = step;
+  const refs: StepRef[] = [];
+
+  if (!isKidDataEntity(entity)) {
+    return refs;
+  }
+
+  refs.push({ entity, id });
+
+  if ((action === 'link' || action === 'unlink') && attrs) {
+    for (const [label, value] of Object.entries(attrs)) {
+      const target = LINK_TARGETS[entity][label];
+      if (!target) {
+        continue;
+      }
+      for (const targetId of Array.isArray(value) ? value : [value]) {
+        refs.push({ entity: target, id: targetId });
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Build a query that walks from an entity up to its owning kidProfile
+ */
+function ownerQuery(entity: KidDataEntity, ids: string[]): object {
+  let node: object = { parent: {}, family: {} };
+  for (const label of [...OWNER_PATHS[entity]].reverse()) {
+    node = { [label]: node };
+  }
+  return { [entity]: { $: { where: { id: { $in: ids } } }, ...node } };
+}
+
+/**
+ * Resolve the owning kidProfile for a set of records
+ * Returns a map of "entity:id" to owner; records that don't exist yet are omitted
+ */
+export async function resolveOwners(refs: StepRef[], env: Env): Promise<Map<string, RecordOwner>> {
+  const idsByEntity = new Map<KidDataEntity, Set<string>>();
+  for (const { entity, id } of refs) {
+    if (!idsByEntity.has(entity)) {
+      idsByEntity.set(entity, new Set());
+    }
+    idsByEntity.get(entity)!.add(id);
+  }
+
+  const owners = new Map<string, RecordOwner>();
+
+  for (const [entity, ids] of idsByEntity) {
+    const result = await adminQuery(ownerQuery(entity, [...ids]), env);
+
+    for (const record of result[entity] || []) {
+      let kid = record;
+      for (const label of OWNER_PATHS[entity]) {
+        kid = kid ? firstLinked(kid[label]) : null;
+      }
+      if (!kid) {
+        continue;
+      }
+      owners.set(`${entity}:${record.id}`, {
+        parentId: firstLinked(kid.parent)?.id || null,
+        familyId: firstLinked(kid.family)?.id || null,
+      });
+    }
+  }
+
+  return owners;
+}
+
+/**
+ * Find owners for records the transaction creates. A new record belongs to the
+ * kid it is linked to in the same transaction, and a new kid profile to the
+ * parent it is linked to. Adds them to `owners`.
+ */
+function inferNewOwners(steps: TransactStep[], owners: Map<string, RecordOwner>): void {
+  const inherit = (child: string, parent: string): boolean => {
+    const owner = owners.get(parent);
+    if (owners.has(child) || !owner) {
+      return false;
+    }
+    owners.set(child, owner);
+    return true;
+  };
+
+  // Links can come in any order, so repeat until nothing new is found
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [action, entity, id, attrs] of steps) {
+      if (action !== 'link' || !attrs || !isKidDataEntity(entity)) {
+        continue;
+      }
+      const key = `${entity}:${id}`;
+
+      if (entity === 'kidProfiles' && typeof attrs.parent === 'string' && !owners.has(key)) {
+        owners.set(key, { parentId: attrs.parent, familyId: null });
+        changed = true;
+      }
+
+      for (const [label, value] of Object.entries(attrs)) {
+        const target: KidDataEntity | undefined = LINK_TARGETS[entity][label];
+        if (!target) {
+          continue;
+        }
+        for (const targetId of Array.isArray(value) ? value : [value]) {
+          const targetKey = `${target}:${targetId}`;
+          if (label === OWNER_PATHS[entity][0]) {
+            // This record hangs off the target
+            changed = inherit(key, targetKey) || changed;
+          } else if (LINK_TARGETS[target][OWNER_PATHS[target][0]] === entity) {
+            // The target hangs off this record
+            changed = inherit(targetKey, key) || changed;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check each step against the user's family roles.
+ *
+ * Returns { denied, shared }: denied lists the steps the user may not run, and
+ * shared is true when the transaction writes to another parent's kid data that
+ * the user's role allows them to edit. Shared transactions bypass permission
+ * rules, so every step in them must be vouched for here. Records whose owner
+ * can't be found, either in the database, in `deletedOwners` (owners of
+ * deleted records, from their tombstones) or through the transaction's own
+ * links, are denied.
+ */
+export async function authorizeSteps(
+  steps: TransactStep[],
+  user: UserInfo,
+  memberships: FamilyMembership[],
+  env: Env,
+  deletedOwners: Map<string, RecordOwner> = new Map()
+): Promise<{ denied: DeniedStep[]; shared: boolean }> {
+  if (memberships.length === 0) {
+    return { denied: [], shared: false };
+  }
+
+  const roleByFamily = new Map(memberships.map((m) => [m.familyId, m.role]));
+  const refsByStep = steps.map(stepRefs);
+  const owners = await resolveOwners(refsByStep.flat(), env);
+  for (const [key, owner] of deletedOwners) {
+    if (!owners.has(key)) {
+      owners.set(key, owner);
+    }
+  }
+  inferNewOwners(steps, owners);
+
+  // First pass: classify each ref as own data, shared data or forbidden
+  let shared = false;
+  const verdicts = refsByStep.map((refs) => refs.map((ref): Verdict => {
+    const owner = owners.get(`${ref.entity}:${ref.id}`);
+    if (!owner) {
+      return 'forbidden';
+    }
+    if (owner.parentId === user.id) {
+      return 'own';
+    }
+    const role = owner.familyId ? roleByFamily.get(owner.familyId) : undefined;
+    if (role && ROLE_WRITABLE_ENTITIES[role]?.includes(ref.entity)) {
+      shared = true;
+      return 'shared';
+    }
+    return role ? 'forbidden' : 'foreign';
+  }));
+
+  const denied: DeniedStep[] = [];
+  steps.forEach((step, index) => {
+    const refs = refsByStep[index];
+    const verdict = verdicts[index];
+
+    // A viewer (or a member whose role doesn't cover the entity) is always rejected
+    const forbidden = verdict.indexOf('forbidden');
+    if (forbidden !== -1) {
+      denied.push({ index, entity: refs[forbidden].entity, id: refs[forbidden].id });
+      return;
+    }
+
+    // Only the kid's parent may move it to another parent or family
+    const [action, entity, id, attrs] = step;
+    if (entity === 'kidProfiles' && (action === 'link' || action === 'unlink') && attrs) {
+      const changesParentOnlyLink = PARENT_ONLY_LINKS.some((label) => attrs[label] !== undefined);
+      const isParent = verdict[0] === 'own' && (action === 'unlink' || attrs.parent === undefined || attrs.parent === user.id);
+      if (changesParentOnlyLink && !isParent) {
+        denied.push({ index, entity, id });
+        return;
+      }
+    }
+
+    if (!shared) {
+      return;
+    }
+
+    // Without impersonation, anything not vouched for above must be rejected
+    const foreign = verdict.indexOf('foreign');
+    if (!isKidDataEntity(entity) || foreign !== -1) {
+      denied.push({ index, entity, id });
+    }
+  });
+
+  return { denied, shared };
+}
+
+/**
+ * Link kid profiles the user creates to the family they own, so family
+ * members can see them. Returns the steps to forward to InstantDB.
+ */
+export async function withFamilyLinks(steps: TransactStep[], user: UserInfo, env: Env): Promise<TransactStep[]> {
+  const newKidIds = steps
+    .filter(([action, entity, , attrs]) => action === 'link' && entity === 'kidProfiles' && attrs?.parent === user.id)
+    .map(([, , id]) => id);
+
+  if (newKidIds.length === 0) {
+    return steps;
+  }
+
+  const result = await adminQuery({
+    families: { $: { where: { ownerId: user.id } } },
+  }, env);
+
+  const familyId = result.families?.[0]?.id;
+  if (!familyId) {
+    return steps;
+  }
+
+  return [
+    ...steps,
+    ...newKidIds.map((kidId): TransactStep => ['link', 'kidProfiles', kidId, { family: familyId }]),
+  ];
+}
@@ -0,0 +1,178 @@
+/**
+ * Request authentication
+ *
+ * Requests authenticate with an access token from the auth proxy's /auth/session
+ * endpoint (`Authorization: Bearer ...`). A `refresh_token` in the JSON body is
+ * still accepted for older app versions.
+ */
+
+import { CacheApiTokenCacheStore, KVTokenCacheStore, TokenVerificationCache } from '../../shared/tokenCache';
+import { INSTANTDB_API } from './instantdb';
+import { Env, UserInfo } from './types';
+
+export interface AuthResult {
+  user: UserInfo;
+  /** Admin API headers that make InstantDB act as the user */
+  impersonation: Record<string, string>;
+}
+
+interface AccessTokenClaims {
+  iss: string;
+  sub: string;
+  email: string;
+  iat: number;
+  exp: number;
+}
+
+// Created on first use so hit/miss metrics accumulate for the isolate's lifetime
+let tokenCache: TokenVerificationCache | null = null;
+
+export function getTokenCache(env: Env): TokenVerificationCache {
+  if (!tokenCache) {
+    tokenCache = new TokenVerificationCache(
+      env.TOKEN_CACHE_KV ? new KVTokenCacheStore(env.TOKEN_CACHE_KV) : new CacheApiTokenCacheStore(caches.default)
+    );
+  }
+  return tokenCache;
+}
+
+/**
+ * Authenticate a request
+ * Returns the user and impersonation headers, or null if unauthenticated
+ */
+export async function authenticate(
+  request: Request,
+  body: { refresh_token?: unknown },
+  env: Env
+): Promise<AuthResult | null> {
+  const header = request.headers.get('Authorization') || '';
+  const bearer = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+
+  if (bearer) {
+    const claims = await verifyAccessToken(bearer, env.SESSION_SECRET);
+    if (!claims) {
+      return null;
+    }
+    return {
+      user: { id: claims.sub, email: claims.email },
+      impersonation: { 'As-Email': claims.email },
+    };
+  }
+
+  if (typeof body.refresh_token === 'string' && body.refresh_token) {
+    const user = await verifyRefreshToken(body.refresh_token, env);
+    if (!user) {
+      return null;
+    }
+    return {
+      user,
+      impersonation: { 'As-Token': body.refresh_token },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check a request carries the InstantDB admin token (`Authorization: Bearer ...`),
+ * for operator-only endpoints such as migrations
+ */
+export function isAdminRequest(request: Request, env: Env): boolean {
+  const header = request.headers.get('Authorization') || '';
+  const bearer = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || '';
+  const expected = env.INSTANTDB_ADMIN_TOKEN || '';
+  if (!expected || bearer.length !== expected.length) {
+    return false;
+  }
+
+  // Compare in constant time
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= bearer.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Verify an HS256 access token issued by the auth proxy
+ * Returns its claims, or null if invalid or expired
+ */
+async function verifyAccessToken(token: string, secret: string): Promise<AccessTokenClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !secret) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  try {
+    if (JSON.parse(decoder.decode(base64UrlDecode(header))).alg !== 'HS256') {
+      return null;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), encoder.encode(`${header}.${payload}`));
+    if (!valid) {
+      return null;
+    }
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(payload))) as AccessTokenClaims;
+    if (claims.iss !== 'mighty-auth' || !claims.sub || !claims.email || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return claims;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Verify a refresh token, using cached results when available (see shared/tokenCache.ts)
+ * Returns the user ({ id, email }) or null if the token is invalid
+ */
+async function verifyRefreshToken(refreshToken: string, env: Env): Promise<UserInfo | null> {
+  return getTokenCache(env).getOrVerify(refreshToken, (token) => verifyRefreshTokenUpstream(token, env));
+}
+
+/**
+ * Verify a refresh token with InstantDB
+ * Returns the user ({ id, email }) or null if the token is invalid
+ */
+async function verifyRefreshTokenUpstream(refreshToken: string, env: Env): Promise<UserInfo | null> {
+  try {
+    const response = await fetch(`${INSTANTDB_API}/runtime/auth/verify_refresh_token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        'app-id': env.INSTANTDB_APP_ID,
+        'refresh-token': refreshToken,
+      }),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json() as { user?: UserInfo };
+    return data.user || null;
+  } catch (error) {
+    console.error('Token verification error:', error);
+    return null;
+  }
+}
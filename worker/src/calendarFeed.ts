@@ -0,0 +1,148 @@
+/**
+ * Subscribable calendar feeds
+ *
+ * - GET /calendar/{secret}.ics - A kid's or a family's activities as iCalendar
+ *
+ * Feeds are created, rotated and revoked through the auth proxy's
+ * /family/create-calendar-feed, /family/rotate-calendar-feed and
+ * /family/revoke-calendar-feed endpoints, which store a SHA-256 hash of the
+ * secret in `calendarFeeds`. Calendar apps can't send credentials, so the
+ * secret in the URL is the only authentication. Entries are read by
+ * impersonating the feed's creator, so a feed stops showing a family's kids
+ * as soon as its creator loses access to them.
+ */
+
+import { hashToken } from '../../shared/tokenCache';
+import { civilDayAt, isValidTimeZone, timeOfDayAt } from './dates';
+import { CalendarEvent, CalendarTime, renderCalendar } from './ics';
+import { adminQuery, userQuery } from './instantdb';
+import { legacyRecurrenceRRule, recurringEntryError, RecurringEntry, withoutMaterializedInstances } from './recurrence';
+import { parseExdate } from './rrule';
+import { Env } from './types';
+
+// How long calendar apps and caches may reuse a feed
+const FEED_MAX_AGE_SECONDS = 15 * 60;
+
+interface FeedKid {
+  name?: string;
+  customSections?: {
+    name?: string;
+    customEntries?: (RecurringEntry & Record<string, any>)[];
+  }[];
+}
+
+function notFound(): Response {
+  return new Response('Calendar not found', { status: 404, headers: { 'Content-Type': 'text/plain' } });
+}
+
+/**
+ * The calendar time of an entry's date and optional time of day
+ */
+function calendarTime(date: string, time: string | null | undefined, timeZone: string): CalendarTime {
+  return {
+    day: civilDayAt(Date.parse(date), timeZone),
+    time: time && !Number.isNaN(Date.parse(time)) ? timeOfDayAt(Date.parse(time), timeZone) : null,
+  };
+}
+
+/**
+ * Turn a kid's sections and entries into calendar events.
+ * Recurring entries become one event with an RRULE; the instances the app
+ * materializes for the same recurrence group are left out. Templates no
+ * RRULE matches are left out instead, and their instances listed.
+ */
+function kidEvents(kid: FeedKid, timeZone: string, prefixKidName: boolean): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  for (const section of kid.customSections || []) {
+    const rules = new Map((section.customEntries || []).map((entry) => [entry, entry.rrule || legacyRecurrenceRRule(entry, timeZone)]));
+    const entries = (section.customEntries || []).filter((entry) => !entry.isRecurrenceTemplate || rules.get(entry));
+
+    for (const entry of withoutMaterializedInstances(entries)) {
+      if (recurringEntryError(entry)) {
+        continue;
+      }
+
+      const start = calendarTime(entry.date, entry.startTime, timeZone);
+      const endDate = typeof entry.endDate === 'string' && !Number.isNaN(Date.parse(entry.endDate)) ? entry.endDate : entry.date;
+      const end = start.time === null
+        ? calendarTime(endDate, null, timeZone)
+        : entry.endTime ? calendarTime(endDate, entry.endTime, timeZone) : null;
+
+      const title = entry.title || section.name || 'Activity';
+      const rrule = rules.get(entry) ?? null;
+
+      events.push({
+        uid: `${entry.id}@mighty-app.com`,
+        summary: prefixKidName && kid.name ? `${kid.name}: ${title}` : title,
+        description: entry.notes,
+        categories: section.name ? [section.name] : [],
+        start,
+        end,
+        rrule,
+        exdates: (entry.exdates || []).map((exdate) => parseExdate(exdate, timeZone)!),
+        lastModified: entry.updatedAt,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Handle GET /calendar/{secret}.ics
+ */
+export async function handleCalendarFeed(secret: string, env: Env): Promise<Response> {
+  const feedQuery = await adminQuery({
+    calendarFeeds: { $: { where: { tokenHash: await hashToken(secret) } } },
+  }, env);
+  const feed = feedQuery.calendarFeeds?.[0];
+  if (!feed) {
+    return notFound();
+  }
+
+  const ownerQuery = await adminQuery({ $users: { $: { where: { id: feed.ownerId } } } }, env);
+  const email = ownerQuery.$users?.[0]?.email;
+  if (!email) {
+    return notFound();
+  }
+  const impersonation = { 'As-Email': email };
+  const timeZone = isValidTimeZone(feed.timeZone) ? feed.timeZone : 'UTC';
+  const sections = { customSections: { customEntries: {} } };
+
+  let kids: FeedKid[];
+  let name: string;
+
+  if (feed.kidProfileId) {
+    const result = await userQuery({
+      kidProfiles: { $: { where: { id: feed.kidProfileId } }, ...sections },
+    }, impersonation, env);
+    kids = result.kidProfiles || [];
+    if (kids.length === 0) {
+      return notFound();
+    }
+    name = `${kids[0].name || 'Kid'} · Mighty`;
+  } else {
+    const result = await userQuery({
+      families: { $: { where: { id: feed.familyId } } },
+      kidProfiles: { $: { where: { 'family.id': feed.familyId } }, ...sections },
+    }, impersonation, env);
+    const family = result.families?.[0];
+    if (!family) {
+      return notFound();
+    }
+    kids = result.kidProfiles || [];
+    name = `${family.name || 'Family'} · Mighty`;
+  }
+
+  const events = kids.flatMap((kid) => kidEvents(kid, timeZone, !feed.kidProfileId));
+  const body = renderCalendar({ name: feed.name || name, timeZone, events });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="mighty.ics"',
+      'Cache-Control': `private, max-age=${FEED_MAX_AGE_SECONDS}`,
+    },
+  });
+}
@@ -0,0 +1,183 @@
+/**
+ * Incremental sync
+ *
+ * POST /db/changes returns the kid data records modified since the client's
+ * last sync, plus tombstones for records deleted since then, so sync cost is
+ * proportional to what changed rather than total history.
+ *
+ * Records are matched by `serverUpdatedAt`, which the proxy stamps on every
+ * write (see withSyncTimestamps), rather than the client's `updatedAt`, so a
+ * device's clock or timestamp format can't hide changes from other devices.
+ * Records written before the stamp existed are matched by `updatedAt` until
+ * they're next written.
+ *
+ * Cursors are ISO timestamps, one per entity plus one for tombstones. Records
+ * are matched with `>=` the cursor, so ones updated at exactly the cursor time
+ * are returned again; clients should apply changes idempotently.
+ */
+
+import { getFamilyMemberships, KidDataEntity } from './access';
+import { AuthResult } from './auth';
+import { userQuery } from './instantdb';
+import { listTombstones, Tombstone } from './tombstones';
+import { Env } from './types';
+import { TransactStep } from './validation';
+
+export const SYNC_ENTITIES: KidDataEntity[] = ['kidProfiles', 'customSections', 'customEntries', 'mediaEntries'];
+
+type CursorKey = KidDataEntity | 'tombstones';
+
+export type SyncCursors = Partial<Record<CursorKey, string>>;
+
+export interface ChangesResult {
+  changes: Record<KidDataEntity, any[]>;
+  deleted: Tombstone[];
+  cursors: SyncCursors;
+}
+
+// Links returned with each record so clients can place it in the tree
+const PARENT_LINKS: Record<KidDataEntity, object> = {
+  kidProfiles: {},
+  customSections: { kidProfile: {} },
+  mediaEntries: { kidProfile: {} },
+  customEntries: { section: {} },
+};
+
+const CURSOR_KEYS: CursorKey[] = [...SYNC_ENTITIES, 'tombstones'];
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Read the starting cursors from a /db/changes body
+ * `cursors` (from the previous response) take precedence over `since`, which
+ * applies to every entity. Returns an error message if either is malformed.
+ */
+export function parseCursors(body: Record<string, any>): SyncCursors | string {
+  const { since, cursors } = body;
+
+  if (since !== undefined && since !== null && !isTimestamp(since)) {
+    return 'since must be an ISO 8601 timestamp';
+  }
+  if (cursors !== undefined && cursors !== null && (typeof cursors !== 'object' || Array.isArray(cursors))) {
+    return 'cursors must be an object';
+  }
+
+  const result: SyncCursors = {};
+  for (const key of CURSOR_KEYS) {
+    const cursor = cursors?.[key] ?? since;
+    if (cursor === undefined || cursor === null) {
+      continue;
+    }
+    if (!isTimestamp(cursor)) {
+      return `cursors.${key} must be an ISO 8601 timestamp`;
+    }
+    // Stamps are compared as strings, so the cursor must use the same format
+    result[key] = new Date(cursor).toISOString();
+  }
+
+  for (const key of Object.keys(cursors || {})) {
+    if (!CURSOR_KEYS.includes(key as CursorKey)) {
+      return `unknown cursor "${key}"`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stamp the server's time on every kid data record the steps write. Records
+ * that are only linked or unlinked get an update step carrying the stamp,
+ * unless the transaction deletes them.
+ */
+export function withSyncTimestamps(steps: TransactStep[], now: Date = new Date()): TransactStep[] {
+  const serverUpdatedAt = now.toISOString();
+  const isSynced = (entity: string) => (SYNC_ENTITIES as string[]).includes(entity);
+  const key = (entity: string, id: string) => `${entity}:${id}`;
+
+  const written = new Set<string>();
+  const stamped = steps.map((step): TransactStep => {
+    const [action, entity, id, attrs, options] = step;
+    if (!isSynced(entity)) {
+      return step;
+    }
+    if (action === 'update' || action === 'merge' || action === 'delete') {
+      written.add(key(entity, id));
+    }
+    if (action === 'update' || action === 'merge') {
+      return options
+        ? [action, entity, id, { ...attrs, serverUpdatedAt }, options]
+        : [action, entity, id, { ...attrs, serverUpdatedAt }];
+    }
+    return step;
+  });
+
+  for (const [action, entity, id] of steps) {
+    if ((action === 'link' || action === 'unlink') && isSynced(entity) && !written.has(key(entity, id))) {
+      written.add(key(entity, id));
+      stamped.push(['update', entity, id, { serverUpdatedAt }]);
+    }
+  }
+
+  return stamped;
+}
+
+/**
+ * Query one entity's changed records as the user, so permission rules decide
+ * which records (their own and their families') are visible
+ */
+async function changedRecords(entity: KidDataEntity, since: string | undefined, auth: AuthResult, env: Env): Promise<any[]> {
+  const changedSince = {
+    or: [
+      { serverUpdatedAt: { $gte: since } },
+      { and: [{ serverUpdatedAt: { $isNull: true } }, { updatedAt: { $gte: since } }] },
+    ],
+  };
+  const query = {
+    [entity]: {
+      ...(since ? { $: { where: changedSince } } : {}),
+      ...PARENT_LINKS[entity],
+    },
+  };
+
+  const data = await userQuery(query, auth.impersonation, env);
+  return data[entity] || [];
+}
+
+/**
+ * Latest timestamp among the records, or the previous cursor if none is later
+ */
+function advance(cursor: string | undefined, timestamps: (string | undefined)[]): string | undefined {
+  let latest = cursor;
+  for (const timestamp of timestamps) {
+    if (isTimestamp(timestamp) && (!latest || Date.parse(timestamp) > Date.parse(latest))) {
+      latest = timestamp;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Collect everything that changed for the user since the given cursors
+ */
+export async function getChanges(cursors: SyncCursors, auth: AuthResult, env: Env): Promise<ChangesResult> {
+  const memberships = await getFamilyMemberships(auth.user.id, env);
+  const familyIds = memberships.map((membership) => membership.familyId);
+
+  const [records, deleted] = await Promise.all([
+    Promise.all(SYNC_ENTITIES.map((entity) => changedRecords(entity, cursors[entity], auth, env))),
+    listTombstones(auth.user, familyIds, cursors.tombstones || null, env),
+  ]);
+
+  const changes = {} as Record<KidDataEntity, any[]>;
+  const nextCursors: SyncCursors = {};
+
+  SYNC_ENTITIES.forEach((entity, index) => {
+    changes[entity] = records[index];
+    nextCursors[entity] = advance(cursors[entity], records[index].map((record) => record.serverUpdatedAt));
+  });
+  nextCursors.tombstones = advance(cursors.tombstones, deleted.map((tombstone) => tombstone.deletedAt));
+
+  return { changes, deleted, cursors: nextCursors };
+}
@@ -0,0 +1,93 @@
+/**
+ * Optimistic concurrency for updates
+ *
+ * An update step may carry the `serverUpdatedAt` the client last saw, as a
+ * fifth element: ["update", "customEntries", id, attrs, { expectedUpdatedAt }].
+ * If the stored record has moved on, the write is stale and the transaction
+ * is rejected with the current server copy, so the app can merge instead of
+ * silently overwriting another parent's edit.
+ *
+ * The check uses the write time the proxy stamps (see withSyncTimestamps),
+ * not the client-written `updatedAt`, so a writer that doesn't bump
+ * `updatedAt` can't make later stale writes pass. Records written before the
+ * stamp existed are compared by `updatedAt` until they're next written.
+ *
+ * The check and the write are separate requests, so two writes arriving at
+ * the same moment can both pass; this catches the common case, not every race.
+ */
+
+import { AuthResult } from './auth';
+import { userQuery } from './instantdb';
+import { Env } from './types';
+import { TransactStep } from './validation';
+
+export interface Conflict {
+  index: number;
+  entity: string;
+  id: string;
+  expectedUpdatedAt: string;
+  /** The stored record's write time, to send as expectedUpdatedAt after merging */
+  serverUpdatedAt: string | null;
+  /** The stored record, or null if it doesn't exist (or isn't visible to the user) */
+  current: Record<string, unknown> | null;
+}
+
+function sameTimestamp(a: unknown, b: string): boolean {
+  if (typeof a !== 'string') {
+    return false;
+  }
+  return a === b || Date.parse(a) === Date.parse(b);
+}
+
+/** When the record was last written, as far as the server knows */
+function writtenAt(record: Record<string, unknown>): unknown {
+  return record.serverUpdatedAt ?? record.updatedAt;
+}
+
+/**
+ * Find update steps whose expected write time no longer matches the stored record
+ */
+export async function findConflicts(steps: TransactStep[], auth: AuthResult, env: Env): Promise<Conflict[]> {
+  const checked = steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => step[4]?.expectedUpdatedAt !== undefined);
+
+  if (checked.length === 0) {
+    return [];
+  }
+
+  const idsByEntity = new Map<string, Set<string>>();
+  for (const { step: [, entity, id] } of checked) {
+    if (!idsByEntity.has(entity)) {
+      idsByEntity.set(entity, new Set());
+    }
+    idsByEntity.get(entity)!.add(id);
+  }
+
+  // Read as the user so a conflict never reveals a record they can't see
+  const current = new Map<string, Record<string, unknown>>();
+  for (const [entity, ids] of idsByEntity) {
+    const result = await userQuery({ [entity]: { $: { where: { id: { $in: [...ids] } } } } }, auth.impersonation, env);
+    for (const record of result[entity] || []) {
+      current.set(`${entity}:${record.id}`, record);
+    }
+  }
+
+  const conflicts: Conflict[] = [];
+  for (const { step: [, entity, id, , options], index } of checked) {
+    const expectedUpdatedAt = options!.expectedUpdatedAt!;
+    const record = current.get(`${entity}:${id}`) || null;
+    const written = record ? writtenAt(record) : null;
+    if (!record || !sameTimestamp(written, expectedUpdatedAt)) {
+      conflicts.push({ index, entity, id, expectedUpdatedAt, serverUpdatedAt: typeof written === 'string' ? written : null, current: record });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Drop proxy-only step options before forwarding steps to InstantDB
+ */
+export function withoutStepOptions(steps: TransactStep[]): TransactStep[] {
+  return steps.map((step) => (step.length > 4 ? step.slice(0, 4) as TransactStep : step));
+}
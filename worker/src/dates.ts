@@ -0,0 +1,164 @@
+/**
+ * Calendar date and time zone helpers
+ *
+ * Schedules are computed on calendar ("civil") dates, represented as whole
+ * days since 1970-01-01, so date arithmetic never crosses a DST transition.
+ * Times of day are turned into instants only at the end, in the user's IANA
+ * time zone, which keeps a 9:00 activity at 9:00 local on both sides of DST.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days since 1970-01-01 */
+export type CivilDay = number;
+
+// Years schedules are computed in. Dates outside them are rejected rather
+// than expanded, however far from a requested range they are.
+export const MIN_YEAR = 1900;
+export const MAX_YEAR = 2200;
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Parse a `YYYY-MM-DD` date
+ * Returns null if it isn't a valid date
+ */
+export function parseCivilDate(value: unknown): CivilDay | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const ms = Date.UTC(year, month - 1, day);
+  const date = new Date(ms);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return ms / DAY_MS;
+}
+
+/** Whether an instant falls in a year from MIN_YEAR to MAX_YEAR */
+export function isSupportedYear(instantMs: number): boolean {
+  const year = new Date(instantMs).getUTCFullYear();
+  return year >= MIN_YEAR && year <= MAX_YEAR;
+}
+
+/** Whole months from one day's month to another's */
+export function monthsBetween(from: CivilDay, to: CivilDay): number {
+  const a = new Date(from * DAY_MS);
+  const b = new Date(to * DAY_MS);
+  return (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + b.getUTCMonth() - a.getUTCMonth();
+}
+
+/** Format a day as `YYYY-MM-DD` */
+export function formatCivilDate(day: CivilDay): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Day of the week, numbered like Foundation's Calendar: 1 = Sunday ... 7 = Saturday */
+export function weekdayOf(day: CivilDay): number {
+  return new Date(day * DAY_MS).getUTCDay() + 1;
+}
+
+/**
+ * Add months to a day, clamping to the end of shorter months
+ * (Jan 31 + 1 month = Feb 28 or 29)
+ */
+export function addMonths(day: CivilDay, months: number): CivilDay {
+  const date = new Date(day * DAY_MS);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)) / DAY_MS;
+}
+
+// ============================================
+// TIME ZONES
+// ============================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone === '') {
+    return false;
+  }
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * The wall clock time in a time zone at an instant, expressed as if it were UTC
+ */
+function wallClockMs(instantMs: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instantMs))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** The calendar date in a time zone at an instant */
+export function civilDayAt(instantMs: number, timeZone: string): CivilDay {
+  return Math.floor(wallClockMs(instantMs, timeZone) / DAY_MS);
+}
+
+/** The time zone's offset from UTC at an instant, in minutes */
+export function utcOffsetAt(instantMs: number, timeZone: string): number {
+  const instant = Math.floor(instantMs / 1000) * 1000;
+  return Math.round((wallClockMs(instant, timeZone) - instant) / 60000);
+}
+
+/** The time of day in a time zone at an instant */
+export function timeOfDayAt(instantMs: number, timeZone: string): TimeOfDay {
+  const date = new Date(wallClockMs(instantMs, timeZone));
+  return { hour: date.getUTCHours(), minute: date.getUTCMinutes() };
+}
+
+/**
+ * The instant a wall clock time occurs on a day in a time zone.
+ * Times skipped by a DST change are moved forward by the size of the gap
+ * (02:30 becomes 03:30), and times that happen twice use the first.
+ */
+export function instantAt(day: CivilDay, time: TimeOfDay, timeZone: string): Date {
+  const local = day * DAY_MS + (time.hour * 60 + time.minute) * 60 * 1000;
+
+  // Offsets on either side of any transition that day
+  const before = wallClockMs(local - DAY_MS, timeZone) - (local - DAY_MS);
+  const after = wallClockMs(local + DAY_MS, timeZone) - (local + DAY_MS);
+
+  const matches = [local - before, local - after].filter((instant) => wallClockMs(instant, timeZone) === local);
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  return new Date(local - before);
+}
@@ -0,0 +1,79 @@
+/**
+ * Response and CORS helpers
+ */
+
+/**
+ * Helper: Create JSON response with CORS headers
+ */
+export function jsonResponse(data: unknown, status: number = 200, request: Request | null = null): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders(request),
+    },
+  });
+}
+
+/**
+ * Helper: CORS headers
+ * Restricted to specific origins for security
+ * iOS native apps don't require CORS, but this protects against web-based attacks
+ */
+export function corsHeaders(request: Request | null = null): Record<string, string> {
+  const origin = request?.headers?.get('Origin') || '';
+
+  // Allow specific origins only
+  // Add your web domains here if you have a web app
+  const allowedOrigins = [
+    'https://mighty-app.com',
+    'https://www.mighty-app.com',
+    // Allow localhost for development
+    'http://localhost:3000',
+    'http://localhost:8080',
+  ];
+
+  // For iOS native requests, Origin header is typically not sent
+  // We allow requests without Origin (native apps) but restrict web origins
+  const allowOrigin = origin === '' || allowedOrigins.includes(origin)
+    ? (origin || 'https://mighty-app.com')
+    : 'https://mighty-app.com';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400', // Cache preflight for 24 hours
+  };
+}
+
+/**
+ * Helper: Handle CORS preflight
+ */
+export function handleCORS(request: Request): Response {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders(request),
+  });
+}
+
+/**
+ * Parse a request body as a JSON object
+ * Returns null if it is malformed
+ */
+export function parseBody(text: string): Record<string, any> | null {
+  try {
+    const body = JSON.parse(text);
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read the request body as a JSON object
+ * Returns null if it is malformed
+ */
+export async function readBody(request: Request): Promise<Record<string, any> | null> {
+  return parseBody(await request.text());
+}
@@ -0,0 +1,358 @@
+/**
+ * iCalendar (RFC 5545) rendering and parsing
+ *
+ * Events are written in the calendar's IANA time zone (DTSTART;TZID=...), so
+ * recurring activities stay at the same local time across DST changes. A
+ * VTIMEZONE describing that zone's offsets is generated from the runtime's
+ * time zone data for the years the calendar covers.
+ *
+ * Parsing turns a document into its components and properties, unfolding
+ * lines and reading parameters; interpreting events is left to the caller.
+ */
+
+import { CivilDay, DAY_MS, formatCivilDate, instantAt, TimeOfDay, utcOffsetAt } from './dates';
+import { formatRRule, parseRRule, untilDay } from './rrule';
+
+const MINUTE_MS = 60 * 1000;
+
+// Most years of time zone transitions a VTIMEZONE describes
+const MAX_TIMEZONE_YEARS = 20;
+
+export interface CalendarTime {
+  day: CivilDay;
+  /** Null for all-day events */
+  time: TimeOfDay | null;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  categories?: string[];
+  start: CalendarTime;
+  /** Inclusive last day for all-day events; the end time for timed events */
+  end?: CalendarTime | null;
+  /** An RRULE value, as accepted by parseRRule */
+  rrule?: string | null;
+  exdates?: CivilDay[];
+  lastModified?: string | null;
+}
+
+export interface Calendar {
+  name: string;
+  timeZone: string;
+  events: CalendarEvent[];
+}
+
+/** Escape a TEXT value */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line into lines of at most 75 octets, without splitting characters */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatDate(day: CivilDay): string {
+  return formatCivilDate(day).replace(/-/g, '');
+}
+
+function formatLocal(day: CivilDay, time: TimeOfDay): string {
+  return `${formatDate(day)}T${pad(time.hour)}${pad(time.minute)}00`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/** A DTSTART/DTEND/EXDATE property for a day or local time */
+function dateProperty(name: string, values: CalendarTime[], timeZone: string): string {
+  if (values[0].time === null) {
+    return `${name};VALUE=DATE:${values.map(({ day }) => formatDate(day)).join(',')}`;
+  }
+  return `${name};TZID=${timeZone}:${values.map(({ day, time }) => formatLocal(day, time!)).join(',')}`;
+}
+
+/**
+ * Rewrite a rule's UNTIL in the form RFC 5545 requires for the event's DTSTART:
+ * a date for all-day events, a UTC date-time for timed ones
+ */
+function eventRRule(value: string, start: CalendarTime, timeZone: string): string | null {
+  const rule = parseRRule(value);
+  if (typeof rule === 'string') {
+    return null;
+  }
+  const until = untilDay(rule, timeZone);
+  if (until !== null) {
+    rule.until = start.time === null ? formatDate(until) : formatUtc(instantAt(until, start.time, timeZone));
+  }
+  return formatRRule(rule);
+}
+
+/**
+ * The instants in [from, to) where a time zone's offset changes,
+ * with the offsets before and after each
+ */
+function offsetTransitions(timeZone: string, from: number, to: number): { at: number; before: number; after: number }[] {
+  const transitions: { at: number; before: number; after: number }[] = [];
+  const step = 7 * DAY_MS;
+
+  for (let start = from; start < to; start += step) {
+    const before = utcOffsetAt(start, timeZone);
+    const after = utcOffsetAt(start + step, timeZone);
+    if (before === after) {
+      continue;
+    }
+
+    // Narrow down to the first minute with the new offset
+    let low = start;
+    let high = start + step;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (utcOffsetAt(middle, timeZone) === before) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ at: high, before, after: utcOffsetAt(high, timeZone) });
+  }
+  return transitions;
+}
+
+/**
+ * A VTIMEZONE for the years [fromYear, toYear], listing each transition
+ */
+function timeZoneComponent(timeZone: string, fromYear: number, toYear: number): string[] {
+  const from = Date.UTC(fromYear, 0, 1);
+  const transitions = offsetTransitions(timeZone, from, Date.UTC(toYear + 1, 0, 1));
+  const initial = utcOffsetAt(from, timeZone);
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const observance = (kind: string, start: string, before: number, after: number) => {
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${start}`,
+      `TZOFFSETFROM:${formatOffset(before)}`,
+      `TZOFFSETTO:${formatOffset(after)}`,
+      `END:${kind}`
+    );
+  };
+
+  // The offset in force before the first transition
+  const initialKind = transitions.length > 0 && transitions[0].after < initial ? 'DAYLIGHT' : 'STANDARD';
+  observance(initialKind, '19700101T000000', initial, initial);
+
+  for (const { at, before, after } of transitions) {
+    // DTSTART is the local time of the transition, before it takes effect
+    const local = new Date(at + before * MINUTE_MS);
+    const start = formatUtc(local).replace('Z', '');
+    observance(after > before ? 'DAYLIGHT' : 'STANDARD', start, before, after);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Render a calendar as an iCalendar document
+ */
+export function renderCalendar(calendar: Calendar, now: Date = new Date()): string {
+  const { timeZone, events } = calendar;
+  const stamp = formatUtc(now);
+
+  const thisYear = now.getUTCFullYear();
+  const firstYear = events.reduce((year, event) => Math.min(year, new Date(event.start.day * DAY_MS).getUTCFullYear()), thisYear);
+  const fromYear = Math.max(firstYear, thisYear + 2 - MAX_TIMEZONE_YEARS + 1);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Mighty//Mighty Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...timeZoneComponent(timeZone, fromYear, thisYear + 2),
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`, dateProperty('DTSTART', [event.start], timeZone));
+
+    if (event.start.time === null) {
+      // DTEND is exclusive for all-day events
+      const lastDay = event.end && event.end.day > event.start.day ? event.end.day : event.start.day;
+      lines.push(dateProperty('DTEND', [{ day: lastDay + 1, time: null }], timeZone));
+    } else if (event.end?.time) {
+      lines.push(dateProperty('DTEND', [event.end], timeZone));
+    }
+
+    const rrule = event.rrule ? eventRRule(event.rrule, event.start, timeZone) : null;
+    if (rrule) {
+      lines.push(`RRULE:${rrule}`);
+      if (event.exdates && event.exdates.length > 0) {
+        lines.push(dateProperty('EXDATE', event.exdates.map((day) => ({ day, time: event.start.time })), timeZone));
+      }
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    if (event.lastModified && !Number.isNaN(Date.parse(event.lastModified))) {
+      lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.lastModified))}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+export interface IcsProperty {
+  name: string;
+  /** Parameter names are upper-cased; quoted values are unquoted */
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+/** Unescape a TEXT value */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a content line at the first unquoted occurrence of any of `separators`
+ */
+function splitUnquoted(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && separators.includes(char)) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse one unfolded content line, or return null if it is malformed
+ */
+function parseContentLine(line: string): IcsProperty | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) {
+    return null;
+  }
+
+  const [name, ...paramParts] = splitUnquoted(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const equals = part.indexOf('=');
+    if (equals <= 0) {
+      return null;
+    }
+    params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"(.*)"$/, '$1');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse an iCalendar document
+ * Returns its VCALENDAR component, or an error message describing the first problem
+ */
+export function parseCalendar(text: string): IcsComponent | string {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const root: IcsComponent = { name: '', properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() === '') {
+      continue;
+    }
+    const property = parseContentLine(line);
+    if (!property) {
+      return `Line ${index + 1} is not a valid iCalendar content line`;
+    }
+
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length === 1 || current.name !== property.value.toUpperCase()) {
+        return `Line ${index + 1}: END:${property.value} does not match BEGIN:${current.name || '(none)'}`;
+      }
+      stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  if (stack.length > 1) {
+    return `BEGIN:${stack[stack.length - 1].name} is never closed`;
+  }
+  const calendar = root.components.find((component) => component.name === 'VCALENDAR');
+  return calendar || 'No VCALENDAR found';
+}
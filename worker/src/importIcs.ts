@@ -0,0 +1,359 @@
+/**
+ * Calendar import
+ *
+ * - POST /import/ics - Preview or create customEntries from an iCalendar file
+ *
+ * VEVENTs are mapped onto customEntries in one section: SUMMARY becomes the
+ * title, DESCRIPTION and LOCATION the notes, and RRULE/EXDATE the entry's
+ * `rrule` and `exdates` (plus the legacy recurrence fields when they can
+ * express the rule). Times are converted from the event's TZID, UTC or
+ * floating time into the user's time zone. Changed instances of a recurring
+ * event (RECURRENCE-ID) become separate entries, excluded from the series.
+ *
+ * Requests are a dry run unless `dryRun` is false. Events matching an
+ * existing entry in the section, or an earlier event in the file, by title
+ * and day are flagged as duplicates and skipped unless `includeDuplicates`
+ * is set. Entries are written through the same checks as /db/transact.
+ */
+
+import { authenticate } from './auth';
+import { CivilDay, civilDayAt, DAY_MS, formatCivilDate, instantAt, isValidTimeZone, parseCivilDate } from './dates';
+import { jsonResponse, parseBody } from './http';
+import { IcsComponent, IcsProperty, parseCalendar, unescapeText } from './ics';
+import { userQuery } from './instantdb';
+import { MAX_TRANSACT_BODY_BYTES, MAX_TRANSACT_STEPS } from './policy';
+import { legacyRecurrenceFields } from './recurrence';
+import { formatRRule, parseRRule } from './rrule';
+import { runTransaction } from './transact';
+import { Env } from './types';
+
+// Each entry takes an update and a link step
+const MAX_IMPORT_EVENTS = MAX_TRANSACT_STEPS / 2;
+
+export interface ImportedEntry {
+  /** The event's UID, if it had one */
+  uid: string | null;
+  /** Calendar date of the first occurrence in the user's time zone, `YYYY-MM-DD` */
+  day: string;
+  duplicate: boolean;
+  /** The customEntries attributes that will be written */
+  attrs: Record<string, unknown>;
+}
+
+interface EventTime {
+  day: CivilDay;
+  /** Null for all-day values */
+  instant: number | null;
+}
+
+/** An ISO 8601 timestamp with second precision, as the app writes them */
+function isoString(instant: number): string {
+  return new Date(instant).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function property(event: IcsComponent, name: string): IcsProperty | undefined {
+  return event.properties.find((p) => p.name === name);
+}
+
+function text(event: IcsComponent, name: string): string | null {
+  const value = property(event, name)?.value;
+  return value ? unescapeText(value).trim() : null;
+}
+
+/**
+ * Read a DATE or DATE-TIME value in the user's time zone.
+ * A TZID that isn't an IANA zone falls back to its VTIMEZONE's X-LIC-LOCATION,
+ * then to the user's zone, with a warning.
+ */
+function eventTime(
+  value: string,
+  params: Record<string, string>,
+  zones: Map<string, string>,
+  timeZone: string,
+  warn: (message: string) => void
+): EventTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  const day = match ? parseCivilDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+  if (!match || day === null) {
+    return null;
+  }
+  if (!match[4]) {
+    return { day, instant: null };
+  }
+
+  const time = { hour: Number(match[4]), minute: Number(match[5]) };
+  let instant: number;
+  if (match[7]) {
+    instant = day * DAY_MS + ((time.hour * 60 + time.minute) * 60 + Number(match[6])) * 1000;
+  } else {
+    let zone = params.TZID ? zones.get(params.TZID) ?? params.TZID : timeZone;
+    if (!isValidTimeZone(zone)) {
+      warn(`Unknown time zone "${params.TZID}"; times were read in ${timeZone}`);
+      zone = timeZone;
+    }
+    instant = instantAt(day, time, zone).getTime();
+  }
+  return { day: civilDayAt(instant, timeZone), instant };
+}
+
+/**
+ * Parse an iCalendar DURATION (e.g. `PT1H30M`, `P1D`, `P2W`) into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || value.trim().endsWith('T')) {
+    return null;
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0');
+  const ms = ((((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Map a VEVENT onto customEntries attributes, or return null (with a warning) to skip it.
+ * `exdates` starts with days excluded from the series elsewhere in the file;
+ * it is null for a changed instance, whose RRULE is ignored.
+ */
+function eventEntry(
+  event: IcsComponent,
+  zones: Map<string, string>,
+  timeZone: string,
+  exdates: string[] | null,
+  warn: (message: string) => void
+): { start: EventTime; attrs: Record<string, unknown> } | null {
+  const summary = text(event, 'SUMMARY');
+  const label = summary ? `"${summary}"` : 'An event';
+  const eventWarn = (message: string) => warn(`${label}: ${message}`);
+
+  const dtstart = property(event, 'DTSTART');
+  const start = dtstart && eventTime(dtstart.value, dtstart.params, zones, timeZone, eventWarn);
+  if (!start) {
+    eventWarn('missing or invalid DTSTART; skipped');
+    return null;
+  }
+
+  // The end, from DTEND or DURATION; all-day ends are exclusive
+  let end: EventTime | null = null;
+  const dtend = property(event, 'DTEND');
+  const duration = property(event, 'DURATION');
+  if (dtend) {
+    end = eventTime(dtend.value, dtend.params, zones, timeZone, eventWarn);
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) {
+      end = start.instant === null
+        ? { day: start.day + Math.round(ms / DAY_MS), instant: null }
+        : { day: civilDayAt(start.instant + ms, timeZone), instant: start.instant + ms };
+    }
+  }
+
+  const notes = [text(event, 'DESCRIPTION'), text(event, 'LOCATION') && `Location: ${text(event, 'LOCATION')}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const attrs: Record<string, unknown> = {
+    title: summary || 'Untitled',
+    date: isoString(instantAt(start.day, { hour: 0, minute: 0 }, timeZone).getTime()),
+  };
+  if (notes) {
+    attrs.notes = notes;
+  }
+
+  if (start.instant !== null) {
+    attrs.startTime = isoString(start.instant);
+    if (end?.instant != null && end.instant > start.instant) {
+      attrs.endTime = isoString(end.instant);
+      if (end.day > start.day) {
+        attrs.endDate = isoString(instantAt(end.day, { hour: 0, minute: 0 }, timeZone).getTime());
+      }
+    }
+  } else if (end && end.day - 1 > start.day) {
+    attrs.endDate = isoString(instantAt(end.day - 1, { hour: 0, minute: 0 }, timeZone).getTime());
+  }
+
+  const rruleValue = property(event, 'RRULE')?.value;
+  if (rruleValue && exdates) {
+    const rule = parseRRule(rruleValue);
+    if (typeof rule === 'string') {
+      eventWarn(`${rule}; imported as a single event`);
+    } else {
+      attrs.rrule = formatRRule(rule);
+      attrs.isRecurrenceTemplate = true;
+      attrs.recurrenceGroupId = crypto.randomUUID();
+      const legacy = legacyRecurrenceFields(rule, start.day, timeZone);
+      if (legacy) {
+        Object.assign(attrs, Object.fromEntries(Object.entries(legacy).filter(([, value]) => value != null)));
+      } else {
+        eventWarn('this repeat rule needs an app version with RRULE support to show every occurrence');
+      }
+
+      for (const exdate of event.properties.filter((p) => p.name === 'EXDATE')) {
+        for (const value of exdate.value.split(',')) {
+          const excluded = eventTime(value, exdate.params, zones, timeZone, eventWarn);
+          if (excluded) {
+            exdates.push(formatCivilDate(excluded.day));
+          }
+        }
+      }
+      if (exdates.length > 0) {
+        attrs.exdates = [...new Set(exdates)].sort();
+      }
+    }
+  }
+
+  return { start, attrs };
+}
+
+/**
+ * Map a calendar's events onto customEntries attributes
+ */
+export function calendarEntries(calendar: IcsComponent, timeZone: string): { entries: ImportedEntry[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) {
+      warnings.push(message);
+    }
+  };
+
+  // Non-IANA TZIDs can name their zone in X-LIC-LOCATION
+  const zones = new Map<string, string>();
+  for (const zone of calendar.components.filter((c) => c.name === 'VTIMEZONE')) {
+    const id = property(zone, 'TZID')?.value;
+    const location = property(zone, 'X-LIC-LOCATION')?.value;
+    if (id && location && isValidTimeZone(location)) {
+      zones.set(id, location);
+    }
+  }
+
+  const allEvents = calendar.components.filter((c) => c.name === 'VEVENT');
+  const isCancelled = (event: IcsComponent) => text(event, 'STATUS')?.toUpperCase() === 'CANCELLED';
+
+  // Changed or cancelled instances of a series (RECURRENCE-ID) are excluded from it
+  const overriddenDays = new Map<string, string[]>();
+  for (const event of allEvents) {
+    const uid = text(event, 'UID');
+    const recurrenceId = property(event, 'RECURRENCE-ID');
+    const instance = recurrenceId && eventTime(recurrenceId.value, recurrenceId.params, zones, timeZone, warn);
+    if (uid && instance) {
+      overriddenDays.set(uid, [...(overriddenDays.get(uid) || []), formatCivilDate(instance.day)]);
+    }
+  }
+
+  const entries: ImportedEntry[] = [];
+  for (const event of allEvents.filter((e) => !isCancelled(e))) {
+    const uid = text(event, 'UID');
+    // Changed instances are imported as single entries
+    const exdates = property(event, 'RECURRENCE-ID') ? null : [...(uid && overriddenDays.get(uid)) || []];
+
+    const mapped = eventEntry(event, zones, timeZone, exdates, warn);
+    if (mapped) {
+      entries.push({ uid, day: formatCivilDate(mapped.start.day), duplicate: false, attrs: mapped.attrs });
+    }
+  }
+
+  return { entries, warnings };
+}
+
+/**
+ * Handle POST /import/ics
+ * Expected body: { "ics": "BEGIN:VCALENDAR...", "sectionId": "uuid", "timeZone": "America/New_York",
+ *                  "dryRun": false, "includeDuplicates": false }
+ */
+export async function handleImportIcs(request: Request, env: Env): Promise<Response> {
+  // Calendars are sent inline, so they share /db/transact's size limit
+  const tooLarge = { error: 'Request body too large', limit: MAX_TRANSACT_BODY_BYTES };
+  if (Number(request.headers.get('Content-Length')) > MAX_TRANSACT_BODY_BYTES) {
+    return jsonResponse(tooLarge, 413);
+  }
+  const bodyText = await request.text();
+  if (new TextEncoder().encode(bodyText).byteLength > MAX_TRANSACT_BODY_BYTES) {
+    return jsonResponse(tooLarge, 413);
+  }
+
+  const body = parseBody(bodyText);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  if (typeof body.ics !== 'string' || typeof body.sectionId !== 'string' || !body.sectionId) {
+    return jsonResponse({ error: 'ics and sectionId are required' }, 400);
+  }
+  const timeZone = body.timeZone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    return jsonResponse({ error: 'timeZone must be an IANA time zone such as "America/New_York"' }, 400);
+  }
+  const dryRun = body.dryRun !== false;
+
+  const calendar = parseCalendar(body.ics);
+  if (typeof calendar === 'string') {
+    return jsonResponse({ error: `Invalid iCalendar file: ${calendar}` }, 400);
+  }
+
+  // Load the section and its entries as the user, so they can only import into sections they can see
+  const sectionQuery = await userQuery({
+    customSections: { $: { where: { id: body.sectionId } }, customEntries: {} },
+  }, auth.impersonation, env);
+  const section = sectionQuery.customSections?.[0];
+  if (!section) {
+    return jsonResponse({ error: 'Section not found' }, 404);
+  }
+
+  const { entries, warnings } = calendarEntries(calendar, timeZone);
+  if (entries.length > MAX_IMPORT_EVENTS) {
+    return jsonResponse({ error: 'Too many events in one import', limit: MAX_IMPORT_EVENTS }, 413);
+  }
+
+  // Flag events with the same title and day as an existing entry or an earlier event
+  const key = (title: unknown, day: string) => `${String(title ?? '').trim().toLowerCase()}|${day}`;
+  const seen = new Set<string>();
+  for (const existing of section.customEntries || []) {
+    if (typeof existing.date === 'string' && !Number.isNaN(Date.parse(existing.date))) {
+      seen.add(key(existing.title, formatCivilDate(civilDayAt(Date.parse(existing.date), timeZone))));
+    }
+  }
+  for (const entry of entries) {
+    const entryKey = key(entry.attrs.title, entry.day);
+    entry.duplicate = seen.has(entryKey);
+    seen.add(entryKey);
+  }
+
+  const toCreate = entries.filter((entry) => body.includeDuplicates === true || !entry.duplicate);
+  const summary = {
+    events: entries.length,
+    duplicates: entries.filter((entry) => entry.duplicate).length,
+    toCreate: toCreate.length,
+  };
+
+  if (dryRun || toCreate.length === 0) {
+    return jsonResponse({ dryRun, sectionId: section.id, summary, entries, warnings, created: [] });
+  }
+
+  const now = isoString(Date.now());
+  const created: string[] = [];
+  const steps: unknown[] = [];
+  for (const entry of toCreate) {
+    const id = crypto.randomUUID();
+    created.push(id);
+    steps.push(
+      ['update', 'customEntries', id, { ...entry.attrs, localId: id.toUpperCase(), updatedAt: now }],
+      ['link', 'customEntries', id, { section: section.id }]
+    );
+  }
+
+  const outcome = await runTransaction(steps, auth, false, env);
+  if ('rejected' in outcome) {
+    return outcome.rejected;
+  }
+  if (!outcome.upstream.ok) {
+    console.error('ICS import transact failed:', await outcome.upstream.text());
+    return jsonResponse({ error: 'Import failed' }, outcome.upstream.status);
+  }
+
+  return jsonResponse({ dryRun, sectionId: section.id, summary, entries, warnings, created });
+}
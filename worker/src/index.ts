@@ -0,0 +1,273 @@
+/**
+ * Cloudflare Worker: InstantDB Proxy
+ *
+ * This worker proxies requests to InstantDB Admin API, keeping the admin token secure.
+ * The iOS app sends requests here with the user's refresh token, and this worker
+ * validates the token and forwards requests to InstantDB with the admin token.
+ *
+ * Requests authenticate with an access token from the auth proxy's /auth/session
+ * endpoint (`Authorization: Bearer ...`). A `refresh_token` in the JSON body is
+ * still accepted for older app versions.
+ *
+ * Queries and transaction steps are validated against instant.schema.ts before
+ * they are forwarded; invalid requests get a 400 listing every problem found.
+ * Transactions are also limited to the writes the app makes (see policy.ts).
+ *
+ * Endpoints:
+ * - POST /db/query               - Query as the user
+ * - POST /db/transact            - Write as the user (or as a family editor/admin)
+ * - POST /db/changes             - Records changed and deleted since the last sync
+ * - POST /db/tombstones          - Records deleted since a cursor
+ * - POST /schedule/expand        - Occurrences of a recurring entry in a date range
+ * - POST /schedule/conflicts     - Overlapping activities across kids, or with a proposed entry
+ * - POST /import/ics             - Preview or create entries from an iCalendar file
+ * - POST /admin/migrations/rrule - Convert legacy recurrence fields to RRULEs (admin token)
+ * - GET  /calendar/{secret}.ics  - Subscribable iCalendar feed for a kid or a family
+ * - GET  /health                 - Health check with token cache metrics
+ *
+ * Environment variables required (set in Cloudflare dashboard or wrangler.toml):
+ * - INSTANTDB_APP_ID: Your InstantDB app ID
+ * - INSTANTDB_ADMIN_TOKEN: Your InstantDB admin token (keep secret!)
+ * - SESSION_SECRET: Secret shared with the auth proxy to verify access tokens
+ * - TOKEN_CACHE_KV (optional): KV namespace for cached token verifications;
+ *   the Workers Cache API is used when it isn't bound
+ */
+
+import { getFamilyMemberships } from './access';
+import { authenticate, getTokenCache } from './auth';
+import { handleCalendarFeed } from './calendarFeed';
+import { getChanges, parseCursors } from './changes';
+import { corsHeaders, handleCORS, jsonResponse, parseBody, readBody } from './http';
+import { adminHeaders, INSTANTDB_API } from './instantdb';
+import { handleImportIcs } from './importIcs';
+import { handleRRuleMigration } from './migrations';
+import { MAX_TRANSACT_BODY_BYTES, MAX_TRANSACT_STEPS } from './policy';
+import { handleScheduleConflicts, handleScheduleExpand } from './schedule';
+import { listTombstones } from './tombstones';
+import { runTransaction } from './transact';
+import { Env } from './types';
+import { validateQuery } from './validation';
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return handleCORS(request);
+    }
+
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      // Route requests
+      if (path === '/db/query' && request.method === 'POST') {
+        return await handleQuery(request, env);
+      }
+
+      if (path === '/db/transact' && request.method === 'POST') {
+        return await handleTransact(request, env);
+      }
+
+      if (path === '/db/changes' && request.method === 'POST') {
+        return await handleChanges(request, env);
+      }
+
+      if (path === '/db/tombstones' && request.method === 'POST') {
+        return await handleTombstones(request, env);
+      }
+
+      if (path === '/schedule/expand' && request.method === 'POST') {
+        return await handleScheduleExpand(request, env);
+      }
+
+      if (path === '/schedule/conflicts' && request.method === 'POST') {
+        return await handleScheduleConflicts(request, env);
+      }
+
+      if (path === '/import/ics' && request.method === 'POST') {
+        return await handleImportIcs(request, env);
+      }
+
+      if (path === '/admin/migrations/rrule' && request.method === 'POST') {
+        return await handleRRuleMigration(request, env);
+      }
+
+      const feedMatch = path.match(/^\/calendar\/([A-Za-z0-9_-]+)\.ics$/);
+      if (feedMatch && request.method === 'GET') {
+        return await handleCalendarFeed(feedMatch[1], env);
+      }
+
+      // Health check
+      if (path === '/health') {
+        return jsonResponse({ status: 'ok', service: 'instantdb-proxy', tokenCache: getTokenCache(env).metrics });
+      }
+
+      return jsonResponse({ error: 'Not found' }, 404);
+    } catch (error) {
+      console.error('Worker error:', error);
+      return jsonResponse({ error: (error as Error).message || 'Internal server error' }, 500);
+    }
+  },
+};
+
+/**
+ * Pass an InstantDB response back to the client
+ */
+async function forwardResponse(response: Response, body: Record<string, any>, env: Env, label: string): Promise<Response> {
+  const data = await response.text();
+
+  // InstantDB rejected the impersonated token, so stop trusting the cached verification
+  if (response.status === 401 && typeof body.refresh_token === 'string') {
+    await getTokenCache(env).invalidate(body.refresh_token);
+  }
+
+  console.log(`InstantDB ${label} response status:`, response.status);
+  console.log(`InstantDB ${label} response body:`, data.substring(0, 500));
+
+  return new Response(data, {
+    status: response.status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders(),
+    },
+  });
+}
+
+/**
+ * Handle query requests
+ * Expected body: { "query": { ... } }
+ */
+async function handleQuery(request: Request, env: Env): Promise<Response> {
+  const body = await readBody(request);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  const { query } = body;
+  if (!query) {
+    return jsonResponse({ error: 'Missing query' }, 400);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  const issues = validateQuery(query);
+  if (issues.length > 0) {
+    return jsonResponse({ error: 'Query does not match the schema', details: issues }, 400);
+  }
+
+  // Forward to InstantDB Admin API with user impersonation.
+  // Permission rules (instant.perms.ts) let family members read kid data
+  // shared with their family, so viewers see the owner's tree here too.
+  console.log('Sending query to InstantDB:', JSON.stringify(query));
+
+  const response = await fetch(`${INSTANTDB_API}/admin/query`, {
+    method: 'POST',
+    headers: adminHeaders(env, auth.impersonation), // Impersonate the user so permission rules apply
+    body: JSON.stringify({ query }),
+  });
+
+  return forwardResponse(response, body, env, 'query');
+}
+
+/**
+ * Handle transact requests
+ * Expected body: { "steps": [ ... ], "force": false }
+ * `force` lets updates restore records that have been deleted, and update
+ * steps may carry { "expectedUpdatedAt" } as a fifth element (see concurrency.ts)
+ */
+async function handleTransact(request: Request, env: Env): Promise<Response> {
+  // Check the declared size first so oversized bodies aren't read at all
+  const tooLarge = { error: 'Request body too large', limit: MAX_TRANSACT_BODY_BYTES };
+  if (Number(request.headers.get('Content-Length')) > MAX_TRANSACT_BODY_BYTES) {
+    return jsonResponse(tooLarge, 413);
+  }
+
+  const text = await request.text();
+  if (new TextEncoder().encode(text).byteLength > MAX_TRANSACT_BODY_BYTES) {
+    return jsonResponse(tooLarge, 413);
+  }
+
+  const body = parseBody(text);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  if (!Array.isArray(body.steps)) {
+    return jsonResponse({ error: 'Missing or invalid steps array' }, 400);
+  }
+
+  if (body.steps.length > MAX_TRANSACT_STEPS) {
+    return jsonResponse({ error: 'Too many steps in one transaction', limit: MAX_TRANSACT_STEPS }, 413);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  const outcome = await runTransaction(body.steps, auth, body.force === true, env);
+  if ('rejected' in outcome) {
+    return outcome.rejected;
+  }
+
+  return forwardResponse(outcome.upstream, body, env, 'transact');
+}
+
+/**
+ * Handle tombstone listing requests
+ * Expected body: { "since": "<ISO timestamp>" } (optional)
+ */
+async function handleTombstones(request: Request, env: Env): Promise<Response> {
+  const body = await readBody(request);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  const since = body.since ?? null;
+  if (since !== null && (typeof since !== 'string' || Number.isNaN(Date.parse(since)))) {
+    return jsonResponse({ error: 'since must be an ISO 8601 timestamp' }, 400);
+  }
+
+  const memberships = await getFamilyMemberships(auth.user.id, env);
+  const tombstones = await listTombstones(auth.user, memberships.map((m) => m.familyId), since, env);
+
+  return jsonResponse({
+    tombstones,
+    cursor: tombstones.length > 0 ? tombstones[tombstones.length - 1].deletedAt : since,
+  });
+}
+
+/**
+ * Handle incremental sync requests
+ * Expected body: { "cursors": { ... } } from the previous response, or { "since": "<ISO timestamp>" }
+ */
+async function handleChanges(request: Request, env: Env): Promise<Response> {
+  const body = await readBody(request);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  const cursors = parseCursors(body);
+  if (typeof cursors === 'string') {
+    return jsonResponse({ error: cursors }, 400);
+  }
+
+  return jsonResponse(await getChanges(cursors, auth, env));
+}
@@ -0,0 +1,81 @@
+/**
+ * InstantDB admin API helpers
+ */
+
+import { Env } from './types';
+
+export const INSTANTDB_API = 'https://api.instantdb.com';
+
+/**
+ * Headers for the InstantDB admin API, optionally impersonating a user
+ */
+export function adminHeaders(env: Env, impersonation: Record<string, string> = {}): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${env.INSTANTDB_ADMIN_TOKEN}`,
+    'App-Id': env.INSTANTDB_APP_ID,
+    ...impersonation,
+  };
+}
+
+/**
+ * Query InstantDB with the admin token (no impersonation)
+ */
+export async function adminQuery(query: object, env: Env): Promise<any> {
+  const response = await fetch(`${INSTANTDB_API}/admin/query`, {
+    method: 'POST',
+    headers: adminHeaders(env),
+    body: JSON.stringify({ query }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`InstantDB query failed: ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Query InstantDB as a user, so permission rules decide what is visible
+ */
+export async function userQuery(query: object, impersonation: Record<string, string>, env: Env): Promise<any> {
+  const response = await fetch(`${INSTANTDB_API}/admin/query`, {
+    method: 'POST',
+    headers: adminHeaders(env, impersonation),
+    body: JSON.stringify({ query }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`InstantDB query failed: ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Get the single linked record from a query result, which InstantDB
+ * returns as either an object or a one-element array
+ */
+export function firstLinked(value: any): any {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Run a transaction with the admin token (no impersonation)
+ */
+export async function adminTransact(steps: unknown[], env: Env): Promise<any> {
+  const response = await fetch(`${INSTANTDB_API}/admin/transact`, {
+    method: 'POST',
+    headers: adminHeaders(env),
+    body: JSON.stringify({ steps }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`InstantDB transact failed: ${errorText}`);
+  }
+
+  return await response.json();
+}
@@ -0,0 +1,122 @@
+/**
+ * Data migrations
+ *
+ * Operator-only endpoints, authenticated with the InstantDB admin token, that
+ * rewrite existing records after a schema change. Each accepts `dryRun` to
+ * report what it would change without writing.
+ *
+ * - POST /admin/migrations/rrule - Convert legacy recurrence fields into RRULEs
+ */
+
+import { isAdminRequest } from './auth';
+import { isValidTimeZone } from './dates';
+import { jsonResponse, readBody } from './http';
+import { adminQuery, adminTransact, firstLinked } from './instantdb';
+import { legacyRecurrenceRRule, RECURRENCE_PATTERNS, RecurrencePattern, RecurringEntry } from './recurrence';
+import { Env } from './types';
+
+// Steps per InstantDB transaction
+const BATCH_SIZE = 100;
+
+/**
+ * Each owner's time zone, taken from their most recently created calendar feed
+ */
+async function ownerTimeZones(ownerIds: string[], env: Env): Promise<Map<string, string>> {
+  const timeZones = new Map<string, string>();
+  if (ownerIds.length === 0) {
+    return timeZones;
+  }
+
+  const result = await adminQuery({
+    calendarFeeds: { $: { where: { ownerId: { $in: ownerIds } } } },
+  }, env);
+  const feeds = [...(result.calendarFeeds || [])].sort((a: any, b: any) => String(a.createdAt).localeCompare(String(b.createdAt)));
+  for (const feed of feeds) {
+    if (isValidTimeZone(feed.timeZone)) {
+      timeZones.set(feed.ownerId, feed.timeZone);
+    }
+  }
+  return timeZones;
+}
+
+/**
+ * Handle POST /admin/migrations/rrule
+ * Expected body: { "dryRun": true, "timeZone": "America/New_York", "firstWeekday": 1 }
+ *
+ * Sets `rrule` on recurrence templates that don't have one yet. Each entry's
+ * legacy fields are read in its owner's time zone, from their calendar feeds,
+ * falling back to `timeZone` for owners without one. The legacy fields are
+ * left in place for older app versions, and updatedAt is bumped so devices
+ * pick up the rule on their next sync.
+ */
+export async function handleRRuleMigration(request: Request, env: Env): Promise<Response> {
+  if (!isAdminRequest(request, env)) {
+    return jsonResponse({ error: 'Admin token required' }, 401);
+  }
+
+  const body = await readBody(request);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  const timeZone = body.timeZone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    return jsonResponse({ error: 'timeZone must be an IANA time zone such as "America/New_York"' }, 400);
+  }
+  const firstWeekday = body.firstWeekday ?? 1;
+  if (!Number.isInteger(firstWeekday) || firstWeekday < 1 || firstWeekday > 7) {
+    return jsonResponse({ error: 'firstWeekday must be from 1 (Sunday) to 7 (Saturday)' }, 400);
+  }
+  const dryRun = body.dryRun === true;
+
+  const result = await adminQuery({
+    customEntries: {
+      $: { where: { isRecurrenceTemplate: true } },
+      section: { kidProfile: { parent: {} } },
+    },
+  }, env);
+  const templates: (RecurringEntry & { id: string; section?: any })[] = result.customEntries || [];
+
+  const ownerOf = (entry: { section?: any }): string | undefined =>
+    firstLinked(firstLinked(firstLinked(entry.section)?.kidProfile)?.parent)?.id;
+  const ownerIds = [...new Set(templates.map(ownerOf).filter((id): id is string => !!id))];
+  const timeZones = await ownerTimeZones(ownerIds, env);
+
+  const converted: { id: string; rrule: string; timeZone: string }[] = [];
+  const skipped: { id: string; reason: string }[] = [];
+
+  for (const entry of templates) {
+    if (entry.rrule) {
+      skipped.push({ id: entry.id, reason: 'already has an rrule' });
+      continue;
+    }
+    if (typeof entry.date !== 'string' || Number.isNaN(Date.parse(entry.date))) {
+      skipped.push({ id: entry.id, reason: 'missing or invalid date' });
+      continue;
+    }
+    const entryTimeZone = timeZones.get(ownerOf(entry) ?? '') ?? timeZone;
+    const rrule = legacyRecurrenceRRule(entry, entryTimeZone, firstWeekday);
+    if (!rrule) {
+      const reason = RECURRENCE_PATTERNS.includes(entry.recurrencePatternRaw as RecurrencePattern)
+        ? 'no RRULE matches a monthly pattern after the 28th'
+        : `unknown recurrence pattern "${entry.recurrencePatternRaw}"`;
+      skipped.push({ id: entry.id, reason });
+      continue;
+    }
+    converted.push({ id: entry.id, rrule, timeZone: entryTimeZone });
+  }
+
+  if (!dryRun) {
+    const now = new Date().toISOString();
+    for (let i = 0; i < converted.length; i += BATCH_SIZE) {
+      const steps = converted.slice(i, i + BATCH_SIZE).map(({ id, rrule }) => (
+        ['update', 'customEntries', id, { rrule, updatedAt: now, serverUpdatedAt: now }]
+      ));
+      await adminTransact(steps, env);
+    }
+  }
+
+  console.log(`RRULE migration${dryRun ? ' (dry run)' : ''}: ${converted.length} converted, ${skipped.length} skipped`);
+
+  return jsonResponse({ dryRun, scanned: templates.length, converted, skipped });
+}
@@ -0,0 +1,130 @@
+/**
+ * Time overlap detection
+ *
+ * Follows the iOS ConflictDetectionService: only entries with a start time
+ * take part, an entry without an end time lasts an hour, and two activities
+ * overlap when each starts before the other ends (back-to-back is fine).
+ * Recurring entries are expanded first, so every occurrence in the range is
+ * compared. An end time at or before the start time is taken to run past
+ * midnight.
+ */
+
+import { DAY_MS } from './dates';
+import { expandRecurrence, ExpandOptions, RecurringEntry } from './recurrence';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Most overlaps one request returns
+export const MAX_OVERLAPS = 500;
+
+/** Who an entry belongs to, carried through to the results */
+export interface EntryOwner {
+  entryId: string | null;
+  kidProfileId: string | null;
+  kidName: string | null;
+  sectionName: string | null;
+  title: string | null;
+}
+
+export interface TimedOccurrence extends EntryOwner {
+  /** Calendar date, `YYYY-MM-DD` */
+  date: string;
+  start: string;
+  end: string;
+}
+
+interface Interval {
+  occurrence: TimedOccurrence;
+  start: number;
+  end: number;
+}
+
+export interface Overlap {
+  /** When both activities are happening */
+  start: string;
+  end: string;
+  occurrences: [TimedOccurrence, TimedOccurrence];
+}
+
+/**
+ * The timed occurrences of an entry within a range
+ */
+export function timedOccurrences(entry: RecurringEntry, owner: EntryOwner, options: ExpandOptions): TimedOccurrence[] {
+  if (!entry.startTime) {
+    return [];
+  }
+
+  return expandRecurrence(entry, options).occurrences.map(({ date, start, end }) => {
+    const startMs = Date.parse(start!);
+    let endMs = end ? Date.parse(end) : startMs + HOUR_MS;
+    if (endMs <= startMs) {
+      endMs += DAY_MS;
+    }
+    return { ...owner, date, start: start!, end: new Date(endMs).toISOString() };
+  });
+}
+
+function toIntervals(occurrences: TimedOccurrence[]): Interval[] {
+  return occurrences
+    .map((occurrence) => ({ occurrence, start: Date.parse(occurrence.start), end: Date.parse(occurrence.end) }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+function overlapOf(a: Interval, b: Interval): Overlap {
+  return {
+    start: new Date(Math.max(a.start, b.start)).toISOString(),
+    end: new Date(Math.min(a.end, b.end)).toISOString(),
+    occurrences: [a.occurrence, b.occurrence],
+  };
+}
+
+/**
+ * Every pair of occurrences belonging to different kids that overlap, in start order.
+ * Stops at MAX_OVERLAPS pairs; `truncated` says whether there were more.
+ */
+export function findOverlappingPairs(occurrences: TimedOccurrence[]): { overlaps: Overlap[]; truncated: boolean } {
+  const overlaps: Overlap[] = [];
+  let active: Interval[] = [];
+
+  // Sweep in start order, keeping the intervals that haven't ended yet
+  for (const interval of toIntervals(occurrences)) {
+    active = active.filter((other) => other.end > interval.start);
+    for (const other of active) {
+      if (other.occurrence.kidProfileId === interval.occurrence.kidProfileId) {
+        continue;
+      }
+      if (overlaps.length === MAX_OVERLAPS) {
+        return { overlaps, truncated: true };
+      }
+      overlaps.push(overlapOf(other, interval));
+    }
+    active.push(interval);
+  }
+
+  return { overlaps, truncated: false };
+}
+
+/**
+ * Occurrences that overlap any of the proposed ones, for any kid
+ */
+export function findOverlapsWith(proposed: TimedOccurrence[], occurrences: TimedOccurrence[]): { overlaps: Overlap[]; truncated: boolean } {
+  const overlaps: Overlap[] = [];
+  const existing = toIntervals(occurrences);
+
+  for (const interval of toIntervals(proposed)) {
+    for (const other of existing) {
+      if (other.start >= interval.end) {
+        break;
+      }
+      if (other.end <= interval.start) {
+        continue;
+      }
+      if (overlaps.length === MAX_OVERLAPS) {
+        return { overlaps, truncated: true };
+      }
+      overlaps.push(overlapOf(interval, other));
+    }
+  }
+
+  return { overlaps, truncated: false };
+}
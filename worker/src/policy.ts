@@ -0,0 +1,59 @@
+/**
+ * Transaction policy
+ *
+ * The proxy holds the admin token, so /db/transact only lets clients run the
+ * writes the app actually makes: update/link/unlink/delete on the app's kid
+ * data entities, in batches of bounded size. Everything else is rejected
+ * before it reaches InstantDB.
+ */
+
+import { EntityName, StepAction, validateStep, ValidationIssue } from './validation';
+
+// Largest request body /db/transact accepts
+export const MAX_TRANSACT_BODY_BYTES = 1024 * 1024;
+
+// Most steps a single transaction may contain
+export const MAX_TRANSACT_STEPS = 1000;
+
+const ALLOWED_ACTIONS: StepAction[] = ['update', 'link', 'unlink', 'delete'];
+
+// System entities ($users, $files) are off limits, and family tables are only
+// written by the auth proxy
+const WRITABLE_ENTITIES: EntityName[] = ['kidProfiles', 'customSections', 'customEntries', 'mediaEntries'];
+
+export interface StepReport {
+  index: number;
+  action: unknown;
+  entity: unknown;
+  id: unknown;
+  errors: ValidationIssue[];
+}
+
+/**
+ * Check every step against the schema and the write policy
+ * Returns a report for each rejected step; an empty list means all steps may run
+ */
+export function reviewSteps(steps: unknown[]): StepReport[] {
+  const reports: StepReport[] = [];
+
+  steps.forEach((step, index) => {
+    const [action, entity, id] = Array.isArray(step) ? step : [];
+    const errors = validateStep(step, index);
+
+    // Only steps the schema accepts are checked against the policy
+    if (errors.length === 0) {
+      if (!ALLOWED_ACTIONS.includes(action)) {
+        errors.push({ path: `steps[${index}][0]`, message: `action "${action}" is not allowed` });
+      }
+      if (!WRITABLE_ENTITIES.includes(entity)) {
+        errors.push({ path: `steps[${index}][1]`, message: `${entity} cannot be written through the proxy` });
+      }
+    }
+
+    if (errors.length > 0) {
+      reports.push({ index, action, entity, id, errors });
+    }
+  });
+
+  return reports;
+}
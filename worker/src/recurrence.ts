@@ -0,0 +1,443 @@
+/**
+ * Recurrence engine
+ *
+ * Expands recurring customEntries into occurrences for a date range, with the
+ * same daily/weekly/biweekly/monthly semantics as the iOS RecurrenceService:
+ *
+ * - daily: every day from the entry's date
+ * - weekly / biweekly without weekdays: every 1 or 2 weeks on the entry's weekday
+ * - weekly / biweekly with weekdays: each selected weekday (1 = Sunday ... 7 =
+ *   Saturday), every week or every other week counted from the week the entry
+ *   starts in; weeks begin on `firstWeekday`, like Calendar.firstWeekday
+ * - monthly: a month after the previous occurrence, clamped to shorter
+ *   months. Like the iOS loop, a clamped day carries on, so Jan 31 gives
+ *   Feb 28, then Mar 28.
+ *
+ * `recurrenceEndDate` is inclusive and `recurrenceOccurrenceCount` counts from
+ * the entry's own date, regardless of the range requested.
+ *
+ * An entry with an `rrule` (RFC 5545) follows that rule instead of the legacy
+ * pattern fields. App versions that only know the legacy fields still edit
+ * them, so a write that changes them without setting `rrule` clears the rule
+ * (see withoutStaleRRules). Days listed in `exdates` are skipped for either
+ * kind; they still count towards an occurrence count, as EXDATE does in
+ * RFC 5545.
+ */
+
+import { addMonths, CivilDay, civilDayAt, DAY_MS, formatCivilDate, instantAt, isSupportedYear, MAX_YEAR, MIN_YEAR, monthsBetween, timeOfDayAt, weekdayOf } from './dates';
+import { adminQuery } from './instantdb';
+import { exdatesError, parseExdate, parseRRule, RRule, rruleDays, untilDay, WEEKDAY_CODES } from './rrule';
+import { Env } from './types';
+import { TransactStep } from './validation';
+
+export const RECURRENCE_PATTERNS = ['daily', 'weekly', 'biweekly', 'monthly'] as const;
+
+export type RecurrencePattern = typeof RECURRENCE_PATTERNS[number];
+
+// Most occurrences a single expansion returns
+export const MAX_OCCURRENCES = 1000;
+
+/** The customEntries fields the engine reads; dates and times are ISO instants */
+export interface RecurringEntry {
+  date: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  isRecurrenceTemplate?: boolean | null;
+  recurrencePatternRaw?: string | null;
+  recurrenceWeekdays?: number[] | null;
+  recurrenceEndDate?: string | null;
+  recurrenceOccurrenceCount?: number | null;
+  rrule?: string | null;
+  exdates?: string[] | null;
+  recurrenceGroupId?: string | null;
+}
+
+export interface ExpandOptions {
+  /** First and last day of the range, inclusive */
+  from: CivilDay;
+  to: CivilDay;
+  /** IANA time zone the entry's dates and times are interpreted in */
+  timeZone: string;
+  /** First day of the week for biweekly patterns, 1 = Sunday (the default) */
+  firstWeekday?: number;
+}
+
+export interface Occurrence {
+  /** Calendar date, `YYYY-MM-DD` */
+  date: string;
+  /** Start and end instants, when the entry has times */
+  start: string | null;
+  end: string | null;
+}
+
+export interface Expansion {
+  occurrences: Occurrence[];
+  /** True when the range held more than MAX_OCCURRENCES occurrences */
+  truncated: boolean;
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isEntryTimestamp(value: unknown): value is string {
+  return isTimestamp(value) && isSupportedYear(Date.parse(value));
+}
+
+function isPattern(value: unknown): value is RecurrencePattern {
+  return RECURRENCE_PATTERNS.includes(value as RecurrencePattern);
+}
+
+/**
+ * Check an untrusted value has the fields the engine needs
+ * Returns an error message describing the first problem, or null if it is usable
+ */
+export function recurringEntryError(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'entry must be an object';
+  }
+  const entry = value as Record<string, unknown>;
+
+  for (const field of ['date', 'startTime', 'endTime', 'recurrenceEndDate']) {
+    if ((field === 'date' || entry[field] != null) && !isTimestamp(entry[field])) {
+      return `entry.${field} must be an ISO 8601 timestamp`;
+    }
+    if (entry[field] != null && !isEntryTimestamp(entry[field])) {
+      return `entry.${field} must be in the years ${MIN_YEAR} to ${MAX_YEAR}`;
+    }
+  }
+  if (entry.isRecurrenceTemplate && !isPattern(entry.recurrencePatternRaw)) {
+    return `entry.recurrencePatternRaw must be one of ${RECURRENCE_PATTERNS.join(', ')}`;
+  }
+  const weekdays = entry.recurrenceWeekdays;
+  if (weekdays != null && !(Array.isArray(weekdays) && weekdays.every((d) => Number.isInteger(d) && d >= 1 && d <= 7))) {
+    return 'entry.recurrenceWeekdays must be a list of weekdays from 1 (Sunday) to 7 (Saturday)';
+  }
+  const count = entry.recurrenceOccurrenceCount;
+  if (count != null && !(Number.isInteger(count) && (count as number) > 0)) {
+    return 'entry.recurrenceOccurrenceCount must be a positive integer';
+  }
+  if (entry.rrule != null) {
+    const rule = typeof entry.rrule === 'string' ? parseRRule(entry.rrule) : 'entry.rrule must be a string';
+    if (typeof rule === 'string') {
+      return rule;
+    }
+  }
+  if (entry.exdates != null) {
+    return exdatesError(entry.exdates);
+  }
+  return null;
+}
+
+/** An occurrence day and its position in the series, counted from the entry's own date */
+interface SeriesDay {
+  day: CivilDay;
+  index: number;
+}
+
+/**
+ * Days an entry occurs on, in order, starting no later than its first
+ * occurrence on or after `from`. Earlier occurrences are skipped
+ * arithmetically rather than walked, so an old entry costs no more to expand
+ * than a new one. The sequence is unbounded; callers stop iterating.
+ */
+function* seriesDays(
+  start: CivilDay, pattern: RecurrencePattern | null, weekdays: number[], firstWeekday: number, from: CivilDay,
+): Generator<SeriesDay> {
+  if (!pattern) {
+    yield { day: start, index: 0 };
+    return;
+  }
+
+  const skipped = Math.max(0, from - start);
+
+  if (pattern === 'daily') {
+    for (let index = skipped; ; index++) {
+      yield { day: start + index, index };
+    }
+  }
+
+  if (pattern === 'monthly') {
+    // The day only changes while it is after the 28th, when a shorter month
+    // clamps it, so walk month by month until then and jump afterwards
+    let day = start;
+    let index = 0;
+    while (day < from && new Date(day * DAY_MS).getUTCDate() > 28) {
+      day = addMonths(day, 1);
+      index++;
+    }
+    if (day < from) {
+      const months = monthsBetween(day, from);
+      const jump = addMonths(day, months) < from ? months + 1 : months;
+      day = addMonths(day, jump);
+      index += jump;
+    }
+    for (; ; day = addMonths(day, 1), index++) {
+      yield { day, index };
+    }
+  }
+
+  const interval = pattern === 'biweekly' ? 2 : 1;
+
+  if (weekdays.length === 0) {
+    const step = 7 * interval;
+    for (let index = Math.ceil(skipped / step); ; index++) {
+      yield { day: start + index * step, index };
+    }
+  }
+
+  const selected = new Set(weekdays);
+  const weekStart = (day: CivilDay) => day - ((weekdayOf(day) - firstWeekday + 7) % 7);
+  const firstWeek = weekStart(start);
+
+  // Every week after the first that the interval selects holds one
+  // occurrence per selected weekday; start from the week holding `from`
+  let day = start;
+  let index = 0;
+  const weeks = (weekStart(start + skipped) - firstWeek) / 7;
+  if (weeks > 0) {
+    for (let d = start; d < firstWeek + 7; d++) {
+      if (selected.has(weekdayOf(d))) {
+        index++;
+      }
+    }
+    index += Math.floor((weeks - 1) / interval) * selected.size;
+    day = firstWeek + weeks * 7;
+  }
+
+  for (; ; day++) {
+    const week = (weekStart(day) - firstWeek) / 7;
+    if (week % interval === 0 && selected.has(weekdayOf(day))) {
+      yield { day, index };
+      index++;
+    }
+  }
+}
+
+/**
+ * Days a legacy pattern occurs on, as seriesDays, ending after `count` occurrences
+ */
+function* occurrenceDays(
+  start: CivilDay, pattern: RecurrencePattern | null, weekdays: number[], firstWeekday: number, from: CivilDay, count: number,
+): Generator<CivilDay> {
+  for (const { day, index } of seriesDays(start, pattern, weekdays, firstWeekday, from)) {
+    if (index >= count) {
+      return;
+    }
+    yield day;
+  }
+}
+
+/**
+ * Drop the single entries the app creates for a recurring entry's occurrences
+ * when the recurring entry itself is in the list, so each occurrence comes
+ * from expanding it rather than appearing twice
+ */
+export function withoutMaterializedInstances<T extends RecurringEntry>(entries: T[]): T[] {
+  const templateGroups = new Set(entries.filter((e) => e.isRecurrenceTemplate && e.recurrenceGroupId).map((e) => e.recurrenceGroupId));
+  return entries.filter((e) => e.isRecurrenceTemplate || e.rrule || !templateGroups.has(e.recurrenceGroupId));
+}
+
+/**
+ * Expand an entry into its occurrences within a range.
+ * Entries without an rrule that aren't recurrence templates occur once, on their own date.
+ */
+export function expandRecurrence(entry: RecurringEntry, options: ExpandOptions): Expansion {
+  const { from, to, timeZone, firstWeekday = 1 } = options;
+
+  const start = civilDayAt(Date.parse(entry.date), timeZone);
+  const rule = entry.rrule ? parseRRule(entry.rrule) : null;
+  const excluded = new Set((entry.exdates || []).map((exdate) => parseExdate(exdate, timeZone)));
+
+  let days: Iterable<CivilDay>;
+  let last = to;
+
+  if (rule && typeof rule !== 'string') {
+    // COUNT is applied by the rule itself
+    last = Math.min(to, untilDay(rule, timeZone) ?? Infinity);
+    days = rruleDays(rule, start, from, last);
+  } else {
+    const pattern = entry.isRecurrenceTemplate && isPattern(entry.recurrencePatternRaw) ? entry.recurrencePatternRaw : null;
+    if (pattern && entry.recurrenceEndDate) {
+      last = Math.min(to, civilDayAt(Date.parse(entry.recurrenceEndDate), timeZone));
+    }
+    const count = (pattern && entry.recurrenceOccurrenceCount) || Infinity;
+    days = occurrenceDays(start, pattern, entry.recurrenceWeekdays || [], firstWeekday, from, count);
+  }
+
+  const startTime = entry.startTime ? timeOfDayAt(Date.parse(entry.startTime), timeZone) : null;
+  const endTime = entry.endTime ? timeOfDayAt(Date.parse(entry.endTime), timeZone) : null;
+
+  const occurrences: Occurrence[] = [];
+
+  for (const day of days) {
+    if (day > last) {
+      break;
+    }
+    if (day < from || excluded.has(day)) {
+      continue;
+    }
+    if (occurrences.length === MAX_OCCURRENCES) {
+      return { occurrences, truncated: true };
+    }
+
+    occurrences.push({
+      date: formatCivilDate(day),
+      start: startTime ? instantAt(day, startTime, timeZone).toISOString() : null,
+      end: endTime ? instantAt(day, endTime, timeZone).toISOString() : null,
+    });
+  }
+
+  return { occurrences, truncated: false };
+}
+
+/**
+ * The RRULE equivalent to an entry's legacy recurrence fields, or null if it
+ * has none or no rule matches it (monthly entries after the 28th).
+ * Dates are read in `timeZone` and biweekly weeks start on `firstWeekday`, as
+ * they are when expandRecurrence expands the legacy fields.
+ */
+export function legacyRecurrenceRRule(entry: RecurringEntry, timeZone: string, firstWeekday = 1): string | null {
+  const pattern = entry.recurrencePatternRaw as RecurrencePattern;
+  if (!entry.isRecurrenceTemplate || !RECURRENCE_PATTERNS.includes(pattern)) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  const weekdays = [...new Set(entry.recurrenceWeekdays || [])].sort((a, b) => a - b);
+
+  switch (pattern) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+    case 'biweekly':
+      parts.push('FREQ=WEEKLY');
+      if (pattern === 'biweekly') {
+        parts.push('INTERVAL=2');
+      }
+      if (weekdays.length > 0) {
+        parts.push(`BYDAY=${weekdays.map((d) => WEEKDAY_CODES[d - 1]).join(',')}`);
+      }
+      if (pattern === 'biweekly') {
+        parts.push(`WKST=${WEEKDAY_CODES[firstWeekday - 1]}`);
+      }
+      break;
+    case 'monthly': {
+      // The legacy pattern stays on a day it was clamped to, which no single
+      // rule expresses; RFC 5545 skips months without the start day instead
+      const day = Number(formatCivilDate(civilDayAt(Date.parse(entry.date), timeZone)).slice(8));
+      if (day > 28) {
+        return null;
+      }
+      parts.push('FREQ=MONTHLY');
+      break;
+    }
+  }
+
+  if (entry.recurrenceOccurrenceCount) {
+    parts.push(`COUNT=${entry.recurrenceOccurrenceCount}`);
+  } else if (entry.recurrenceEndDate) {
+    // The legacy end date is inclusive of that calendar day
+    const until = formatCivilDate(civilDayAt(Date.parse(entry.recurrenceEndDate), timeZone));
+    parts.push(`UNTIL=${until.replace(/-/g, '')}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * The legacy recurrence fields equivalent to a rule, for app versions that
+ * only read those, or null if the legacy patterns can't express it.
+ * `start` is the entry's first day; end dates are written as the start of
+ * the day in `timeZone`.
+ */
+export function legacyRecurrenceFields(rule: RRule, start: CivilDay, timeZone: string): Partial<RecurringEntry> | null {
+  if (rule.byMonth.length > 0 || rule.byMonthDay.length > 0 || rule.bySetPos.length > 0 || rule.byDay.some((day) => day.ordinal !== 0)) {
+    return null;
+  }
+
+  let pattern: RecurrencePattern;
+  let weekdays: number[] | null = null;
+
+  if (rule.freq === 'DAILY' && rule.interval === 1 && rule.byDay.length === 0) {
+    pattern = 'daily';
+  } else if (rule.freq === 'WEEKLY' && rule.interval <= 2) {
+    pattern = rule.interval === 2 ? 'biweekly' : 'weekly';
+    weekdays = rule.byDay.length > 0 ? [...new Set(rule.byDay.map((day) => day.weekday))].sort((a, b) => a - b) : null;
+  } else if (rule.freq === 'MONTHLY' && rule.interval === 1 && rule.byDay.length === 0 && new Date(start * DAY_MS).getUTCDate() <= 28) {
+    // Later days differ: RFC 5545 skips short months, the legacy pattern clamps
+    pattern = 'monthly';
+  } else {
+    return null;
+  }
+
+  const until = untilDay(rule, timeZone);
+  return {
+    isRecurrenceTemplate: true,
+    recurrencePatternRaw: pattern,
+    recurrenceWeekdays: weekdays,
+    recurrenceOccurrenceCount: rule.count,
+    recurrenceEndDate: until === null ? null : instantAt(until, { hour: 0, minute: 0 }, timeZone).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+  };
+}
+
+// The fields app versions without RRULE support use to describe a recurrence
+const LEGACY_RECURRENCE_FIELDS = [
+  'isRecurrenceTemplate', 'recurrencePatternRaw', 'recurrenceWeekdays', 'recurrenceEndDate', 'recurrenceOccurrenceCount',
+] as const;
+
+type LegacyRecurrenceField = typeof LEGACY_RECURRENCE_FIELDS[number];
+
+function sameLegacyValue(field: LegacyRecurrenceField, stored: unknown, written: unknown): boolean {
+  if (field === 'recurrenceEndDate' && isTimestamp(stored) && isTimestamp(written)) {
+    return Date.parse(stored) === Date.parse(written);
+  }
+  if (field === 'recurrenceWeekdays' && Array.isArray(stored) && Array.isArray(written)) {
+    const normalize = (days: unknown[]) => JSON.stringify([...new Set(days)].sort());
+    return normalize(stored) === normalize(written);
+  }
+  return (stored ?? null) === (written ?? null);
+}
+
+/**
+ * Whether an update's attrs change a stored entry's legacy recurrence fields
+ * without also setting its rrule
+ */
+export function editsLegacyRecurrence(stored: RecurringEntry, attrs: Record<string, unknown>): boolean {
+  if ('rrule' in attrs) {
+    return false;
+  }
+  return LEGACY_RECURRENCE_FIELDS.some((field) => field in attrs && !sameLegacyValue(field, stored[field], attrs[field]));
+}
+
+/**
+ * Clear the rrule of entries whose legacy recurrence fields an update changes
+ * without setting an rrule, so edits from app versions that only know the
+ * legacy fields take effect instead of being hidden by the stored rule.
+ * Updates that leave the legacy fields as they were keep the rule.
+ */
+export async function withoutStaleRRules(steps: TransactStep[], env: Env): Promise<TransactStep[]> {
+  const isCandidate = ([action, entity, , attrs]: TransactStep) =>
+    action === 'update' && entity === 'customEntries' && !!attrs && !('rrule' in attrs)
+      && LEGACY_RECURRENCE_FIELDS.some((field) => field in attrs);
+
+  const ids = [...new Set(steps.filter(isCandidate).map(([, , id]) => id))];
+  if (ids.length === 0) {
+    return steps;
+  }
+
+  const result = await adminQuery({ customEntries: { $: { where: { id: { $in: ids } } } } }, env);
+  const stored = new Map<string, RecurringEntry>((result.customEntries || []).map((entry: any) => [entry.id, entry]));
+
+  return steps.map((step): TransactStep => {
+    const [action, entity, id, attrs, options] = step;
+    const entry = stored.get(id);
+    if (!isCandidate(step) || !entry?.rrule || !editsLegacyRecurrence(entry, attrs!)) {
+      return step;
+    }
+    return options
+      ? [action, entity, id, { ...attrs, rrule: null }, options]
+      : [action, entity, id, { ...attrs, rrule: null }];
+  });
+}
@@ -0,0 +1,451 @@
+/**
+ * RFC 5545 recurrence rules
+ *
+ * Parses, validates and expands the RRULE subset that makes sense for
+ * day-level kid schedules: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * COUNT, UNTIL, BYDAY (with ordinals such as 2TU or -1FR), BYMONTHDAY,
+ * BYMONTH, BYSETPOS and WKST. Rules are expanded on calendar days; times of
+ * day come from the entry. Sub-day frequencies and BYHOUR and friends are
+ * rejected rather than silently ignored.
+ *
+ * Exception dates (EXDATE) are stored separately on the entry as `exdates`.
+ */
+
+import { CivilDay, civilDayAt, DAY_MS, monthsBetween, parseCivilDate, weekdayOf } from './dates';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Weekday codes, numbered like Foundation's Calendar (1 = Sunday)
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const UNSUPPORTED_PARTS = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYWEEKNO', 'BYYEARDAY'];
+
+export interface WeekdayRule {
+  /** 1 = Sunday ... 7 = Saturday */
+  weekday: number;
+  /** Nth occurrence in the month or year (negative counts from the end); 0 means every */
+  ordinal: number;
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  count: number | null;
+  /** `YYYYMMDD`, or `YYYYMMDDTHHMMSSZ` in UTC */
+  until: string | null;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  /** First day of the week, 1 = Sunday; RFC 5545 defaults to Monday */
+  wkst: number;
+}
+
+function parseIntegerList(value: string, min: number, max: number, allowNegative: boolean): number[] | null {
+  const numbers = value.split(',').map((part) => (/^[+-]?\d+$/.test(part) ? Number(part) : NaN));
+  const valid = numbers.every((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max && (allowNegative || n > 0));
+  return valid ? numbers : null;
+}
+
+function parseWeekday(code: string): number {
+  return WEEKDAY_CODES.indexOf(code) + 1;
+}
+
+/**
+ * Parse an RRULE value such as `FREQ=MONTHLY;BYDAY=2TU` (an `RRULE:` prefix is allowed)
+ * Returns the rule, or an error message describing the first problem
+ */
+export function parseRRule(value: string): RRule | string {
+  const text = value.trim().replace(/^RRULE:/i, '');
+  if (text === '') {
+    return 'RRULE is empty';
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(';')) {
+    const [name, partValue, ...rest] = part.split('=');
+    const key = name.trim().toUpperCase();
+    if (!key || partValue === undefined || rest.length > 0 || partValue.trim() === '') {
+      return `Malformed RRULE part "${part}"`;
+    }
+    if (parts.has(key)) {
+      return `RRULE part ${key} appears more than once`;
+    }
+    parts.set(key, partValue.trim().toUpperCase());
+  }
+
+  const rule: RRule = {
+    freq: 'DAILY',
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    wkst: 2,
+  };
+
+  for (const [key, partValue] of parts) {
+    if (UNSUPPORTED_PARTS.includes(key)) {
+      return `${key} is not supported; rules repeat on whole days`;
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(partValue as Frequency)) {
+          return `FREQ must be one of ${FREQUENCIES.join(', ')}`;
+        }
+        rule.freq = partValue as Frequency;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(partValue);
+        if (!/^\d+$/.test(partValue) || interval < 1) {
+          return 'INTERVAL must be a positive integer';
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(partValue);
+        if (!/^\d+$/.test(partValue) || count < 1) {
+          return 'COUNT must be a positive integer';
+        }
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL':
+        if (untilInstant(partValue) === null) {
+          return 'UNTIL must be a date (YYYYMMDD) or a UTC date-time (YYYYMMDDTHHMMSSZ)';
+        }
+        rule.until = partValue;
+        break;
+      case 'BYDAY':
+        for (const item of partValue.split(',')) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          const ordinal = match?.[1] ? Number(match[1]) : 0;
+          if (!match || (match[1] && (ordinal === 0 || Math.abs(ordinal) > 53))) {
+            return `Invalid BYDAY value "${item}"`;
+          }
+          rule.byDay.push({ weekday: parseWeekday(match[2]), ordinal });
+        }
+        break;
+      case 'BYMONTHDAY': {
+        const days = parseIntegerList(partValue, 1, 31, true);
+        if (!days) {
+          return 'BYMONTHDAY must list days from 1 to 31 (or -1 to -31)';
+        }
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntegerList(partValue, 1, 12, false);
+        if (!months) {
+          return 'BYMONTH must list months from 1 to 12';
+        }
+        rule.byMonth = months;
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntegerList(partValue, 1, 366, true);
+        if (!positions) {
+          return 'BYSETPOS must list positions from 1 to 366 (or -1 to -366)';
+        }
+        rule.bySetPos = positions;
+        break;
+      }
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(partValue)) {
+          return 'WKST must be a weekday code such as MO or SU';
+        }
+        rule.wkst = parseWeekday(partValue);
+        break;
+      default:
+        return `Unknown RRULE part ${key}`;
+    }
+  }
+
+  if (!parts.has('FREQ')) {
+    return 'RRULE must include FREQ';
+  }
+  if (rule.count !== null && rule.until !== null) {
+    return 'RRULE may not include both COUNT and UNTIL';
+  }
+  if (rule.byDay.some((day) => day.ordinal !== 0) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    return 'BYDAY ordinals (such as 2TU) need FREQ=MONTHLY or FREQ=YEARLY';
+  }
+  if (rule.byMonthDay.length > 0 && rule.freq === 'WEEKLY') {
+    return 'BYMONTHDAY cannot be used with FREQ=WEEKLY';
+  }
+  if (rule.bySetPos.length > 0 && rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byMonth.length === 0) {
+    return 'BYSETPOS needs BYDAY, BYMONTHDAY or BYMONTH';
+  }
+
+  return rule;
+}
+
+/**
+ * Format a rule as an RRULE value (without the `RRULE:` prefix)
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== null) parts.push(`UNTIL=${rule.until}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal || ''}${WEEKDAY_CODES[day.weekday - 1]}`).join(',')}`);
+  }
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst !== 2) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst - 1]}`);
+  return parts.join(';');
+}
+
+/**
+ * The instant an UNTIL value names, or null if it is malformed.
+ * A plain date is treated as the start of that day in UTC.
+ */
+function untilInstant(value: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const day = parseCivilDate(`${match[1]}-${match[2]}-${match[3]}`);
+  if (day === null) {
+    return null;
+  }
+  return day * DAY_MS + ((Number(match[4] || 0) * 60 + Number(match[5] || 0)) * 60 + Number(match[6] || 0)) * 1000;
+}
+
+/**
+ * The last day a rule's UNTIL allows, in the entry's time zone
+ * A plain date is that calendar day; a UTC date-time is converted to the time zone
+ */
+export function untilDay(rule: RRule, timeZone: string): CivilDay | null {
+  if (rule.until === null) {
+    return null;
+  }
+  const instant = untilInstant(rule.until)!;
+  return rule.until.includes('T') ? civilDayAt(instant, timeZone) : instant / DAY_MS;
+}
+
+// ============================================
+// EXPANSION
+// ============================================
+
+function yearMonthDay(day: CivilDay): { year: number; month: number; date: number } {
+  const d = new Date(day * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), date: d.getUTCDate() };
+}
+
+function firstOfMonth(year: number, month: number): CivilDay {
+  return Date.UTC(year, month, 1) / DAY_MS;
+}
+
+/**
+ * Days in [first, last] matching BYDAY; ordinals count within that span
+ */
+function byDayInSpan(first: CivilDay, last: CivilDay, byDay: WeekdayRule[]): CivilDay[] {
+  const days: CivilDay[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const offset = (weekday - weekdayOf(first) + 7) % 7;
+    const matching: CivilDay[] = [];
+    for (let day = first + offset; day <= last; day += 7) {
+      matching.push(day);
+    }
+    if (ordinal === 0) {
+      days.push(...matching);
+    } else {
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (picked !== undefined) {
+        days.push(picked);
+      }
+    }
+  }
+  return days;
+}
+
+/**
+ * Candidate days for one month of a MONTHLY or YEARLY rule
+ */
+function monthCandidates(rule: RRule, year: number, month: number, startDate: number): CivilDay[] {
+  const first = firstOfMonth(year, month);
+  const last = firstOfMonth(year, month + 1) - 1;
+  const length = last - first + 1;
+
+  let days: CivilDay[] | null = null;
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map((d) => (d > 0 ? d : length + d + 1))
+      .filter((d) => d >= 1 && d <= length)
+      .map((d) => first + d - 1);
+  }
+  if (rule.byDay.length > 0) {
+    const weekdays = byDayInSpan(first, last, rule.byDay);
+    days = days ? days.filter((day) => weekdays.includes(day)) : weekdays;
+  }
+  if (!days) {
+    days = startDate <= length ? [first + startDate - 1] : [];
+  }
+  return days;
+}
+
+/**
+ * Candidate days for the period (day, week, month or year) `index` intervals after the start
+ */
+function periodCandidates(rule: RRule, start: CivilDay, index: number): { first: CivilDay; days: CivilDay[] } {
+  const origin = yearMonthDay(start);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start + index * rule.interval;
+      return { first: day, days: [day] };
+    }
+    case 'WEEKLY': {
+      const weekStart = start - ((weekdayOf(start) - rule.wkst + 7) % 7) + index * rule.interval * 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((day) => day.weekday) : [weekdayOf(start)];
+      const days: CivilDay[] = [];
+      for (let day = weekStart; day < weekStart + 7; day++) {
+        if (weekdays.includes(weekdayOf(day))) {
+          days.push(day);
+        }
+      }
+      return { first: weekStart, days };
+    }
+    case 'MONTHLY': {
+      const month = origin.month + index * rule.interval;
+      return { first: firstOfMonth(origin.year, month), days: monthCandidates(rule, origin.year, month, origin.date) };
+    }
+    case 'YEARLY': {
+      const year = origin.year + index * rule.interval;
+      const first = firstOfMonth(year, 0);
+      if (rule.byMonth.length === 0 && rule.byMonthDay.length === 0 && rule.byDay.length > 0) {
+        // BYDAY ordinals count within the whole year
+        return { first, days: byDayInSpan(first, firstOfMonth(year + 1, 0) - 1, rule.byDay) };
+      }
+      const months = rule.byMonth.length > 0
+        ? rule.byMonth.map((m) => m - 1)
+        : rule.byMonthDay.length > 0 ? [...Array(12).keys()] : [origin.month];
+      return { first, days: months.flatMap((month) => monthCandidates(rule, year, month, origin.date)) };
+    }
+  }
+}
+
+/**
+ * The first period that can hold a day on or after `from`. Periods are
+ * expanded independently, so the ones before it can be skipped.
+ */
+function firstPeriodIndex(rule: RRule, start: CivilDay, from: CivilDay): number {
+  if (from <= start) {
+    return 0;
+  }
+
+  let periods: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      periods = from - start;
+      break;
+    case 'WEEKLY':
+      periods = Math.floor((from - (start - ((weekdayOf(start) - rule.wkst + 7) % 7))) / 7);
+      break;
+    case 'MONTHLY':
+      periods = monthsBetween(start, from);
+      break;
+    case 'YEARLY':
+      periods = yearMonthDay(from).year - yearMonthDay(start).year;
+      break;
+  }
+  return Math.floor(periods / rule.interval);
+}
+
+/**
+ * Days a rule occurs on, in order, from `start` (the entry's date) up to `last`.
+ * Like the iOS engine, the start day is only included if the rule matches it.
+ * COUNT counts from the start, including days later removed by EXDATE.
+ * Without a COUNT, the periods before `from` are skipped rather than walked,
+ * so the first days yielded may still be before `from` but are never far off.
+ */
+export function* rruleDays(rule: RRule, start: CivilDay, from: CivilDay, last: CivilDay): Generator<CivilDay> {
+  let count = 0;
+
+  for (let index = rule.count === null ? firstPeriodIndex(rule, start, from) : 0; ; index++) {
+    const period = periodCandidates(rule, start, index);
+    if (period.first > last) {
+      return;
+    }
+
+    let days = [...new Set(period.days)].sort((a, b) => a - b);
+
+    // BYMONTH limits the other frequencies; YEARLY already expanded by it
+    if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY') {
+      days = days.filter((day) => rule.byMonth.includes(yearMonthDay(day).month + 1));
+    }
+    if (rule.freq === 'DAILY') {
+      if (rule.byMonthDay.length > 0) {
+        days = days.filter((day) => {
+          const { year, month } = yearMonthDay(day);
+          return monthCandidates({ ...rule, byDay: [] }, year, month, 0).includes(day);
+        });
+      }
+      if (rule.byDay.length > 0) {
+        days = days.filter((day) => rule.byDay.some((byDay) => byDay.weekday === weekdayOf(day)));
+      }
+    }
+    if (rule.bySetPos.length > 0) {
+      const all = days;
+      days = rule.bySetPos
+        .map((pos) => (pos > 0 ? all[pos - 1] : all[all.length + pos]))
+        .filter((day): day is CivilDay => day !== undefined)
+        .sort((a, b) => a - b);
+    }
+
+    for (const day of days) {
+      if (day < start) {
+        continue;
+      }
+      if (day > last || (rule.count !== null && count >= rule.count)) {
+        return;
+      }
+      count++;
+      yield day;
+    }
+  }
+}
+
+// ============================================
+// EXCEPTION DATES
+// ============================================
+
+/**
+ * Parse one exception date: `YYYY-MM-DD`, `YYYYMMDD`, or an instant
+ * (ISO 8601 or `YYYYMMDDTHHMMSSZ`) converted to a day in the time zone
+ */
+export function parseExdate(value: unknown, timeZone: string): CivilDay | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const civil = parseCivilDate(value);
+  if (civil !== null) {
+    return civil;
+  }
+  const compact = /^\d{8}(T\d{6}Z)?$/.test(value) ? untilInstant(value) : null;
+  if (compact !== null) {
+    return value.includes('T') ? civilDayAt(compact, timeZone) : compact / DAY_MS;
+  }
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)) ? civilDayAt(Date.parse(value), timeZone) : null;
+}
+
+/**
+ * Check an `exdates` value is a list of dates
+ * Returns an error message, or null if it is valid
+ */
+export function exdatesError(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'exdates must be a list of dates';
+  }
+  const invalid = value.find((item) => parseExdate(item, 'UTC') === null);
+  return invalid === undefined ? null : `Invalid exception date ${JSON.stringify(invalid)}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Schedule endpoints
+ *
+ * - POST /schedule/expand    - Expand a recurring entry into occurrences for a date range
+ * - POST /schedule/conflicts - Overlapping activities across kids, or with a proposed entry
+ */
+
+import { authenticate } from './auth';
+import { DAY_MS, isSupportedYear, isValidTimeZone, MAX_YEAR, MIN_YEAR, parseCivilDate } from './dates';
+import { jsonResponse, readBody } from './http';
+import { userQuery } from './instantdb';
+import { findOverlappingPairs, findOverlapsWith, TimedOccurrence, timedOccurrences } from './overlaps';
+import { ExpandOptions, expandRecurrence, RecurringEntry, recurringEntryError, withoutMaterializedInstances } from './recurrence';
+import { Env } from './types';
+
+// Longest date range a schedule request may cover
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Read the date range, time zone and week start shared by schedule requests
+ * Returns an error message if any of them is invalid
+ */
+export function parseScheduleRange(body: Record<string, any>): ExpandOptions | string {
+  const from = parseCivilDate(body.from);
+  const to = parseCivilDate(body.to);
+  if (from === null || to === null) {
+    return 'from and to must be dates in YYYY-MM-DD format';
+  }
+  if (!isSupportedYear(from * DAY_MS) || !isSupportedYear(to * DAY_MS)) {
+    return `from and to must be in the years ${MIN_YEAR} to ${MAX_YEAR}`;
+  }
+  if (to < from) {
+    return 'to must not be before from';
+  }
+  if (to - from + 1 > MAX_RANGE_DAYS) {
+    return `The range may cover at most ${MAX_RANGE_DAYS} days`;
+  }
+
+  const timeZone = body.timeZone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    return 'timeZone must be an IANA time zone such as "America/New_York"';
+  }
+
+  const firstWeekday = body.firstWeekday ?? 1;
+  if (!Number.isInteger(firstWeekday) || firstWeekday < 1 || firstWeekday > 7) {
+    return 'firstWeekday must be from 1 (Sunday) to 7 (Saturday)';
+  }
+
+  return { from, to, timeZone, firstWeekday };
+}
+
+/**
+ * Handle POST /schedule/expand
+ * Expected body: { "entryId": "..." } or { "entry": { ... } }, plus
+ * { "from": "YYYY-MM-DD", "to": "YYYY-MM-DD", "timeZone": "...", "firstWeekday": 1 }
+ */
+export async function handleScheduleExpand(request: Request, env: Env): Promise<Response> {
+  const body = await readBody(request);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  const options = parseScheduleRange(body);
+  if (typeof options === 'string') {
+    return jsonResponse({ error: options }, 400);
+  }
+
+  let entry: unknown = body.entry;
+  if (typeof body.entryId === 'string' && body.entryId) {
+    // Load the entry as the user, so they can only expand entries they can see
+    const result = await userQuery({
+      customEntries: { $: { where: { id: body.entryId } } },
+    }, auth.impersonation, env);
+    entry = result.customEntries?.[0];
+    if (!entry) {
+      return jsonResponse({ error: 'Entry not found' }, 404);
+    }
+  } else if (entry === undefined) {
+    return jsonResponse({ error: 'entryId or entry is required' }, 400);
+  }
+
+  const problem = recurringEntryError(entry);
+  if (problem) {
+    return jsonResponse({ error: problem }, 400);
+  }
+
+  const { occurrences, truncated } = expandRecurrence(entry as RecurringEntry, options);
+
+  return jsonResponse({
+    entryId: body.entryId ?? null,
+    timeZone: options.timeZone,
+    occurrences,
+    truncated,
+  });
+}
+
+/**
+ * Handle POST /schedule/conflicts
+ * Expected body: { "from": "YYYY-MM-DD", "to": "YYYY-MM-DD", "timeZone": "...", "firstWeekday": 1 },
+ * optionally with "familyId" to limit the scan to one family's kids (otherwise
+ * every kid the user can see), "proposed": { entry fields, "kidProfileId" } to
+ * check a new or edited entry, and "excludeEntryId" for the entry being edited
+ */
+export async function handleScheduleConflicts(request: Request, env: Env): Promise<Response> {
+  const body = await readBody(request);
+  if (!body) {
+    return jsonResponse({ error: 'Malformed JSON body' }, 400);
+  }
+
+  // Validate the access token (or legacy refresh token)
+  const auth = await authenticate(request, body, env);
+  if (!auth) {
+    return jsonResponse({ error: 'Invalid or expired token' }, 401);
+  }
+
+  const options = parseScheduleRange(body);
+  if (typeof options === 'string') {
+    return jsonResponse({ error: options }, 400);
+  }
+
+  const proposed = body.proposed;
+  if (proposed !== undefined) {
+    const problem = recurringEntryError(proposed) ?? (proposed.startTime ? null : 'proposed.startTime is required');
+    if (problem) {
+      return jsonResponse({ error: problem.replace(/^entry/, 'proposed') }, 400);
+    }
+  }
+
+  // Load entries as the user, so only kids they can see are scanned
+  const kidsQuery = { customSections: { customEntries: {} } };
+  const familyId = typeof body.familyId === 'string' && body.familyId ? body.familyId : null;
+  const result = await userQuery(familyId
+    ? {
+      families: { $: { where: { id: familyId } } },
+      kidProfiles: { $: { where: { 'family.id': familyId } }, ...kidsQuery },
+    }
+    : { kidProfiles: kidsQuery }, auth.impersonation, env);
+  if (familyId && !result.families?.[0]) {
+    return jsonResponse({ error: 'Family not found' }, 404);
+  }
+
+  const kids: any[] = result.kidProfiles || [];
+
+  // Leave out the entry being edited. Editing a recurrence template replaces
+  // the whole series, so the rest of its group goes too; editing a single
+  // occurrence leaves the series in place.
+  const excludedId = typeof body.excludeEntryId === 'string' ? body.excludeEntryId : null;
+  const allEntries = kids.flatMap((kid) => (kid.customSections || []).flatMap((section: any) => section.customEntries || []));
+  const excludedEntry = allEntries.find((entry) => entry.id === excludedId);
+  const excludedGroup = excludedEntry?.isRecurrenceTemplate ? excludedEntry.recurrenceGroupId ?? null : null;
+
+  const occurrences: TimedOccurrence[] = [];
+  for (const kid of kids) {
+    for (const section of kid.customSections || []) {
+      for (const entry of withoutMaterializedInstances<RecurringEntry & Record<string, any>>(section.customEntries || [])) {
+        if (entry.id === excludedId || (excludedGroup && entry.recurrenceGroupId === excludedGroup) || recurringEntryError(entry)) {
+          continue;
+        }
+        occurrences.push(...timedOccurrences(entry, {
+          entryId: entry.id,
+          kidProfileId: kid.id,
+          kidName: kid.name ?? null,
+          sectionName: section.name ?? null,
+          title: entry.title ?? null,
+        }, options));
+      }
+    }
+  }
+
+  const { overlaps, truncated } = findOverlappingPairs(occurrences);
+
+  let proposedResult = null;
+  if (proposed !== undefined) {
+    const kid = kids.find((k) => k.id === proposed.kidProfileId);
+    const proposedOccurrences = timedOccurrences(proposed as RecurringEntry, {
+      entryId: excludedId,
+      kidProfileId: typeof proposed.kidProfileId === 'string' ? proposed.kidProfileId : null,
+      kidName: kid?.name ?? null,
+      sectionName: null,
+      title: typeof proposed.title === 'string' ? proposed.title : null,
+    }, options);
+    const { overlaps: proposedOverlaps, truncated: proposedTruncated } = findOverlapsWith(proposedOccurrences, occurrences);
+    proposedResult = { conflicts: proposedOverlaps, truncated: proposedTruncated };
+  }
+
+  return jsonResponse({
+    familyId,
+    timeZone: options.timeZone,
+    conflicts: overlaps,
+    truncated,
+    proposed: proposedResult,
+  });
+}
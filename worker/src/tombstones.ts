@@ -0,0 +1,181 @@
+/**
+ * Tombstones for deleted kid data
+ *
+ * Every delete that passes through /db/transact leaves a tombstone, so other
+ * devices (including other family members') learn about it through
+ * /db/changes instead of pushing the record back. The record itself is gone
+ * once deleted, so each tombstone keeps the parent and family that owned it.
+ *
+ * Updates to a tombstoned record are rejected unless the client forces them,
+ * which restores the record and clears its tombstone. They are authorized
+ * against the owner the tombstone recorded, as the record can't be looked up.
+ */
+
+import { isKidDataEntity, RecordOwner, resolveOwners, StepRef } from './access';
+import { adminQuery, adminTransact } from './instantdb';
+import { Env, UserInfo } from './types';
+import { TransactStep } from './validation';
+
+export interface Tombstone {
+  entity: string;
+  id: string;
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export interface TombstonedStep {
+  index: number;
+  entity: string;
+  id: string;
+  deletedAt: string;
+  deletedBy: string;
+  /** Tombstone records for the id, cleared when a forced update restores it */
+  tombstoneIds: string[];
+  /** Who owned the record when it was deleted */
+  owner: RecordOwner;
+}
+
+function deletedRefs(steps: TransactStep[]): StepRef[] {
+  const refs: StepRef[] = [];
+  for (const [action, entity, id] of steps) {
+    if (action === 'delete' && isKidDataEntity(entity)) {
+      refs.push({ entity, id });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Look up who owns the records a transaction deletes
+ * Must run before the transaction, while the records still exist
+ */
+export async function ownersOfDeletedRecords(steps: TransactStep[], env: Env): Promise<Map<string, RecordOwner>> {
+  const refs = deletedRefs(steps);
+  return refs.length > 0 ? resolveOwners(refs, env) : new Map();
+}
+
+/**
+ * Record a tombstone for each record a transaction deleted
+ */
+export async function recordTombstones(
+  steps: TransactStep[],
+  owners: Map<string, RecordOwner>,
+  user: UserInfo,
+  env: Env
+): Promise<void> {
+  const refs = deletedRefs(steps);
+  if (refs.length === 0) {
+    return;
+  }
+
+  const deletedAt = new Date().toISOString();
+  const tombstoneSteps: TransactStep[] = refs.map(({ entity, id }) => {
+    // Records that were never synced have no owner yet; they were the user's own
+    const owner = owners.get(`${entity}:${id}`);
+    return ['update', 'tombstones', crypto.randomUUID(), {
+      entity,
+      recordId: id,
+      deletedAt,
+      deletedBy: user.id,
+      ownerId: owner?.parentId || user.id,
+      ...(owner?.familyId ? { familyId: owner.familyId } : {}),
+    }];
+  });
+
+  await adminTransact(tombstoneSteps, env);
+}
+
+/**
+ * List tombstones for kid data the user owns or shares through a family,
+ * oldest first, optionally only those recorded at or after `since`
+ */
+export async function listTombstones(
+  user: UserInfo,
+  familyIds: string[],
+  since: string | null,
+  env: Env
+): Promise<Tombstone[]> {
+  const visible = familyIds.length > 0
+    ? { or: [{ ownerId: user.id }, { familyId: { $in: familyIds } }] }
+    : { ownerId: user.id };
+
+  const result = await adminQuery({
+    tombstones: {
+      $: {
+        where: since ? { and: [visible, { deletedAt: { $gte: since } }] } : visible,
+        order: { deletedAt: 'asc' },
+      },
+    },
+  }, env);
+
+  return (result.tombstones || []).map((tombstone: any): Tombstone => ({
+    entity: tombstone.entity,
+    id: tombstone.recordId,
+    deletedAt: tombstone.deletedAt,
+    deletedBy: tombstone.deletedBy,
+  }));
+}
+
+/**
+ * Find update steps that target records which have been deleted
+ */
+export async function findTombstonedSteps(steps: TransactStep[], env: Env): Promise<TombstonedStep[]> {
+  const updated = steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ step: [action, entity] }) => action === 'update' && isKidDataEntity(entity));
+
+  if (updated.length === 0) {
+    return [];
+  }
+
+  const result = await adminQuery({
+    tombstones: {
+      $: { where: { recordId: { $in: [...new Set(updated.map(({ step }) => step[2]))] } } },
+    },
+  }, env);
+
+  // A record deleted more than once has a tombstone per delete
+  const byRecord = new Map<string, any[]>();
+  for (const tombstone of result.tombstones || []) {
+    const key = `${tombstone.entity}:${tombstone.recordId}`;
+    byRecord.set(key, [...(byRecord.get(key) || []), tombstone]);
+  }
+
+  const tombstoned: TombstonedStep[] = [];
+  for (const { step: [, entity, id], index } of updated) {
+    const tombstones = byRecord.get(`${entity}:${id}`);
+    if (!tombstones) {
+      continue;
+    }
+    const latest = tombstones.reduce((a, b) => (a.deletedAt >= b.deletedAt ? a : b));
+    tombstoned.push({
+      index,
+      entity,
+      id,
+      deletedAt: latest.deletedAt,
+      deletedBy: latest.deletedBy,
+      tombstoneIds: tombstones.map((tombstone) => tombstone.id),
+      owner: { parentId: latest.ownerId || null, familyId: latest.familyId || null },
+    });
+  }
+  return tombstoned;
+}
+
+/**
+ * The owners tombstones recorded for deleted records, keyed "entity:id" like
+ * resolveOwners, so updates to them can be authorized
+ */
+export function tombstonedOwners(tombstoned: TombstonedStep[]): Map<string, RecordOwner> {
+  return new Map(tombstoned.map(({ entity, id, owner }) => [`${entity}:${id}`, owner]));
+}
+
+/**
+ * Remove the tombstones of records a forced update restored
+ */
+export async function clearTombstones(tombstoned: TombstonedStep[], env: Env): Promise<void> {
+  const ids = [...new Set(tombstoned.flatMap((step) => step.tombstoneIds))];
+  if (ids.length === 0) {
+    return;
+  }
+  await adminTransact(ids.map((id): TransactStep => ['delete', 'tombstones', id]), env);
+}
@@ -0,0 +1,111 @@
+/**
+ * The write path shared by /db/transact and endpoints that create records
+ * on the user's behalf (such as /import/ics)
+ *
+ * Steps are reviewed against the schema and write policy, authorized against
+ * the user's family roles, checked for deleted records and stale updates, and
+ * only then sent to InstantDB.
+ */
+
+import { authorizeSteps, getFamilyMemberships, withFamilyLinks } from './access';
+import { AuthResult } from './auth';
+import { withSyncTimestamps } from './changes';
+import { findConflicts, withoutStepOptions } from './concurrency';
+import { jsonResponse } from './http';
+import { adminHeaders, INSTANTDB_API } from './instantdb';
+import { reviewSteps } from './policy';
+import { withoutStaleRRules } from './recurrence';
+import { clearTombstones, findTombstonedSteps, ownersOfDeletedRecords, recordTombstones, tombstonedOwners } from './tombstones';
+import { Env } from './types';
+import { asTransactSteps } from './validation';
+
+/**
+ * Either the response rejecting the steps before they were sent, or InstantDB's response
+ */
+export type TransactionOutcome = { rejected: Response } | { upstream: Response };
+
+/**
+ * Check and run transaction steps for an authenticated user
+ * `force` lets updates recreate records that have been deleted
+ */
+export async function runTransaction(
+  rawSteps: unknown[],
+  auth: AuthResult,
+  force: boolean,
+  env: Env
+): Promise<TransactionOutcome> {
+  const { user } = auth;
+
+  // Reject steps outside the schema or the write policy, reporting each one
+  const rejected = reviewSteps(rawSteps);
+  if (rejected.length > 0) {
+    return { rejected: jsonResponse({ error: 'Transaction rejected', rejected }, 400) };
+  }
+  const steps = asTransactSteps(rawSteps);
+
+  // Check the steps against the user's family roles. Deleted records can't be
+  // looked up, so updates to them are authorized against their tombstone's owner.
+  const tombstoned = await findTombstonedSteps(steps, env);
+  const memberships = await getFamilyMemberships(user.id, env);
+  const { denied, shared } = await authorizeSteps(steps, user, memberships, env, tombstonedOwners(tombstoned));
+  if (denied.length > 0) {
+    return {
+      rejected: jsonResponse({
+        error: 'Your family role does not allow these changes',
+        denied,
+      }, 403),
+    };
+  }
+
+  // Don't let updates bring back deleted records unless the client forces it
+  if (tombstoned.length > 0 && !force) {
+    return {
+      rejected: jsonResponse({
+        error: 'Some records have been deleted',
+        tombstoned: tombstoned.map(({ tombstoneIds, owner, ...step }) => step),
+      }, 410),
+    };
+  }
+
+  // Reject stale updates, returning the server copy so the app can merge
+  const conflicts = await findConflicts(steps, auth, env);
+  if (conflicts.length > 0) {
+    return {
+      rejected: jsonResponse({
+        error: 'Some records were changed since you last synced',
+        conflicts,
+      }, 409),
+    };
+  }
+
+  // Edits to the legacy recurrence fields replace the rrule derived from them
+  const currentSteps = await withoutStaleRRules(steps, env);
+
+  // Share newly created kid profiles with the family the user owns, and stamp
+  // the write time that /db/changes syncs by
+  const outgoingSteps = withoutStepOptions(withSyncTimestamps(await withFamilyLinks(currentSteps, user, env)));
+
+  // Deleted records can't be looked up afterwards, so find their owners now
+  const deletedOwners = await ownersOfDeletedRecords(steps, env);
+
+  // Forward to InstantDB Admin API. Writes to the user's own data impersonate
+  // the user so permission rules apply. Writes to family-shared data have been
+  // authorized above against the member's role and run with the admin token.
+  console.log('Sending transact to InstantDB:', JSON.stringify(outgoingSteps).substring(0, 500));
+
+  const response = await fetch(`${INSTANTDB_API}/admin/transact`, {
+    method: 'POST',
+    headers: adminHeaders(env, shared ? {} : auth.impersonation),
+    body: JSON.stringify({ steps: outgoingSteps }),
+  });
+
+  if (response.ok) {
+    // The deletes already happened, so a failure here is logged rather than returned
+    await recordTombstones(steps, deletedOwners, user, env)
+      .catch((error) => console.error('Failed to record tombstones:', error));
+    await clearTombstones(tombstoned, env)
+      .catch((error) => console.error('Failed to clear tombstones:', error));
+  }
+
+  return { upstream: response };
+}
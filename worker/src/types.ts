@@ -0,0 +1,15 @@
+/**
+ * Shared types for the DB proxy
+ */
+
+export interface Env {
+  INSTANTDB_APP_ID: string;
+  INSTANTDB_ADMIN_TOKEN: string;
+  SESSION_SECRET: string;
+  TOKEN_CACHE_KV?: KVNamespace;
+}
+
+export interface UserInfo {
+  id: string;
+  email: string;
+}
@@ -0,0 +1,429 @@
+/**
+ * Schema validation for queries and transactions
+ *
+ * Checks incoming InstaQL queries and transaction steps against AppSchema
+ * (instant.schema.ts) so that unknown entities, unknown attributes and wrong
+ * value types are rejected with a descriptive 400 instead of an opaque
+ * upstream error.
+ */
+
+import schema, { AppSchema } from '../instant.schema';
+import { exdatesError, parseRRule } from './rrule';
+
+export type EntityName = keyof AppSchema['entities'] & string;
+
+export type StepAction = 'update' | 'merge' | 'link' | 'unlink' | 'delete';
+
+/** Proxy-only options on a step; stripped before the step reaches InstantDB */
+export interface StepOptions {
+  /** Reject the update if the stored record's serverUpdatedAt differs (optimistic concurrency) */
+  expectedUpdatedAt?: string;
+}
+
+/** A transaction step: [action, entity, id, attrs or link targets, options] */
+export type TransactStep = [StepAction, EntityName, string, Record<string, unknown>?, StepOptions?];
+
+export interface ValidationIssue {
+  /** Where the problem is, e.g. `steps[2][3].rating` */
+  path: string;
+  message: string;
+}
+
+type ValueType = 'string' | 'number' | 'boolean' | 'date' | 'json';
+
+interface AttrDef {
+  valueType: ValueType;
+  required: boolean;
+}
+
+interface LinkDef {
+  entityName: string;
+  cardinality: 'one' | 'many';
+}
+
+interface EntityDef {
+  attrs: Record<string, AttrDef>;
+  links: Record<string, LinkDef>;
+}
+
+const entities = schema.entities as unknown as Record<string, EntityDef>;
+
+const STEP_ACTIONS: StepAction[] = ['update', 'merge', 'link', 'unlink', 'delete'];
+
+// Query options InstantDB accepts under `$`
+const QUERY_OPTIONS = ['where', 'fields', 'order', 'limit', 'offset', 'first', 'last', 'before', 'after'];
+
+// Operators accepted in a where clause, and the value each one expects
+const WHERE_OPERATORS: Record<string, 'value' | 'values' | 'boolean' | 'string'> = {
+  $in: 'values',
+  $not: 'value',
+  $isNull: 'boolean',
+  $gt: 'value',
+  $gte: 'value',
+  $lt: 'value',
+  $lte: 'value',
+  $like: 'string',
+  $ilike: 'string',
+};
+
+// Attributes whose values have a format beyond their value type
+const ATTR_FORMATS: Record<string, (value: unknown) => string | null> = {
+  'customEntries.rrule': (value) => {
+    const rule = parseRRule(value as string);
+    return typeof rule === 'string' ? rule : null;
+  },
+  'customEntries.exdates': exdatesError,
+};
+
+export function isEntityName(name: string): name is EntityName {
+  return Object.prototype.hasOwnProperty.call(entities, name);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against an attribute's value type
+ * Returns a message describing the mismatch, or null if the value fits
+ */
+function checkValue(value: unknown, valueType: ValueType): string | null {
+  switch (valueType) {
+    case 'json':
+      return null;
+    case 'date':
+      // Dates are sent as ISO strings or epoch milliseconds
+      if ((typeof value === 'string' && !Number.isNaN(Date.parse(value))) || typeof value === 'number') {
+        return null;
+      }
+      return `expected a date, got ${describe(value)}`;
+    default:
+      return typeof value === valueType ? null : `expected a ${valueType}, got ${describe(value)}`;
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Validate an InstaQL query against the schema
+ * Returns the problems found; an empty list means the query is valid
+ */
+export function validateQuery(query: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!isPlainObject(query)) {
+    issues.push({ path: 'query', message: `expected an object, got ${describe(query)}` });
+    return issues;
+  }
+
+  for (const [entity, node] of Object.entries(query)) {
+    if (!isEntityName(entity)) {
+      issues.push({ path: `query.${entity}`, message: `unknown entity "${entity}"` });
+      continue;
+    }
+    validateQueryNode(entity, node, `query.${entity}`, issues);
+  }
+
+  return issues;
+}
+
+function validateQueryNode(entity: string, node: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!isPlainObject(node)) {
+    issues.push({ path, message: `expected an object, got ${describe(node)}` });
+    return;
+  }
+
+  const def = entities[entity];
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '$') {
+      validateQueryOptions(entity, value, `${path}.$`, issues);
+      continue;
+    }
+
+    const link = def.links[key];
+    if (!link) {
+      issues.push({ path: `${path}.${key}`, message: `unknown link "${key}" on ${entity}` });
+      continue;
+    }
+    validateQueryNode(link.entityName, value, `${path}.${key}`, issues);
+  }
+}
+
+function validateQueryOptions(entity: string, options: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!isPlainObject(options)) {
+    issues.push({ path, message: `expected an object, got ${describe(options)}` });
+    return;
+  }
+
+  const def = entities[entity];
+
+  for (const [option, value] of Object.entries(options)) {
+    const optionPath = `${path}.${option}`;
+
+    if (!QUERY_OPTIONS.includes(option)) {
+      issues.push({ path: optionPath, message: `unknown query option "${option}"` });
+      continue;
+    }
+
+    switch (option) {
+      case 'where':
+        validateWhere(entity, value, optionPath, issues);
+        break;
+      case 'fields':
+        if (!Array.isArray(value)) {
+          issues.push({ path: optionPath, message: `expected an array, got ${describe(value)}` });
+          break;
+        }
+        value.forEach((field, index) => {
+          if (typeof field !== 'string' || (field !== 'id' && !def.attrs[field])) {
+            issues.push({ path: `${optionPath}[${index}]`, message: `unknown attribute "${String(field)}" on ${entity}` });
+          }
+        });
+        break;
+      case 'order':
+        if (!isPlainObject(value)) {
+          issues.push({ path: optionPath, message: `expected an object, got ${describe(value)}` });
+          break;
+        }
+        for (const [attr, direction] of Object.entries(value)) {
+          if (attr !== 'serverCreatedAt' && !def.attrs[attr]) {
+            issues.push({ path: `${optionPath}.${attr}`, message: `unknown attribute "${attr}" on ${entity}` });
+          } else if (direction !== 'asc' && direction !== 'desc') {
+            issues.push({ path: `${optionPath}.${attr}`, message: 'expected "asc" or "desc"' });
+          }
+        }
+        break;
+      case 'limit':
+      case 'offset':
+      case 'first':
+      case 'last':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          issues.push({ path: optionPath, message: 'expected a non-negative integer' });
+        }
+        break;
+    }
+  }
+}
+
+function validateWhere(entity: string, where: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!isPlainObject(where)) {
+    issues.push({ path, message: `expected an object, got ${describe(where)}` });
+    return;
+  }
+
+  for (const [key, condition] of Object.entries(where)) {
+    const conditionPath = `${path}.${key}`;
+
+    if (key === 'and' || key === 'or') {
+      if (!Array.isArray(condition)) {
+        issues.push({ path: conditionPath, message: `expected an array, got ${describe(condition)}` });
+        continue;
+      }
+      condition.forEach((clause, index) => validateWhere(entity, clause, `${conditionPath}[${index}]`, issues));
+      continue;
+    }
+
+    const resolved = resolveWherePath(entity, key);
+    if ('error' in resolved) {
+      issues.push({ path: conditionPath, message: resolved.error });
+      continue;
+    }
+    validateCondition(condition, resolved.valueType, conditionPath, issues);
+  }
+}
+
+/**
+ * Follow a dotted where path (`section.kidProfile.id`) through the schema
+ * Returns the value type of the attribute it ends on, or an error message
+ */
+function resolveWherePath(entity: string, path: string): { valueType: ValueType } | { error: string } {
+  const segments = path.split('.');
+  let current = entity;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const def = entities[current];
+    const last = i === segments.length - 1;
+
+    if (segment === 'id') {
+      return last ? { valueType: 'string' } : { error: `"id" must be the last segment of "${path}"` };
+    }
+
+    const link = def.links[segment];
+    if (link) {
+      if (last) {
+        // Filtering on a link label compares the linked record's id
+        return { valueType: 'string' };
+      }
+      current = link.entityName;
+      continue;
+    }
+
+    const attr = def.attrs[segment];
+    if (attr && last) {
+      return { valueType: attr.valueType };
+    }
+    return {
+      error: attr
+        ? `"${segment}" is an attribute of ${current}, not a link`
+        : `unknown attribute "${segment}" on ${current}`,
+    };
+  }
+
+  return { error: `invalid where path "${path}"` };
+}
+
+function validateCondition(condition: unknown, valueType: ValueType, path: string, issues: ValidationIssue[]): void {
+  if (!isPlainObject(condition) || valueType === 'json') {
+    const problem = checkValue(condition, valueType);
+    if (problem) {
+      issues.push({ path, message: problem });
+    }
+    return;
+  }
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    const operatorPath = `${path}.${operator}`;
+    const expects = WHERE_OPERATORS[operator];
+
+    if (!expects) {
+      issues.push({ path: operatorPath, message: `unknown operator "${operator}"` });
+      continue;
+    }
+
+    let problem: string | null = null;
+    if (expects === 'values') {
+      problem = Array.isArray(operand)
+        ? operand.map((item) => checkValue(item, valueType)).find(Boolean) || null
+        : `expected an array, got ${describe(operand)}`;
+    } else if (expects === 'boolean' || expects === 'string') {
+      problem = typeof operand === expects ? null : `expected a ${expects}, got ${describe(operand)}`;
+    } else {
+      problem = checkValue(operand, valueType);
+    }
+
+    if (problem) {
+      issues.push({ path: operatorPath, message: problem });
+    }
+  }
+}
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+/**
+ * Validate a transaction step against the schema
+ * Returns the problems found; an empty list means the step is valid
+ */
+export function validateStep(step: unknown, index: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkStep(step, `steps[${index}]`, issues);
+  return issues;
+}
+
+/**
+ * Narrow validated steps to their typed form
+ */
+export function asTransactSteps(steps: unknown[]): TransactStep[] {
+  return steps as TransactStep[];
+}
+
+function checkStep(step: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!Array.isArray(step)) {
+    issues.push({ path, message: `expected an array, got ${describe(step)}` });
+    return;
+  }
+
+  const [action, entity, id, attrs, options] = step;
+
+  if (!STEP_ACTIONS.includes(action)) {
+    issues.push({ path: `${path}[0]`, message: `unknown action "${String(action)}"` });
+    return;
+  }
+  if (typeof entity !== 'string' || !isEntityName(entity)) {
+    issues.push({ path: `${path}[1]`, message: `unknown entity "${String(entity)}"` });
+    return;
+  }
+  if (typeof id !== 'string' || id === '') {
+    issues.push({ path: `${path}[2]`, message: 'expected a non-empty string id' });
+    return;
+  }
+
+  if (step.length > 4) {
+    checkStepOptions(action, options, `${path}[4]`, issues);
+  }
+
+  if (action === 'delete') {
+    return;
+  }
+
+  if (!isPlainObject(attrs)) {
+    issues.push({ path: `${path}[3]`, message: `expected an object, got ${describe(attrs)}` });
+    return;
+  }
+
+  const def = entities[entity];
+
+  if (action === 'link' || action === 'unlink') {
+    for (const [label, target] of Object.entries(attrs)) {
+      const targetPath = `${path}[3].${label}`;
+      if (!def.links[label]) {
+        issues.push({ path: targetPath, message: `unknown link "${label}" on ${entity}` });
+      } else if (!(typeof target === 'string' || (Array.isArray(target) && target.every((t) => typeof t === 'string')))) {
+        issues.push({ path: targetPath, message: 'expected an id or an array of ids' });
+      }
+    }
+    return;
+  }
+
+  // update / merge
+  for (const [attr, value] of Object.entries(attrs)) {
+    const attrPath = `${path}[3].${attr}`;
+    const attrDef = def.attrs[attr];
+
+    if (!attrDef) {
+      issues.push({ path: attrPath, message: `unknown attribute "${attr}" on ${entity}` });
+      continue;
+    }
+    if (value === null) {
+      if (attrDef.required) {
+        issues.push({ path: attrPath, message: `"${attr}" is required on ${entity} and cannot be null` });
+      }
+      continue;
+    }
+
+    const problem = checkValue(value, attrDef.valueType) ?? ATTR_FORMATS[`${entity}.${attr}`]?.(value) ?? null;
+    if (problem) {
+      issues.push({ path: attrPath, message: problem });
+    }
+  }
+}
+
+function checkStepOptions(action: StepAction, options: unknown, path: string, issues: ValidationIssue[]): void {
+  if (action !== 'update' && action !== 'merge') {
+    issues.push({ path, message: 'options are only supported on update steps' });
+    return;
+  }
+  if (!isPlainObject(options)) {
+    issues.push({ path, message: `expected an object, got ${describe(options)}` });
+    return;
+  }
+
+  for (const [option, value] of Object.entries(options)) {
+    if (option !== 'expectedUpdatedAt') {
+      issues.push({ path: `${path}.${option}`, message: `unknown step option "${option}"` });
+    } else if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      issues.push({ path: `${path}.${option}`, message: 'expected an ISO 8601 timestamp' });
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseCursors, withSyncTimestamps } from '../src/changes';
+import { fakeInstantDB, post, user } from './helpers';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseCursors', () => {
+  it('applies since to every cursor the body doesn\'t set, normalized to ISO', () => {
+    expect(parseCursors({ since: '2026-01-05T10:00:00Z', cursors: { customEntries: '2026-01-06T10:00:00.250Z' } })).toEqual({
+      kidProfiles: '2026-01-05T10:00:00.000Z',
+      customSections: '2026-01-05T10:00:00.000Z',
+      customEntries: '2026-01-06T10:00:00.250Z',
+      mediaEntries: '2026-01-05T10:00:00.000Z',
+      tombstones: '2026-01-05T10:00:00.000Z',
+    });
+    expect(parseCursors({})).toEqual({});
+  });
+
+  it('rejects malformed and unknown cursors', () => {
+    expect(parseCursors({ since: 'yesterday' })).toBe('since must be an ISO 8601 timestamp');
+    expect(parseCursors({ cursors: ['2026-01-05T10:00:00Z'] })).toBe('cursors must be an object');
+    expect(parseCursors({ cursors: { mediaEntries: 5 } })).toBe('cursors.mediaEntries must be an ISO 8601 timestamp');
+    expect(parseCursors({ cursors: { families: '2026-01-05T10:00:00Z' } })).toBe('unknown cursor "families"');
+  });
+});
+
+describe('withSyncTimestamps', () => {
+  const now = new Date('2026-01-05T10:00:00.000Z');
+  const serverUpdatedAt = now.toISOString();
+
+  it('stamps updates, keeping their options', () => {
+    expect(withSyncTimestamps([
+      ['update', 'customEntries', 'entry-1', { title: 'Swim' }, { expectedUpdatedAt: '2026-01-04T10:00:00Z' }],
+      ['update', 'kidProfiles', 'kid-1', { name: 'Sam' }],
+    ], now)).toEqual([
+      ['update', 'customEntries', 'entry-1', { title: 'Swim', serverUpdatedAt }, { expectedUpdatedAt: '2026-01-04T10:00:00Z' }],
+      ['update', 'kidProfiles', 'kid-1', { name: 'Sam', serverUpdatedAt }],
+    ]);
+  });
+
+  it('adds a stamp for records that are only linked, unless they\'re written or deleted', () => {
+    expect(withSyncTimestamps([
+      ['link', 'customSections', 'section-1', { kidProfile: 'kid-1' }],
+      ['update', 'customEntries', 'entry-1', { title: 'Swim' }],
+      ['link', 'customEntries', 'entry-1', { section: 'section-1' }],
+      ['unlink', 'mediaEntries', 'media-1', { kidProfile: 'kid-1' }],
+      ['delete', 'mediaEntries', 'media-1'],
+    ], now)).toEqual([
+      ['link', 'customSections', 'section-1', { kidProfile: 'kid-1' }],
+      ['update', 'customEntries', 'entry-1', { title: 'Swim', serverUpdatedAt }],
+      ['link', 'customEntries', 'entry-1', { section: 'section-1' }],
+      ['unlink', 'mediaEntries', 'media-1', { kidProfile: 'kid-1' }],
+      ['delete', 'mediaEntries', 'media-1'],
+      ['update', 'customSections', 'section-1', { serverUpdatedAt }],
+    ]);
+  });
+});
+
+describe('POST /db/changes', () => {
+  const entries = [
+    { id: 'entry-1', title: 'Swim', serverUpdatedAt: '2026-01-05T10:00:00.000Z' },
+    { id: 'entry-2', title: 'Piano', serverUpdatedAt: '2026-01-06T09:00:00.000Z' },
+    // Written before the stamp existed
+    { id: 'entry-3', title: 'Chess', updatedAt: '2026-01-06T12:00:00.000Z' },
+  ];
+  const tombstone = {
+    id: 'tombstone-1', entity: 'customEntries', recordId: 'entry-0', deletedAt: '2026-01-05T11:00:00.000Z', deletedBy: user.id, ownerId: user.id,
+  };
+
+  // Filter the way InstantDB would for the where clauses changedRecords and listTombstones build
+  function answers(query: any) {
+    if (query.familyMembers) {
+      return { families: [], familyMembers: [] };
+    }
+    if (query.tombstones) {
+      const since = query.tombstones.$.where.and?.[1].deletedAt.$gte;
+      return { tombstones: [tombstone].filter(({ deletedAt }) => !since || deletedAt >= since) };
+    }
+    if (query.customEntries) {
+      const since = query.customEntries.$?.where.or[0].serverUpdatedAt.$gte;
+      return {
+        customEntries: entries.filter((entry) => !since || (entry.serverUpdatedAt ?? entry.updatedAt)! >= since),
+      };
+    }
+    return {};
+  }
+
+  it('returns everything on the first sync and cursors that continue from it', async () => {
+    const db = fakeInstantDB(answers);
+
+    const first = await post('/db/changes', {});
+    expect(first.status).toBe(200);
+    const { changes, deleted, cursors } = await first.json() as any;
+    expect(changes.customEntries).toEqual(entries);
+    expect(changes.kidProfiles).toEqual([]);
+    expect(deleted).toEqual([{ entity: 'customEntries', id: 'entry-0', deletedAt: tombstone.deletedAt, deletedBy: user.id }]);
+    // Records without a stamp don't move the cursor, so they're sent again until next written
+    expect(cursors).toEqual({ customEntries: '2026-01-06T09:00:00.000Z', tombstones: tombstone.deletedAt });
+
+    db.queries.length = 0;
+    const next = await post('/db/changes', { cursors });
+    const result = await next.json() as any;
+
+    expect(result.changes.customEntries.map((entry: any) => entry.id)).toEqual(['entry-2', 'entry-3']);
+    expect(result.deleted).toEqual([deleted[0]]);
+    expect(result.cursors).toEqual(cursors);
+    // Kid data is read as the user, so permission rules apply
+    expect(db.queries.find(({ query }) => query.customEntries)).toEqual({
+      query: {
+        customEntries: {
+          $: {
+            where: {
+              or: [
+                { serverUpdatedAt: { $gte: cursors.customEntries } },
+                { and: [{ serverUpdatedAt: { $isNull: true } }, { updatedAt: { $gte: cursors.customEntries } }] },
+              ],
+            },
+          },
+          section: {},
+        },
+      },
+      as: user.email,
+    });
+  });
+
+  it('rejects malformed cursors', async () => {
+    fakeInstantDB(answers);
+
+    const response = await post('/db/changes', { cursors: { customEntries: 'last week' } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'cursors.customEntries must be an ISO 8601 timestamp' });
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fakeInstantDB, post, user } from './helpers';
+
+// Another device wrote the entry after this one last synced, without bumping updatedAt
+const stored = {
+  id: 'entry-1',
+  title: 'Swimming',
+  updatedAt: '2026-01-05T10:00:00Z',
+  serverUpdatedAt: '2026-01-05T10:04:00.512Z',
+};
+
+// The user sees their own entry; `visible` is false for someone else's
+function answers(visible = true) {
+  return (query: any, as: string | null) => {
+    if (query.customEntries && as === user.email) {
+      return { customEntries: visible ? [stored] : [] };
+    }
+    return {};
+  };
+}
+
+function update(expectedUpdatedAt: string) {
+  return { steps: [['update', 'customEntries', stored.id, { title: 'Swim class' }, { expectedUpdatedAt }]] };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('stale update checks', () => {
+  it('writes when the expected time matches the server stamp, without the option', async () => {
+    const db = fakeInstantDB(answers());
+
+    const response = await post('/db/transact', update('2026-01-05T10:04:00.512Z'));
+
+    expect(response.status).toBe(200);
+    expect(db.transactions).toEqual([
+      [['update', 'customEntries', stored.id, { title: 'Swim class', serverUpdatedAt: expect.any(String) }]],
+    ]);
+  });
+
+  it('returns 409 with the current copy when the client-written updatedAt matches but the stamp moved on', async () => {
+    const db = fakeInstantDB(answers());
+
+    const response = await post('/db/transact', update(stored.updatedAt));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: 'Some records were changed since you last synced',
+      conflicts: [{
+        index: 0,
+        entity: 'customEntries',
+        id: stored.id,
+        expectedUpdatedAt: stored.updatedAt,
+        serverUpdatedAt: stored.serverUpdatedAt,
+        current: stored,
+      }],
+    });
+    expect(db.transactions).toEqual([]);
+  });
+
+  it('returns current: null for a record the user can\'t see', async () => {
+    const db = fakeInstantDB(answers(false));
+
+    const response = await post('/db/transact', update(stored.serverUpdatedAt));
+
+    expect(response.status).toBe(409);
+    expect((await response.json() as any).conflicts).toEqual([{
+      index: 0, entity: 'customEntries', id: stored.id, expectedUpdatedAt: stored.serverUpdatedAt, serverUpdatedAt: null, current: null,
+    }]);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it('compares records written before the stamp existed by updatedAt', async () => {
+    const { serverUpdatedAt, ...unstamped } = stored;
+    fakeInstantDB((query, as) => (query.customEntries && as ? { customEntries: [unstamped] } : {}));
+
+    const response = await post('/db/transact', update('2026-01-05T10:00:00.000Z'));
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { addMonths, civilDayAt, formatCivilDate, instantAt, parseCivilDate, timeOfDayAt, utcOffsetAt, weekdayOf } from '../src/dates';
+
+function day(value: string): number {
+  const parsed = parseCivilDate(value);
+  if (parsed === null) {
+    throw new Error(`Invalid date ${value}`);
+  }
+  return parsed;
+}
+
+describe('parseCivilDate', () => {
+  it('round-trips valid dates', () => {
+    expect(formatCivilDate(day('2026-03-08'))).toBe('2026-03-08');
+  });
+
+  it('accepts Feb 29 only in leap years', () => {
+    expect(parseCivilDate('2028-02-29')).not.toBeNull();
+    expect(parseCivilDate('2026-02-29')).toBeNull();
+  });
+
+  it.each(['2026-13-01', '2026-04-31', '2026-3-8', '2026-03-08T00:00:00Z', 20260308])('rejects %s', (value) => {
+    expect(parseCivilDate(value)).toBeNull();
+  });
+});
+
+describe('weekdayOf', () => {
+  it('numbers days like Foundation, from 1 = Sunday', () => {
+    expect(weekdayOf(day('2026-03-08'))).toBe(1);
+    expect(weekdayOf(day('2026-03-14'))).toBe(7);
+  });
+});
+
+describe('addMonths', () => {
+  it.each([
+    ['2026-01-31', 1, '2026-02-28'],
+    ['2028-01-31', 1, '2028-02-29'],
+    ['2026-01-31', 2, '2026-03-31'],
+    ['2026-01-31', 3, '2026-04-30'],
+    ['2026-03-31', -1, '2026-02-28'],
+    ['2026-11-30', 3, '2027-02-28'],
+    ['2026-01-15', 12, '2027-01-15'],
+  ])('%s + %i months is %s', (start, months, expected) => {
+    expect(formatCivilDate(addMonths(day(start), months))).toBe(expected);
+  });
+});
+
+describe('time zones', () => {
+  const newYork = 'America/New_York';
+
+  it('reads the calendar date in the time zone', () => {
+    expect(formatCivilDate(civilDayAt(Date.parse('2026-01-01T03:00:00Z'), newYork))).toBe('2025-12-31');
+    expect(formatCivilDate(civilDayAt(Date.parse('2026-01-01T03:00:00Z'), 'Asia/Tokyo'))).toBe('2026-01-01');
+  });
+
+  it('follows the offset across DST', () => {
+    expect(utcOffsetAt(Date.parse('2026-03-08T06:59:00Z'), newYork)).toBe(-300);
+    expect(utcOffsetAt(Date.parse('2026-03-08T07:00:00Z'), newYork)).toBe(-240);
+  });
+
+  it('reads the time of day in the time zone', () => {
+    expect(timeOfDayAt(Date.parse('2026-07-01T13:30:00Z'), newYork)).toEqual({ hour: 9, minute: 30 });
+  });
+
+  it('keeps a wall clock time on both sides of a DST change', () => {
+    const nine = { hour: 9, minute: 0 };
+
+    expect(instantAt(day('2026-03-07'), nine, newYork).toISOString()).toBe('2026-03-07T14:00:00.000Z');
+    expect(instantAt(day('2026-03-08'), nine, newYork).toISOString()).toBe('2026-03-08T13:00:00.000Z');
+    expect(instantAt(day('2026-11-01'), nine, newYork).toISOString()).toBe('2026-11-01T14:00:00.000Z');
+  });
+
+  it('moves times skipped by the spring change forward by the gap', () => {
+    expect(instantAt(day('2026-03-08'), { hour: 2, minute: 30 }, newYork).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('uses the first of the times repeated by the autumn change', () => {
+    expect(instantAt(day('2026-11-01'), { hour: 1, minute: 30 }, newYork).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
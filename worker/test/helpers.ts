@@ -0,0 +1,79 @@
+/**
+ * Test helpers: a fake InstantDB admin API and signed requests
+ */
+
+import { vi } from 'vitest';
+import worker from '../src/index';
+import { Env, UserInfo } from '../src/types';
+
+export const env: Env = {
+  INSTANTDB_APP_ID: 'app-id',
+  INSTANTDB_ADMIN_TOKEN: 'admin-token',
+  SESSION_SECRET: 'session-secret',
+};
+
+export const user: UserInfo = { id: 'user-1', email: 'parent@example.com' };
+
+export interface FakeInstantDB {
+  /** Queries sent to /admin/query, in order, with the user they impersonate */
+  queries: { query: any; as: string | null }[];
+  /** Steps of each transaction sent to /admin/transact, in order */
+  transactions: any[][];
+}
+
+/**
+ * Replace fetch with a fake InstantDB admin API. `answer` returns the result
+ * of each query (`as` is the impersonated email, or null for admin queries);
+ * transactions are recorded and succeed.
+ */
+export function fakeInstantDB(answer: (query: any, as: string | null) => object): FakeInstantDB {
+  const db: FakeInstantDB = { queries: [], transactions: [] };
+
+  vi.stubGlobal('fetch', async (input: RequestInfo, init?: RequestInit) => {
+    const url = String(input);
+    const body = JSON.parse(String(init?.body));
+    const as = (init?.headers as Record<string, string>)['As-Email'] ?? null;
+    if (url.endsWith('/admin/transact')) {
+      db.transactions.push(body.steps);
+      return Response.json({});
+    }
+    if (url.endsWith('/admin/query')) {
+      db.queries.push({ query: body.query, as });
+      return Response.json(answer(body.query, as));
+    }
+    throw new Error(`Unexpected fetch: ${url}`);
+  });
+
+  return db;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * An access token for a user, as the auth proxy's /auth/session issues
+ */
+export async function accessToken(forUser: UserInfo = user): Promise<string> {
+  const encoder = new TextEncoder();
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = base64Url(encoder.encode(JSON.stringify({
+    iss: 'mighty-auth', sub: forUser.id, email: forUser.email, iat: now, exp: now + 600,
+  })));
+  const key = await crypto.subtle.importKey('raw', encoder.encode(env.SESSION_SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Send a signed-in POST request through the worker
+ */
+export async function post(path: string, body: unknown, forUser: UserInfo = user): Promise<Response> {
+  const request = new Request(`https://db.example.com${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${await accessToken(forUser)}` },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return worker.fetch(request, env, {} as ExecutionContext);
+}
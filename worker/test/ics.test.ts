@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { calendarEntries } from '../src/importIcs';
+import { IcsComponent, parseCalendar } from '../src/ics';
+
+function calendar(...lines: string[]): IcsComponent {
+  const parsed = parseCalendar(['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n'));
+  if (typeof parsed === 'string') {
+    throw new Error(parsed);
+  }
+  return parsed;
+}
+
+function event(...lines: string[]): string[] {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+}
+
+const newYork = 'America/New_York';
+
+// A recurring event as Google Calendar exports it, with a moved and a cancelled instance
+const googleExport = [
+  'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+  'X-WR-TIMEZONE:America/New_York',
+  'BEGIN:VTIMEZONE',
+  'TZID:America/New_York',
+  'X-LIC-LOCATION:America/New_York',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0500',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+  ...event(
+    'DTSTART;TZID=America/New_York:20260105T160000',
+    'DTEND;TZID=America/New_York:20260105T170000',
+    'RRULE:FREQ=WEEKLY;WKST=SU;UNTIL=20260601T035959Z;BYDAY=MO,WE',
+    'EXDATE;TZID=America/New_York:20260119T160000',
+    'DTSTAMP:20260101T000000Z',
+    'UID:swim-123@google.com',
+    'DESCRIPTION:Bring goggles\\, towel and a snack.\\nMeet at the side entrance ',
+    ' by the bike racks.',
+    'LOCATION:Community Pool',
+    'SUMMARY:Swim practice',
+  ),
+  ...event(
+    'UID:swim-123@google.com',
+    'RECURRENCE-ID;TZID=America/New_York:20260121T160000',
+    'DTSTART;TZID=America/New_York:20260121T170000',
+    'DTEND;TZID=America/New_York:20260121T180000',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+    'SUMMARY:Swim practice (late)',
+  ),
+  ...event(
+    'UID:swim-123@google.com',
+    'RECURRENCE-ID;TZID=America/New_York:20260126T160000',
+    'DTSTART;TZID=America/New_York:20260126T160000',
+    'STATUS:CANCELLED',
+    'SUMMARY:Swim practice',
+  ),
+  ...event(
+    'UID:camp@google.com',
+    'DTSTART;VALUE=DATE:20260214',
+    'DTEND;VALUE=DATE:20260217',
+    'SUMMARY:Winter camp',
+  ),
+];
+
+describe('parseCalendar', () => {
+  it('skips a byte order mark, unfolds lines and reads parameters, including quoted ones', () => {
+    const parsed = parseCalendar('\uFEFFBEGIN:VCALENDAR\nBEGIN:VEVENT\nDESCRIPTION;ALTREP="cid:part1@example.com";LANGUAGE=en:Line one\n\t and two\nEND:VEVENT\nEND:VCALENDAR\n') as IcsComponent;
+
+    expect(parsed.components[0].properties).toEqual([
+      { name: 'DESCRIPTION', params: { ALTREP: 'cid:part1@example.com', LANGUAGE: 'en' }, value: 'Line one and two' },
+    ]);
+  });
+
+  it.each([
+    ['a line without a colon', 'BEGIN:VCALENDAR\r\nnot a property\r\nEND:VCALENDAR', 'Line 2 is not a valid iCalendar content line'],
+    ['a parameter without a value', 'BEGIN:VCALENDAR\r\nDTSTART;TZID:20260105\r\nEND:VCALENDAR', 'Line 2 is not a valid iCalendar content line'],
+    ['mismatched END', 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR', 'Line 3: END:VCALENDAR does not match BEGIN:VEVENT'],
+    ['END without BEGIN', 'END:VEVENT', 'Line 1: END:VEVENT does not match BEGIN:(none)'],
+    ['an unclosed component', 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT', 'BEGIN:VEVENT is never closed'],
+    ['no VCALENDAR', 'BEGIN:VEVENT\r\nEND:VEVENT', 'No VCALENDAR found'],
+  ])('rejects %s', (_, text, error) => {
+    expect(parseCalendar(text)).toBe(error);
+  });
+});
+
+describe('calendarEntries', () => {
+  it('maps a Google Calendar export', () => {
+    const { entries, warnings } = calendarEntries(calendar(...googleExport), newYork);
+
+    expect(warnings).toEqual([]);
+    expect(entries).toEqual([
+      {
+        uid: 'swim-123@google.com',
+        day: '2026-01-05',
+        duplicate: false,
+        attrs: {
+          title: 'Swim practice',
+          date: '2026-01-05T05:00:00Z',
+          notes: 'Bring goggles, towel and a snack.\nMeet at the side entrance by the bike racks.\n\nLocation: Community Pool',
+          startTime: '2026-01-05T21:00:00Z',
+          endTime: '2026-01-05T22:00:00Z',
+          rrule: 'FREQ=WEEKLY;UNTIL=20260601T035959Z;BYDAY=MO,WE;WKST=SU',
+          isRecurrenceTemplate: true,
+          recurrenceGroupId: expect.any(String),
+          recurrencePatternRaw: 'weekly',
+          recurrenceWeekdays: [2, 4],
+          recurrenceEndDate: '2026-05-31T04:00:00Z',
+          // The EXDATE plus the moved and the cancelled instance
+          exdates: ['2026-01-19', '2026-01-21', '2026-01-26'],
+        },
+      },
+      {
+        // The moved instance is a single entry; its RRULE is ignored
+        uid: 'swim-123@google.com',
+        day: '2026-01-21',
+        duplicate: false,
+        attrs: {
+          title: 'Swim practice (late)',
+          date: '2026-01-21T05:00:00Z',
+          startTime: '2026-01-21T22:00:00Z',
+          endTime: '2026-01-21T23:00:00Z',
+        },
+      },
+      {
+        // All-day DTEND is exclusive
+        uid: 'camp@google.com',
+        day: '2026-02-14',
+        duplicate: false,
+        attrs: { title: 'Winter camp', date: '2026-02-14T05:00:00Z', endDate: '2026-02-16T05:00:00Z' },
+      },
+    ]);
+  });
+
+  it('reads UTC, floating and TZID times in the user\'s time zone', () => {
+    const { entries } = calendarEntries(calendar(
+      ...event('SUMMARY:UTC', 'DTSTART:20260105T140000Z', 'DURATION:PT1H30M'),
+      ...event('SUMMARY:Floating', 'DTSTART:20260105T090000'),
+      ...event('SUMMARY:Paris', 'DTSTART;TZID="Europe/Paris":20260105T090000'),
+    ), newYork);
+
+    expect(entries.map(({ attrs }) => [attrs.title, attrs.startTime, attrs.endTime])).toEqual([
+      ['UTC', '2026-01-05T14:00:00Z', '2026-01-05T15:30:00Z'],
+      ['Floating', '2026-01-05T14:00:00Z', undefined],
+      ['Paris', '2026-01-05T08:00:00Z', undefined],
+    ]);
+  });
+
+  it('maps Outlook time zone names through X-LIC-LOCATION and warns about unknown ones', () => {
+    const { entries, warnings } = calendarEntries(calendar(
+      'BEGIN:VTIMEZONE',
+      'TZID:(UTC+01:00) Amsterdam\\, Berlin',
+      'X-LIC-LOCATION:Europe/Berlin',
+      'END:VTIMEZONE',
+      ...event('SUMMARY:Berlin', 'DTSTART;TZID="(UTC+01:00) Amsterdam\\, Berlin":20260105T090000'),
+      ...event('SUMMARY:Windows', 'DTSTART;TZID=W. Europe Standard Time:20260105T090000'),
+    ), newYork);
+
+    expect(entries.map(({ attrs }) => attrs.startTime)).toEqual(['2026-01-05T08:00:00Z', '2026-01-05T14:00:00Z']);
+    expect(warnings).toEqual(['"Windows": Unknown time zone "W. Europe Standard Time"; times were read in America/New_York']);
+  });
+
+  it('keeps rules the legacy fields can\'t express and warns that older apps show one occurrence', () => {
+    const { entries, warnings } = calendarEntries(calendar(
+      ...event('SUMMARY:Book club', 'DTSTART;VALUE=DATE:20260113', 'RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=6'),
+    ), newYork);
+
+    expect(entries[0].attrs).toEqual({
+      title: 'Book club',
+      date: '2026-01-13T05:00:00Z',
+      rrule: 'FREQ=MONTHLY;COUNT=6;BYDAY=2TU',
+      isRecurrenceTemplate: true,
+      recurrenceGroupId: expect.any(String),
+    });
+    expect(warnings).toEqual(['"Book club": this repeat rule needs an app version with RRULE support to show every occurrence']);
+  });
+
+  it('skips malformed events with a warning and imports bad rules as single events', () => {
+    const { entries, warnings } = calendarEntries(calendar(
+      ...event('SUMMARY:No start'),
+      ...event('SUMMARY:Bad date', 'DTSTART:20260231T090000Z'),
+      ...event('SUMMARY:Hourly', 'DTSTART:20260105T090000Z', 'RRULE:FREQ=HOURLY'),
+      ...event('DTSTART;VALUE=DATE:20260105'),
+    ), 'UTC');
+
+    expect(entries.map(({ attrs }) => attrs)).toEqual([
+      { title: 'Hourly', date: '2026-01-05T00:00:00Z', startTime: '2026-01-05T09:00:00Z' },
+      { title: 'Untitled', date: '2026-01-05T00:00:00Z' },
+    ]);
+    expect(warnings).toEqual([
+      '"No start": missing or invalid DTSTART; skipped',
+      '"Bad date": missing or invalid DTSTART; skipped',
+      '"Hourly": FREQ must be one of DAILY, WEEKLY, MONTHLY, YEARLY; imported as a single event',
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fakeInstantDB, post } from './helpers';
+
+const ics = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:swim@example.com',
+  'SUMMARY:Swim practice',
+  'DTSTART;TZID=America/New_York:20260105T160000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:piano@example.com',
+  'SUMMARY:Piano',
+  'DTSTART;TZID=America/New_York:20260106T160000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:piano-copy@example.com',
+  'SUMMARY:piano ',
+  'DTSTART;TZID=America/New_York:20260106T170000',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+// The section already has swim practice on Jan 5 (in New York)
+const section = {
+  id: 'section-1',
+  customEntries: [{ id: 'entry-1', title: 'Swim Practice', date: '2026-01-05T05:00:00Z' }],
+};
+
+function answers(query: any, as: string | null) {
+  if (query.customSections && as) {
+    return { customSections: query.customSections.$.where.id === section.id ? [section] : [] };
+  }
+  return {};
+}
+
+const request = { ics, sectionId: section.id, timeZone: 'America/New_York' };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('POST /import/ics', () => {
+  it('previews by default and writes nothing', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await post('/import/ics', request);
+    const body = await response.json() as any;
+
+    expect(body).toMatchObject({
+      dryRun: true,
+      sectionId: section.id,
+      summary: { events: 3, duplicates: 2, toCreate: 1 },
+      created: [],
+    });
+    // Duplicates match by title and day, against the section and earlier events
+    expect(body.entries.map((entry: any) => [entry.uid, entry.duplicate])).toEqual([
+      ['swim@example.com', true],
+      ['piano@example.com', false],
+      ['piano-copy@example.com', true],
+    ]);
+    // Only the section is read; nothing goes through the write path
+    expect(db.queries.map(({ query }) => Object.keys(query))).toEqual([['customSections']]);
+    expect(db.transactions).toEqual([]);
+  });
+
+  it('creates the events that aren\'t duplicates in the section', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await post('/import/ics', { ...request, dryRun: false });
+    const body = await response.json() as any;
+
+    expect(body.created).toHaveLength(1);
+    const [id] = body.created;
+    expect(db.transactions).toEqual([[
+      ['update', 'customEntries', id, {
+        title: 'Piano',
+        date: '2026-01-06T05:00:00Z',
+        startTime: '2026-01-06T21:00:00Z',
+        localId: id.toUpperCase(),
+        updatedAt: expect.any(String),
+        serverUpdatedAt: expect.any(String),
+      }],
+      ['link', 'customEntries', id, { section: section.id }],
+    ]]);
+  });
+
+  it('includes duplicates when asked', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await post('/import/ics', { ...request, dryRun: false, includeDuplicates: true });
+
+    expect((await response.json() as any).created).toHaveLength(3);
+    expect(db.transactions[0]).toHaveLength(6);
+  });
+
+  it('rejects malformed calendars before reading the section', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await post('/import/ics', { ...request, ics: 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid iCalendar file: Line 3: END:VCALENDAR does not match BEGIN:VEVENT' });
+    expect(db.queries).toEqual([]);
+  });
+
+  it('returns 404 for a section the user can\'t see', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await post('/import/ics', { ...request, sectionId: 'someone-elses', dryRun: false });
+
+    expect(response.status).toBe(404);
+    expect(db.transactions).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { env, fakeInstantDB } from './helpers';
+
+function migrate(body: object, token = env.INSTANTDB_ADMIN_TOKEN): Promise<Response> {
+  const request = new Request('https://db.example.com/admin/migrations/rrule', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  return worker.fetch(request, env, {} as ExecutionContext);
+}
+
+// A template under a kid of `ownerId`
+function template(id: string, ownerId: string, fields: object) {
+  return {
+    id,
+    isRecurrenceTemplate: true,
+    ...fields,
+    section: [{ kidProfile: [{ parent: [{ id: ownerId }] }] }],
+  };
+}
+
+// 02:00 UTC on Jul 1 is still Jun 30 in New York
+const endDate = '2026-07-01T02:00:00Z';
+
+const templates = [
+  template('weekly-ny', 'owner-ny', { date: '2026-01-05T17:00:00Z', recurrencePatternRaw: 'weekly', recurrenceEndDate: endDate }),
+  template('weekly-utc', 'owner-utc', { date: '2026-01-05T17:00:00Z', recurrencePatternRaw: 'weekly', recurrenceEndDate: endDate }),
+  template('month-end', 'owner-ny', { date: '2026-01-31T17:00:00Z', recurrencePatternRaw: 'monthly' }),
+  template('converted', 'owner-ny', { date: '2026-01-05T17:00:00Z', recurrencePatternRaw: 'daily', rrule: 'FREQ=DAILY' }),
+  template('unknown', 'owner-ny', { date: '2026-01-05T17:00:00Z', recurrencePatternRaw: 'yearly' }),
+  template('undated', 'owner-ny', { recurrencePatternRaw: 'daily' }),
+];
+
+function answers(query: any) {
+  if (query.calendarFeeds) {
+    return {
+      calendarFeeds: [
+        { ownerId: 'owner-ny', timeZone: 'Europe/Paris', createdAt: '2026-01-01T00:00:00Z' },
+        { ownerId: 'owner-ny', timeZone: 'America/New_York', createdAt: '2026-02-01T00:00:00Z' },
+      ],
+    };
+  }
+  return { customEntries: templates };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('POST /admin/migrations/rrule', () => {
+  it('requires the admin token', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await migrate({ dryRun: true }, 'not-the-admin-token');
+
+    expect(response.status).toBe(401);
+    expect(db.queries).toEqual([]);
+  });
+
+  it('reports conversions in each owner\'s time zone without writing on a dry run', async () => {
+    const db = fakeInstantDB(answers);
+
+    const response = await migrate({ dryRun: true, timeZone: 'UTC' });
+
+    expect(await response.json()).toEqual({
+      dryRun: true,
+      scanned: 6,
+      converted: [
+        { id: 'weekly-ny', rrule: 'FREQ=WEEKLY;UNTIL=20260630', timeZone: 'America/New_York' },
+        { id: 'weekly-utc', rrule: 'FREQ=WEEKLY;UNTIL=20260701', timeZone: 'UTC' },
+      ],
+      skipped: [
+        { id: 'month-end', reason: 'no RRULE matches a monthly pattern after the 28th' },
+        { id: 'converted', reason: 'already has an rrule' },
+        { id: 'unknown', reason: 'unknown recurrence pattern "yearly"' },
+        { id: 'undated', reason: 'missing or invalid date' },
+      ],
+    });
+    expect(db.transactions).toEqual([]);
+  });
+
+  it('writes the rules and bumps both update times', async () => {
+    const db = fakeInstantDB(answers);
+
+    await migrate({ timeZone: 'UTC' });
+
+    expect(db.transactions).toEqual([[
+      ['update', 'customEntries', 'weekly-ny', { rrule: 'FREQ=WEEKLY;UNTIL=20260630', updatedAt: expect.any(String), serverUpdatedAt: expect.any(String) }],
+      ['update', 'customEntries', 'weekly-utc', { rrule: 'FREQ=WEEKLY;UNTIL=20260701', updatedAt: expect.any(String), serverUpdatedAt: expect.any(String) }],
+    ]]);
+  });
+
+  it('rejects an unknown fallback time zone', async () => {
+    fakeInstantDB(answers);
+
+    const response = await migrate({ timeZone: 'Mars/Olympus' });
+
+    expect(response.status).toBe(400);
+  });
+});
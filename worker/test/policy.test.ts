@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { MAX_TRANSACT_BODY_BYTES, MAX_TRANSACT_STEPS, reviewSteps } from '../src/policy';
+import { accessToken, env, fakeInstantDB, post } from './helpers';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('reviewSteps', () => {
+  it('allows the writes the app makes', () => {
+    expect(reviewSteps([
+      ['update', 'kidProfiles', 'kid-1', { name: 'Sam' }],
+      ['link', 'customSections', 'section-1', { kidProfile: 'kid-1' }],
+      ['unlink', 'mediaEntries', 'media-1', { kidProfile: 'kid-1' }],
+      ['delete', 'customEntries', 'entry-1'],
+    ])).toEqual([]);
+  });
+
+  it('rejects merge steps', () => {
+    expect(reviewSteps([['merge', 'customEntries', 'entry-1', { title: 'Swim' }]])).toEqual([{
+      index: 0, action: 'merge', entity: 'customEntries', id: 'entry-1',
+      errors: [{ path: 'steps[0][0]', message: 'action "merge" is not allowed' }],
+    }]);
+  });
+
+  it('rejects writes to system, family and server-owned entities', () => {
+    const reports = reviewSteps([
+      ['update', '$users', 'user-2', { email: 'someone@example.com' }],
+      ['update', 'families', 'family-1', { ownerId: 'user-1' }],
+      ['delete', 'familyMembers', 'member-1'],
+      ['delete', 'tombstones', 'tombstone-1'],
+      ['update', 'calendarFeeds', 'feed-1', { timeZone: 'UTC' }],
+    ]);
+
+    expect(reports.map(({ index, errors }) => ({ index, errors }))).toEqual([
+      { index: 0, errors: [{ path: 'steps[0][1]', message: '$users cannot be written through the proxy' }] },
+      { index: 1, errors: [{ path: 'steps[1][1]', message: 'families cannot be written through the proxy' }] },
+      { index: 2, errors: [{ path: 'steps[2][1]', message: 'familyMembers cannot be written through the proxy' }] },
+      { index: 3, errors: [{ path: 'steps[3][1]', message: 'tombstones cannot be written through the proxy' }] },
+      { index: 4, errors: [{ path: 'steps[4][1]', message: 'calendarFeeds cannot be written through the proxy' }] },
+    ]);
+  });
+
+  it('reports schema errors without checking the policy', () => {
+    expect(reviewSteps([['merge', 'families', 'family-1', { motto: 'x' }]])[0].errors).toEqual([
+      { path: 'steps[0][3].motto', message: 'unknown attribute "motto" on families' },
+    ]);
+  });
+});
+
+describe('POST /db/transact limits', () => {
+  it('rejects a body declared too large without reading it', async () => {
+    const db = fakeInstantDB(() => ({}));
+    const request = new Request('https://db.example.com/db/transact', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': String(MAX_TRANSACT_BODY_BYTES + 1),
+        'Authorization': `Bearer ${await accessToken()}`,
+      },
+      body: '{"steps":[]}',
+    });
+
+    const response = await worker.fetch(request, env, {} as ExecutionContext);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Request body too large', limit: MAX_TRANSACT_BODY_BYTES });
+    expect(db.queries).toEqual([]);
+  });
+
+  it('rejects an oversized body sent without a length', async () => {
+    const db = fakeInstantDB(() => ({}));
+    const notes = 'x'.repeat(MAX_TRANSACT_BODY_BYTES);
+
+    const response = await post('/db/transact', { steps: [['update', 'customEntries', 'entry-1', { notes }]] });
+
+    expect(response.status).toBe(413);
+    expect(db.queries).toEqual([]);
+  });
+
+  it('rejects too many steps', async () => {
+    const db = fakeInstantDB(() => ({}));
+    const steps = Array.from({ length: MAX_TRANSACT_STEPS + 1 }, (_, i) => ['delete', 'customEntries', `entry-${i}`]);
+
+    const response = await post('/db/transact', { steps });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Too many steps in one transaction', limit: MAX_TRANSACT_STEPS });
+    expect(db.queries).toEqual([]);
+  });
+
+  it('rejects disallowed steps before anything reaches InstantDB', async () => {
+    const db = fakeInstantDB(() => ({}));
+
+    const response = await post('/db/transact', { steps: [['delete', 'kidProfiles', 'kid-1'], ['delete', '$users', 'user-1']] });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Transaction rejected',
+      rejected: [{
+        index: 1, action: 'delete', entity: '$users', id: 'user-1',
+        errors: [{ path: 'steps[1][1]', message: '$users cannot be written through the proxy' }],
+      }],
+    });
+    expect(db.queries).toEqual([]);
+    expect(db.transactions).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { parseCivilDate } from '../src/dates';
+import { editsLegacyRecurrence, expandRecurrence, ExpandOptions, legacyRecurrenceRRule, RecurringEntry, recurringEntryError } from '../src/recurrence';
+
+function range(from: string, to: string, timeZone = 'UTC'): ExpandOptions {
+  return { from: parseCivilDate(from)!, to: parseCivilDate(to)!, timeZone };
+}
+
+function dates(entry: RecurringEntry, options: ExpandOptions): string[] {
+  return expandRecurrence(entry, options).occurrences.map((occurrence) => occurrence.date);
+}
+
+const monthly: RecurringEntry = {
+  date: '2026-01-31T12:00:00Z',
+  isRecurrenceTemplate: true,
+  recurrencePatternRaw: 'monthly',
+};
+
+describe('monthly recurrence at the end of the month', () => {
+  it('clamps to shorter months and stays on the clamped day, like the app', () => {
+    expect(dates(monthly, range('2026-01-01', '2026-05-31'))).toEqual([
+      '2026-01-31', '2026-02-28', '2026-03-28', '2026-04-28', '2026-05-28',
+    ]);
+  });
+
+  it('lands on Feb 29 in leap years', () => {
+    expect(dates({ ...monthly, date: '2028-01-30T12:00:00Z' }, range('2028-02-01', '2028-03-31'))).toEqual([
+      '2028-02-29', '2028-03-29',
+    ]);
+  });
+
+  it('counts occurrences from the entry date, not the range', () => {
+    expect(dates({ ...monthly, recurrenceOccurrenceCount: 3 }, range('2026-03-01', '2026-12-31'))).toEqual([
+      '2026-03-28',
+    ]);
+  });
+
+  it('includes the end date', () => {
+    const entry = { ...monthly, recurrenceEndDate: '2026-03-28T00:00:00Z' };
+    expect(dates(entry, range('2026-01-01', '2026-12-31'))).toEqual(['2026-01-31', '2026-02-28', '2026-03-28']);
+  });
+
+  it('has no RRULE after the 28th', () => {
+    expect(legacyRecurrenceRRule(monthly, 'UTC')).toBeNull();
+  });
+
+  it('gives the same days as its RRULE up to the 28th', () => {
+    const entry = { ...monthly, date: '2026-01-28T12:00:00Z' };
+    const rrule = legacyRecurrenceRRule(entry, 'UTC');
+    expect(rrule).toBe('FREQ=MONTHLY');
+
+    const options = range('2026-01-01', '2027-12-31');
+    expect(dates({ date: entry.date, rrule }, options)).toEqual(dates(entry, options));
+  });
+});
+
+describe('recurrence across DST changes', () => {
+  const newYork = 'America/New_York';
+
+  // Sundays at 9:00-10:00 local, starting the week before the spring change
+  const weekly: RecurringEntry = {
+    date: '2026-03-01T14:00:00Z',
+    startTime: '2026-03-01T14:00:00Z',
+    endTime: '2026-03-01T15:00:00Z',
+    isRecurrenceTemplate: true,
+    recurrencePatternRaw: 'weekly',
+  };
+
+  it('keeps the local time when clocks go forward', () => {
+    const { occurrences } = expandRecurrence(weekly, range('2026-03-01', '2026-03-15', newYork));
+
+    expect(occurrences).toEqual([
+      { date: '2026-03-01', start: '2026-03-01T14:00:00.000Z', end: '2026-03-01T15:00:00.000Z' },
+      { date: '2026-03-08', start: '2026-03-08T13:00:00.000Z', end: '2026-03-08T14:00:00.000Z' },
+      { date: '2026-03-15', start: '2026-03-15T13:00:00.000Z', end: '2026-03-15T14:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps the local time when clocks go back', () => {
+    const { occurrences } = expandRecurrence(weekly, range('2026-10-25', '2026-11-01', newYork));
+
+    expect(occurrences.map((occurrence) => occurrence.start)).toEqual([
+      '2026-10-25T13:00:00.000Z',
+      '2026-11-01T14:00:00.000Z',
+    ]);
+  });
+
+  it('reads the entry date in the time zone', () => {
+    // 23:30 on Jan 31 in New York is already Feb 1 in UTC
+    const entry = { ...monthly, date: '2026-02-01T04:30:00Z' };
+
+    expect(dates(entry, range('2026-01-01', '2026-03-31', newYork))).toEqual(['2026-01-31', '2026-02-28', '2026-03-28']);
+  });
+
+  it('skips excluded days', () => {
+    const entry = { ...weekly, exdates: ['2026-03-08'] };
+
+    expect(dates(entry, range('2026-03-01', '2026-03-15', newYork))).toEqual(['2026-03-01', '2026-03-15']);
+  });
+});
+
+describe('editsLegacyRecurrence', () => {
+  const stored: RecurringEntry = {
+    date: '2026-01-05T05:00:00Z',
+    isRecurrenceTemplate: true,
+    recurrencePatternRaw: 'weekly',
+    recurrenceWeekdays: [2, 4],
+    recurrenceEndDate: '2026-06-30T04:00:00Z',
+    rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260630',
+  };
+
+  it('ignores updates that resend the same legacy fields', () => {
+    const attrs = {
+      title: 'Swim class',
+      isRecurrenceTemplate: true,
+      recurrencePatternRaw: 'weekly',
+      recurrenceWeekdays: [4, 2],
+      recurrenceEndDate: '2026-06-30T04:00:00.000Z',
+    };
+
+    expect(editsLegacyRecurrence(stored, attrs)).toBe(false);
+  });
+
+  it.each([
+    ['the pattern', { recurrencePatternRaw: 'biweekly' }],
+    ['the weekdays', { recurrenceWeekdays: [2] }],
+    ['the end date', { recurrenceEndDate: '2026-07-31T04:00:00Z' }],
+    ['the occurrence count', { recurrenceOccurrenceCount: 5 }],
+  ])('detects a change to %s', (_, attrs) => {
+    expect(editsLegacyRecurrence(stored, attrs)).toBe(true);
+  });
+
+  it('leaves updates that set an rrule alone', () => {
+    expect(editsLegacyRecurrence(stored, { recurrencePatternRaw: 'daily', rrule: 'FREQ=DAILY' })).toBe(false);
+  });
+});
+
+describe('expanding a range long after the entry date', () => {
+  // Every occurrence from the entry date, then only those in the last month
+  function tail(entry: RecurringEntry, from: string, to: string): string[] {
+    return dates(entry, range(entry.date.slice(0, 10), to)).filter((date) => date >= from);
+  }
+
+  it.each<[string, Partial<RecurringEntry>]>([
+    ['daily', { recurrencePatternRaw: 'daily' }],
+    ['weekly', { recurrencePatternRaw: 'weekly' }],
+    ['biweekly', { recurrencePatternRaw: 'biweekly' }],
+    ['weekly on weekdays', { recurrencePatternRaw: 'weekly', recurrenceWeekdays: [2, 4, 6] }],
+    ['biweekly on weekdays', { recurrencePatternRaw: 'biweekly', recurrenceWeekdays: [1, 7] }],
+    ['monthly', { recurrencePatternRaw: 'monthly' }],
+    ['monthly on the 31st', { date: '2025-08-31T12:00:00Z', recurrencePatternRaw: 'monthly' }],
+    ['an occurrence count', { recurrencePatternRaw: 'biweekly', recurrenceWeekdays: [3, 5], recurrenceOccurrenceCount: 57 }],
+    ['an rrule', { rrule: 'FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR' }],
+    ['a weekly rrule', { rrule: 'FREQ=WEEKLY;INTERVAL=3;BYDAY=MO,SA;WKST=SU' }],
+  ])('skips to the range for %s', (_, fields) => {
+    const entry: RecurringEntry = { date: '2025-03-12T12:00:00Z', isRecurrenceTemplate: true, ...fields };
+
+    const expected = tail(entry, '2026-02-01', '2026-02-28');
+    expect(dates(entry, range('2026-02-01', '2026-02-28'))).toEqual(expected);
+  });
+
+  it('stops at the occurrence count when the range is later', () => {
+    const entry: RecurringEntry = { ...monthly, date: '2025-03-12T12:00:00Z', recurrenceOccurrenceCount: 10 };
+
+    expect(dates(entry, range('2025-12-01', '2026-02-28'))).toEqual(['2025-12-12']);
+  });
+
+  it('expands a template from the earliest supported year quickly', () => {
+    const entry: RecurringEntry = { date: '1900-01-01T00:00:00Z', isRecurrenceTemplate: true, recurrencePatternRaw: 'daily' };
+
+    const started = Date.now();
+    expect(dates(entry, range('2200-12-30', '2200-12-31'))).toEqual(['2200-12-30', '2200-12-31']);
+    expect(dates({ ...entry, rrule: 'FREQ=DAILY;BYDAY=MO' }, range('2200-12-01', '2200-12-07'))).toEqual(['2200-12-01']);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('recurringEntryError', () => {
+  it('rejects dates outside the supported years', () => {
+    const entry = { date: '-271821-04-20T00:00:00Z', isRecurrenceTemplate: true, recurrencePatternRaw: 'daily' };
+
+    expect(recurringEntryError(entry)).toBe('entry.date must be in the years 1900 to 2200');
+    expect(recurringEntryError({ ...entry, date: '2026-01-01T00:00:00Z', recurrenceEndDate: '9999-01-01T00:00:00Z' }))
+      .toBe('entry.recurrenceEndDate must be in the years 1900 to 2200');
+  });
+
+  it('accepts an ordinary template', () => {
+    expect(recurringEntryError(monthly)).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { parseCivilDate } from '../src/dates';
+import { expandRecurrence, ExpandOptions, legacyRecurrenceFields, legacyRecurrenceRRule, RecurringEntry } from '../src/recurrence';
+import { exdatesError, formatRRule, parseExdate, parseRRule, RRule } from '../src/rrule';
+
+function range(from: string, to: string, timeZone = 'UTC', firstWeekday = 1): ExpandOptions {
+  return { from: parseCivilDate(from)!, to: parseCivilDate(to)!, timeZone, firstWeekday };
+}
+
+function dates(entry: RecurringEntry, options: ExpandOptions): string[] {
+  return expandRecurrence(entry, options).occurrences.map((occurrence) => occurrence.date);
+}
+
+// Monday, Jan 5 2026 at noon UTC
+const monday = '2026-01-05T12:00:00Z';
+
+describe('parseRRule', () => {
+  it.each([
+    ['', 'RRULE is empty'],
+    ['FREQ', 'Malformed RRULE part "FREQ"'],
+    ['INTERVAL=2', 'RRULE must include FREQ'],
+    ['FREQ=HOURLY', 'FREQ must be one of DAILY, WEEKLY, MONTHLY, YEARLY'],
+    ['FREQ=DAILY;FREQ=WEEKLY', 'RRULE part FREQ appears more than once'],
+    ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be a positive integer'],
+    ['FREQ=DAILY;COUNT=-1', 'COUNT must be a positive integer'],
+    ['FREQ=DAILY;UNTIL=20260231', 'UNTIL must be a date (YYYYMMDD) or a UTC date-time (YYYYMMDDTHHMMSSZ)'],
+    ['FREQ=DAILY;UNTIL=20260630T040000', 'UNTIL must be a date (YYYYMMDD) or a UTC date-time (YYYYMMDDTHHMMSSZ)'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20260630', 'RRULE may not include both COUNT and UNTIL'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Invalid BYDAY value "XX"'],
+    ['FREQ=WEEKLY;BYDAY=2TU', 'BYDAY ordinals (such as 2TU) need FREQ=MONTHLY or FREQ=YEARLY'],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY cannot be used with FREQ=WEEKLY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY must list days from 1 to 31 (or -1 to -31)'],
+    ['FREQ=YEARLY;BYMONTH=13', 'BYMONTH must list months from 1 to 12'],
+    ['FREQ=MONTHLY;BYSETPOS=1', 'BYSETPOS needs BYDAY, BYMONTHDAY or BYMONTH'],
+    ['FREQ=DAILY;BYHOUR=9', 'BYHOUR is not supported; rules repeat on whole days'],
+    ['FREQ=DAILY;X-NAME=1', 'Unknown RRULE part X-NAME'],
+  ])('rejects %j', (value, error) => {
+    expect(parseRRule(value)).toBe(error);
+  });
+
+  it('accepts a prefix and lower case, and formats the rule back', () => {
+    const rule = parseRRule('RRULE:freq=monthly;interval=2;byday=2tu,-1fr;wkst=su') as RRule;
+
+    expect(rule).toMatchObject({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 3, ordinal: 2 }, { weekday: 6, ordinal: -1 }],
+      wkst: 1,
+    });
+    expect(formatRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;WKST=SU');
+  });
+});
+
+describe('COUNT and UNTIL', () => {
+  it('stops after COUNT occurrences', () => {
+    expect(dates({ date: monday, rrule: 'FREQ=WEEKLY;COUNT=3' }, range('2026-01-01', '2026-03-31'))).toEqual([
+      '2026-01-05', '2026-01-12', '2026-01-19',
+    ]);
+  });
+
+  it('includes a date-only UNTIL day', () => {
+    expect(dates({ date: monday, rrule: 'FREQ=WEEKLY;UNTIL=20260119' }, range('2026-01-01', '2026-03-31'))).toEqual([
+      '2026-01-05', '2026-01-12', '2026-01-19',
+    ]);
+  });
+
+  it('reads a UTC date-time UNTIL in the time zone', () => {
+    // 03:00 UTC on Jan 8 is still Jan 7 in New York
+    const entry = { date: '2026-01-05T17:00:00Z', rrule: 'FREQ=DAILY;UNTIL=20260108T030000Z' };
+
+    expect(dates(entry, range('2026-01-01', '2026-01-31', 'America/New_York'))).toEqual(['2026-01-05', '2026-01-06', '2026-01-07']);
+    expect(dates(entry, range('2026-01-01', '2026-01-31'))).toEqual(['2026-01-05', '2026-01-06', '2026-01-07', '2026-01-08']);
+  });
+
+  it('counts excluded days and days before the range', () => {
+    const entry = { date: monday, rrule: 'FREQ=WEEKLY;COUNT=4', exdates: ['2026-01-12'] };
+
+    expect(dates(entry, range('2026-01-01', '2026-03-31'))).toEqual(['2026-01-05', '2026-01-19', '2026-01-26']);
+    expect(dates(entry, range('2026-01-20', '2026-03-31'))).toEqual(['2026-01-26']);
+  });
+});
+
+describe('BYDAY with INTERVAL', () => {
+  it('repeats the weekdays every other week', () => {
+    const entry = { date: monday, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH' };
+
+    expect(dates(entry, range('2026-01-01', '2026-02-08'))).toEqual([
+      '2026-01-06', '2026-01-08', '2026-01-20', '2026-01-22', '2026-02-03', '2026-02-05',
+    ]);
+  });
+
+  it('counts weeks from WKST', () => {
+    // A Sunday start is the end of a Monday-based week but the start of a Sunday-based one
+    const sunday = '2026-01-04T12:00:00Z';
+
+    expect(dates({ date: sunday, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO' }, range('2026-01-01', '2026-01-31'))).toEqual([
+      '2026-01-04', '2026-01-12', '2026-01-18', '2026-01-26',
+    ]);
+    expect(dates({ date: sunday, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=SU' }, range('2026-01-01', '2026-01-31'))).toEqual([
+      '2026-01-04', '2026-01-05', '2026-01-18', '2026-01-19',
+    ]);
+  });
+
+  it('picks ordinal weekdays every other month', () => {
+    const options = range('2026-01-01', '2026-06-30');
+
+    expect(dates({ date: monday, rrule: 'FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU' }, options)).toEqual([
+      '2026-01-13', '2026-03-10', '2026-05-12',
+    ]);
+    expect(dates({ date: monday, rrule: 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR' }, options)).toEqual([
+      '2026-01-30', '2026-03-27', '2026-05-29',
+    ]);
+  });
+});
+
+describe('EXDATE', () => {
+  const weekly = { date: '2026-01-05T17:00:00Z', rrule: 'FREQ=WEEKLY;COUNT=3' };
+
+  it('reads an instant as a day in the entry time zone', () => {
+    // 03:00 UTC on Jan 13 is the evening of Jan 12 in New York
+    const entry = { ...weekly, exdates: ['20260113T030000Z'] };
+
+    expect(dates(entry, range('2026-01-01', '2026-01-31', 'America/New_York'))).toEqual(['2026-01-05', '2026-01-19']);
+    expect(dates(entry, range('2026-01-01', '2026-01-31'))).toEqual(['2026-01-05', '2026-01-12', '2026-01-19']);
+  });
+
+  it('reads an ISO instant ahead of UTC', () => {
+    // 20:00 UTC on Jan 11 is the morning of Jan 12 in Tokyo
+    expect(parseExdate('2026-01-11T20:00:00Z', 'Asia/Tokyo')).toBe(parseCivilDate('2026-01-12'));
+    expect(parseExdate('2026-01-11T20:00:00Z', 'UTC')).toBe(parseCivilDate('2026-01-11'));
+  });
+
+  it('takes plain dates as they are', () => {
+    expect(parseExdate('20260112', 'Asia/Tokyo')).toBe(parseCivilDate('2026-01-12'));
+    expect(parseExdate('2026-01-12', 'America/New_York')).toBe(parseCivilDate('2026-01-12'));
+  });
+
+  it('rejects lists with anything but dates', () => {
+    expect(exdatesError(['2026-01-12', '20260113T030000Z'])).toBeNull();
+    expect(exdatesError('2026-01-12')).toBe('exdates must be a list of dates');
+    expect(exdatesError(['2026-01-12', 'next week'])).toBe('Invalid exception date "next week"');
+  });
+});
+
+describe('legacyRecurrenceRRule', () => {
+  const template = (fields: Partial<RecurringEntry>): RecurringEntry => ({ date: monday, isRecurrenceTemplate: true, ...fields });
+
+  it.each<[string, Partial<RecurringEntry>, string]>([
+    ['daily', { recurrencePatternRaw: 'daily' }, 'FREQ=DAILY'],
+    ['weekly', { recurrencePatternRaw: 'weekly' }, 'FREQ=WEEKLY'],
+    ['weekly on weekdays', { recurrencePatternRaw: 'weekly', recurrenceWeekdays: [4, 2, 2] }, 'FREQ=WEEKLY;BYDAY=MO,WE'],
+    ['biweekly', { recurrencePatternRaw: 'biweekly' }, 'FREQ=WEEKLY;INTERVAL=2;WKST=SU'],
+    ['biweekly on weekdays', { recurrencePatternRaw: 'biweekly', recurrenceWeekdays: [3, 5] }, 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;WKST=SU'],
+    ['monthly', { recurrencePatternRaw: 'monthly' }, 'FREQ=MONTHLY'],
+    ['an occurrence count', { recurrencePatternRaw: 'daily', recurrenceOccurrenceCount: 5 }, 'FREQ=DAILY;COUNT=5'],
+    ['an end date', { recurrencePatternRaw: 'weekly', recurrenceEndDate: '2026-06-30T00:00:00Z' }, 'FREQ=WEEKLY;UNTIL=20260630'],
+  ])('converts %s and expands to the same days', (_, fields, rrule) => {
+    const entry = template(fields);
+    expect(legacyRecurrenceRRule(entry, 'UTC')).toBe(rrule);
+
+    const options = range('2026-01-01', '2026-12-31');
+    expect(dates({ date: entry.date, rrule }, options)).toEqual(dates(entry, options));
+  });
+
+  it('starts biweekly weeks on the first weekday given', () => {
+    const entry = template({ date: '2026-01-04T12:00:00Z', recurrencePatternRaw: 'biweekly', recurrenceWeekdays: [1, 2] });
+    const rrule = legacyRecurrenceRRule(entry, 'UTC', 2)!;
+    expect(rrule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=MO');
+
+    const options = range('2026-01-01', '2026-12-31', 'UTC', 2);
+    expect(dates({ date: entry.date, rrule }, options)).toEqual(dates(entry, options));
+  });
+
+  it('reads the end date in the time zone', () => {
+    // 02:00 UTC on Jul 1 is still Jun 30 in New York
+    const entry = template({ recurrencePatternRaw: 'daily', recurrenceEndDate: '2026-07-01T02:00:00Z' });
+
+    expect(legacyRecurrenceRRule(entry, 'America/New_York')).toBe('FREQ=DAILY;UNTIL=20260630');
+    expect(legacyRecurrenceRRule(entry, 'UTC')).toBe('FREQ=DAILY;UNTIL=20260701');
+  });
+
+  it('has no rule for single entries, unknown patterns or monthly entries after the 28th', () => {
+    expect(legacyRecurrenceRRule({ date: monday, recurrencePatternRaw: 'daily' }, 'UTC')).toBeNull();
+    expect(legacyRecurrenceRRule(template({ recurrencePatternRaw: 'yearly' }), 'UTC')).toBeNull();
+    expect(legacyRecurrenceRRule(template({ date: '2026-01-29T12:00:00Z', recurrencePatternRaw: 'monthly' }), 'UTC')).toBeNull();
+  });
+});
+
+describe('legacyRecurrenceFields', () => {
+  it('converts rules the legacy patterns can express', () => {
+    const start = parseCivilDate('2026-01-05')!;
+
+    expect(legacyRecurrenceFields(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;UNTIL=20260630') as RRule, start, 'America/New_York')).toEqual({
+      isRecurrenceTemplate: true,
+      recurrencePatternRaw: 'biweekly',
+      recurrenceWeekdays: [2, 4],
+      recurrenceOccurrenceCount: null,
+      recurrenceEndDate: '2026-06-30T04:00:00Z',
+    });
+    expect(legacyRecurrenceFields(parseRRule('FREQ=MONTHLY;BYDAY=2TU') as RRule, start, 'UTC')).toBeNull();
+    expect(legacyRecurrenceFields(parseRRule('FREQ=DAILY;INTERVAL=3') as RRule, start, 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fakeInstantDB, post } from './helpers';
+
+const range = { from: '2026-03-01', to: '2026-03-31', timeZone: 'UTC' };
+
+// A daily 9:00-10:00 activity
+function daily(id: string, date: string) {
+  return {
+    id,
+    title: id,
+    date,
+    startTime: date.replace(/T.*/, 'T09:00:00Z'),
+    endTime: date.replace(/T.*/, 'T10:00:00Z'),
+    isRecurrenceTemplate: true,
+    recurrencePatternRaw: 'daily',
+  };
+}
+
+// Two kids, each with one entry; only activities of different kids conflict
+function kidsWith(first: object | null, second: object | null) {
+  const kid = (id: string, entry: object | null) => ({
+    id, name: id, customSections: [{ name: 'Sports', customEntries: entry ? [entry] : [] }],
+  });
+  return () => ({ kidProfiles: [kid('kid-1', first), kid('kid-2', second)] });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('POST /schedule/conflicts', () => {
+  it('expands templates dated long before the range without walking to it', async () => {
+    fakeInstantDB(kidsWith(daily('old', '1900-01-01T09:00:00Z'), daily('new', '2026-03-30T09:00:00Z')));
+
+    const started = Date.now();
+    const response = await post('/schedule/conflicts', range);
+    expect(Date.now() - started).toBeLessThan(1000);
+
+    const { conflicts } = await response.json() as any;
+    expect(conflicts.map((overlap: any) => overlap.occurrences.map((o: any) => `${o.entryId} ${o.date}`))).toEqual([
+      ['old 2026-03-30', 'new 2026-03-30'],
+      ['old 2026-03-31', 'new 2026-03-31'],
+    ]);
+  });
+
+  it('leaves out stored entries dated outside the supported years', async () => {
+    fakeInstantDB(kidsWith(daily('extreme', '-271821-04-20T00:00:00Z'), daily('new', '2026-03-30T09:00:00Z')));
+
+    const response = await post('/schedule/conflicts', range);
+
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).conflicts).toEqual([]);
+  });
+
+  it('rejects a proposed entry dated outside the supported years', async () => {
+    fakeInstantDB(kidsWith(null, null));
+
+    const response = await post('/schedule/conflicts', { ...range, proposed: daily('proposed', '-271821-04-20T00:00:00Z') });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'proposed.date must be in the years 1900 to 2200' });
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fakeInstantDB, post, user } from './helpers';
+
+const familyId = 'family-1';
+const deletedAt = '2026-01-05T10:01:00.000Z';
+
+// A deleted entry of the user's kid, shared with their family
+const ownTombstone = {
+  id: 'tombstone-1', entity: 'customEntries', recordId: 'entry-1', deletedAt, deletedBy: user.id, ownerId: user.id, familyId,
+};
+// A deleted entry of another parent's kid in the same family
+const sharedTombstone = {
+  id: 'tombstone-2', entity: 'customEntries', recordId: 'entry-2', deletedAt, deletedBy: 'owner-1', ownerId: 'owner-1', familyId,
+};
+
+/**
+ * Answer the queries /db/transact makes for a user with `role` in the family
+ * owned by owner-1 (or as its owner, when role is null). Deleted records
+ * only have tombstones.
+ */
+function answers(role: string | null) {
+  return (query: any) => {
+    if (query.familyMembers) {
+      return role
+        ? { families: [], familyMembers: [{ role, family: { id: familyId, ownerId: 'owner-1' } }] }
+        : { families: [{ id: familyId, ownerId: user.id }], familyMembers: [] };
+    }
+    if (query.tombstones) {
+      const ids: string[] = query.tombstones.$.where.recordId?.$in ?? [];
+      return { tombstones: [ownTombstone, sharedTombstone].filter((tombstone) => ids.includes(tombstone.recordId)) };
+    }
+    return {};
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('updates to deleted records', () => {
+  it('returns 410 for a bare update by a family member, without writing', async () => {
+    const db = fakeInstantDB(answers(null));
+
+    const response = await post('/db/transact', { steps: [['update', 'customEntries', 'entry-1', { title: 'Swim' }]] });
+
+    expect(response.status).toBe(410);
+    expect(await response.json()).toEqual({
+      error: 'Some records have been deleted',
+      tombstoned: [{ index: 0, entity: 'customEntries', id: 'entry-1', deletedAt, deletedBy: user.id }],
+    });
+    expect(db.transactions).toEqual([]);
+  });
+
+  it('returns 410 to an editor updating another parent\'s deleted record', async () => {
+    fakeInstantDB(answers('editor'));
+
+    const response = await post('/db/transact', { steps: [['update', 'customEntries', 'entry-2', { title: 'Swim' }]] });
+
+    expect(response.status).toBe(410);
+  });
+
+  it('restores the record and clears its tombstones when forced', async () => {
+    const db = fakeInstantDB(answers('editor'));
+
+    const response = await post('/db/transact', { steps: [['update', 'customEntries', 'entry-2', { title: 'Swim' }]], force: true });
+
+    expect(response.status).toBe(200);
+    expect(db.transactions).toEqual([
+      [['update', 'customEntries', 'entry-2', { title: 'Swim', serverUpdatedAt: expect.any(String) }]],
+      [['delete', 'tombstones', 'tombstone-2']],
+    ]);
+  });
+
+  it('still denies viewers, forced or not', async () => {
+    const db = fakeInstantDB(answers('viewer'));
+
+    const response = await post('/db/transact', { steps: [['update', 'customEntries', 'entry-2', { title: 'Swim' }]], force: true });
+
+    expect(response.status).toBe(403);
+    expect(db.transactions).toEqual([]);
+  });
+});
+
+describe('POST /db/tombstones', () => {
+  const listed = [
+    { ...ownTombstone, deletedAt: '2026-01-05T10:01:00.000Z' },
+    { ...sharedTombstone, deletedAt: '2026-01-05T10:02:00.000Z' },
+  ];
+
+  it('lists the user\'s and their families\' tombstones since the cursor, and moves the cursor on', async () => {
+    const db = fakeInstantDB((query) => (query.tombstones ? { tombstones: listed } : answers(null)(query)));
+
+    const response = await post('/db/tombstones', { since: '2026-01-05T10:00:00.000Z' });
+
+    expect(await response.json()).toEqual({
+      tombstones: [
+        { entity: 'customEntries', id: 'entry-1', deletedAt: '2026-01-05T10:01:00.000Z', deletedBy: user.id },
+        { entity: 'customEntries', id: 'entry-2', deletedAt: '2026-01-05T10:02:00.000Z', deletedBy: 'owner-1' },
+      ],
+      cursor: '2026-01-05T10:02:00.000Z',
+    });
+    expect(db.queries[db.queries.length - 1].query.tombstones.$).toEqual({
+      where: {
+        and: [
+          { or: [{ ownerId: user.id }, { familyId: { $in: [familyId] } }] },
+          { deletedAt: { $gte: '2026-01-05T10:00:00.000Z' } },
+        ],
+      },
+      order: { deletedAt: 'asc' },
+    });
+  });
+
+  it('keeps the cursor when nothing new was deleted', async () => {
+    fakeInstantDB((query) => (query.tombstones ? { tombstones: [] } : answers(null)(query)));
+
+    const response = await post('/db/tombstones', { since: '2026-01-05T10:02:00.000Z' });
+
+    expect(await response.json()).toEqual({ tombstones: [], cursor: '2026-01-05T10:02:00.000Z' });
+  });
+
+  it('rejects a malformed cursor', async () => {
+    fakeInstantDB(answers(null));
+
+    const response = await post('/db/tombstones', { since: 'yesterday' });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { validateQuery, validateStep } from '../src/validation';
+
+describe('validateQuery', () => {
+  it('accepts a query the app makes', () => {
+    expect(validateQuery({
+      kidProfiles: {
+        $: { where: { 'parent.id': 'user-1', updatedAt: { $gte: '2026-01-01T00:00:00Z' } }, order: { updatedAt: 'desc' }, limit: 10 },
+        customSections: { customEntries: {} },
+      },
+    })).toEqual([]);
+  });
+
+  it('rejects unknown entities and non-object queries', () => {
+    expect(validateQuery({ kids: {} })).toEqual([{ path: 'query.kids', message: 'unknown entity "kids"' }]);
+    expect(validateQuery([])).toEqual([{ path: 'query', message: 'expected an object, got array' }]);
+  });
+
+  it('rejects unknown links, attributes and options', () => {
+    expect(validateQuery({
+      kidProfiles: {
+        $: { where: { nickname: 'Sam' }, fields: ['name', 'age'], order: { birthday: 'asc' }, cursor: 'x' },
+        siblings: {},
+      },
+    })).toEqual([
+      { path: 'query.kidProfiles.$.where.nickname', message: 'unknown attribute "nickname" on kidProfiles' },
+      { path: 'query.kidProfiles.$.fields[1]', message: 'unknown attribute "age" on kidProfiles' },
+      { path: 'query.kidProfiles.$.order.birthday', message: 'unknown attribute "birthday" on kidProfiles' },
+      { path: 'query.kidProfiles.$.cursor', message: 'unknown query option "cursor"' },
+      { path: 'query.kidProfiles.siblings', message: 'unknown link "siblings" on kidProfiles' },
+    ]);
+  });
+
+  it('checks where paths through links and operator operands', () => {
+    expect(validateQuery({
+      customSections: {
+        $: {
+          where: {
+            or: [
+              { 'kidProfile.name.first': 'Sam' },
+              { 'kidProfile.id.x': 'kid-1' },
+              { sortOrder: { $gt: 'first' } },
+              { name: { $in: 'Swim' } },
+              { name: { $regex: '^S' } },
+            ],
+          },
+        },
+      },
+    })).toEqual([
+      { path: 'query.customSections.$.where.or[0].kidProfile.name.first', message: '"name" is an attribute of kidProfiles, not a link' },
+      { path: 'query.customSections.$.where.or[1].kidProfile.id.x', message: '"id" must be the last segment of "kidProfile.id.x"' },
+      { path: 'query.customSections.$.where.or[2].sortOrder.$gt', message: 'expected a number, got string' },
+      { path: 'query.customSections.$.where.or[3].name.$in', message: 'expected an array, got string' },
+      { path: 'query.customSections.$.where.or[4].name.$regex', message: 'unknown operator "$regex"' },
+    ]);
+  });
+});
+
+describe('validateStep', () => {
+  it('accepts updates, links and deletes that match the schema', () => {
+    expect(validateStep(['update', 'customEntries', 'entry-1', { title: 'Swim', rating: 4, exdates: [] }, { expectedUpdatedAt: '2026-01-05T10:00:00Z' }], 0)).toEqual([]);
+    expect(validateStep(['link', 'customSections', 'section-1', { kidProfile: 'kid-1' }], 0)).toEqual([]);
+    expect(validateStep(['delete', 'mediaEntries', 'media-1'], 0)).toEqual([]);
+  });
+
+  it('rejects unknown actions, entities and missing ids', () => {
+    expect(validateStep(['upsert', 'customEntries', 'entry-1', {}], 2)).toEqual([{ path: 'steps[2][0]', message: 'unknown action "upsert"' }]);
+    expect(validateStep(['update', 'entries', 'entry-1', {}], 2)).toEqual([{ path: 'steps[2][1]', message: 'unknown entity "entries"' }]);
+    expect(validateStep(['update', 'customEntries', '', {}], 2)).toEqual([{ path: 'steps[2][2]', message: 'expected a non-empty string id' }]);
+    expect(validateStep('update', 2)).toEqual([{ path: 'steps[2]', message: 'expected an array, got string' }]);
+  });
+
+  it('rejects unknown attributes, wrong types and nulls for required attributes', () => {
+    expect(validateStep(['update', 'customEntries', 'entry-1', { title: 3, mood: 'happy', isRecurrenceTemplate: 'yes' }], 0)).toEqual([
+      { path: 'steps[0][3].title', message: 'expected a string, got number' },
+      { path: 'steps[0][3].mood', message: 'unknown attribute "mood" on customEntries' },
+      { path: 'steps[0][3].isRecurrenceTemplate', message: 'expected a boolean, got string' },
+    ]);
+    expect(validateStep(['update', 'tombstones', 'tombstone-1', { deletedBy: null }], 0)).toEqual([
+      { path: 'steps[0][3].deletedBy', message: '"deletedBy" is required on tombstones and cannot be null' },
+    ]);
+  });
+
+  it('checks the format of rrule values', () => {
+    const issues = validateStep(['update', 'customEntries', 'entry-1', { rrule: 'FREQ=HOURLY' }], 0);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('steps[0][3].rrule');
+  });
+
+  it('rejects unknown link labels and non-id targets', () => {
+    expect(validateStep(['link', 'customEntries', 'entry-1', { kid: 'kid-1', section: 4 }], 0)).toEqual([
+      { path: 'steps[0][3].kid', message: 'unknown link "kid" on customEntries' },
+      { path: 'steps[0][3].section', message: 'expected an id or an array of ids' },
+    ]);
+  });
+
+  it('only accepts the expectedUpdatedAt option, on update steps', () => {
+    expect(validateStep(['update', 'customEntries', 'entry-1', {}, { expectedUpdatedAt: 'yesterday', force: true }], 0)).toEqual([
+      { path: 'steps[0][4].expectedUpdatedAt', message: 'expected an ISO 8601 timestamp' },
+      { path: 'steps[0][4].force', message: 'unknown step option "force"' },
+    ]);
+    expect(validateStep(['delete', 'customEntries', 'entry-1', {}, { expectedUpdatedAt: '2026-01-05T10:00:00Z' }], 0)).toEqual([
+      { path: 'steps[0][4]', message: 'options are only supported on update steps' },
+    ]);
+  });
+});